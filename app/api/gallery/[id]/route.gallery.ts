@@ -0,0 +1,13 @@
+import { galleryHandlers } from "@/server/gallery"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const dynamic = "force-dynamic"
+
+export async function GET(_request: Request, { params }: RouteContext) {
+    return galleryHandlers.fetch((await params).id)
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+    return galleryHandlers.remove((await params).id)
+}
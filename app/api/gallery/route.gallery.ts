@@ -0,0 +1,11 @@
+import { galleryHandlers } from "@/server/gallery"
+
+export const dynamic = "force-dynamic"
+
+export function GET() {
+    return galleryHandlers.list()
+}
+
+export function POST(request: Request) {
+    return galleryHandlers.create(request)
+}
@@ -0,0 +1,5 @@
+import Gallery from "@/components/Gallery"
+
+export default function GalleryPage() {
+    return <Gallery />
+}
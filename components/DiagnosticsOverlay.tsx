@@ -0,0 +1,120 @@
+"use client"
+
+import type { CSSProperties } from "react"
+import type { DiagnosticsReport } from "@/lib/diagnostics"
+
+export const DIAGNOSTICS_SHORTCUT = "d"
+/** Query parameter that opens the overlay on load, e.g. `/?diagnostics`. */
+export const DIAGNOSTICS_PARAM = "diagnostics"
+
+const PASSES = ["forces", "constraints", "facets", "lines", "nodes"] as const
+
+type DiagnosticsOverlayProps = {
+    /** Latest measures, or null until the first diagnosed frame arrives. */
+    report: DiagnosticsReport | null
+}
+
+const rowStyle: CSSProperties = {
+    display: "flex",
+    justifyContent: "space-between",
+    gap: 12
+}
+
+const headingStyle: CSSProperties = {
+    margin: "6px 0 2px",
+    color: "rgba(245, 240, 219, 0.6)",
+    font: "10px/1.4 system-ui, sans-serif",
+    textTransform: "uppercase",
+    letterSpacing: "0.06em"
+}
+
+const format = (value: number, digits = 2) => (Number.isFinite(value) ? value.toFixed(digits) : "–")
+
+function Row({ label, value }: { label: string; value: string }) {
+    return (
+        <div style={rowStyle}>
+            <span>{label}</span>
+            <span>{value}</span>
+        </div>
+    )
+}
+
+/**
+ * Read-only panel for tuning the lattice. It ignores the pointer so the
+ * hover inspector can see the nodes beneath it.
+ */
+export default function DiagnosticsOverlay({ report }: DiagnosticsOverlayProps) {
+    const peak = report ? Math.max(1, ...report.signalHistogram) : 1
+
+    return (
+        <div
+            role="region"
+            aria-label="Diagnostics"
+            style={{
+                position: "absolute",
+                right: 12,
+                top: 12,
+                width: 200,
+                padding: "6px 10px 8px",
+                borderRadius: 8,
+                background: "rgba(12, 16, 30, 0.72)",
+                border: "1px solid rgba(245, 240, 219, 0.16)",
+                color: "rgb(245, 240, 219)",
+                font: "11px/1.4 ui-monospace, monospace",
+                pointerEvents: "none",
+                zIndex: 1
+            }}
+        >
+            {report ? (
+                <>
+                    <Row label="fps" value={format(report.fps, 1)} />
+                    <div style={headingStyle}>ms per pass</div>
+                    {PASSES.map((pass) => (
+                        <Row key={pass} label={pass} value={format(report.passMs[pass])} />
+                    ))}
+                    <div style={headingStyle}>Energy</div>
+                    <Row label="kinetic" value={format(report.kineticEnergy)} />
+                    <Row label="spring" value={format(report.springEnergy)} />
+                    <Row label="correction px" value={format(report.constraintCorrection)} />
+                    <div style={headingStyle}>Facet signal</div>
+                    <div
+                        aria-label="Facet signal histogram"
+                        style={{ display: "flex", alignItems: "flex-end", gap: 1, height: 32 }}
+                    >
+                        {report.signalHistogram.map((count, bin) => (
+                            <div
+                                key={bin}
+                                title={String(count)}
+                                style={{
+                                    flex: 1,
+                                    height: `${(count / peak) * 100}%`,
+                                    minHeight: count > 0 ? 1 : 0,
+                                    background: "rgb(255, 193, 120)"
+                                }}
+                            />
+                        ))}
+                    </div>
+                    <div style={headingStyle}>Node</div>
+                    {report.inspected ? (
+                        <>
+                            <Row label="index" value={String(report.inspected.index)} />
+                            <Row
+                                label="bx, by"
+                                value={`${format(report.inspected.bx, 1)}, ${format(report.inspected.by, 1)}`}
+                            />
+                            <Row label="displacement" value={format(report.inspected.displacement)} />
+                            <Row
+                                label="vx, vy"
+                                value={`${format(report.inspected.vx)}, ${format(report.inspected.vy)}`}
+                            />
+                        </>
+                    ) : (
+                        <div>Hover a node to inspect it</div>
+                    )}
+                </>
+            ) : (
+                <div>Measuring…</div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useEffect, useRef, useState, type CSSProperties } from "react"
+import GridEngine, { type GridEngineHandle } from "@/components/GridEngine"
+import {
+    blobToDataUrl,
+    deleteSculpture,
+    fetchSculpture,
+    listSculptures,
+    MAX_NAME_LENGTH,
+    saveSculpture,
+    THUMBNAIL_WIDTH,
+    type Sculpture,
+    type SculptureSummary
+} from "@/lib/gallery"
+
+/** Query parameter holding the sculpture on screen, e.g. `/gallery?sculpture=…`. */
+export const SCULPTURE_PARAM = "sculpture"
+
+const buttonStyle: CSSProperties = {
+    padding: "4px 10px",
+    borderRadius: 6,
+    border: "none",
+    font: "12px/1.4 system-ui, sans-serif",
+    color: "rgb(245, 240, 219)",
+    background: "transparent",
+    cursor: "pointer"
+}
+
+const panelStyle: CSSProperties = {
+    position: "absolute",
+    left: 12,
+    top: 60,
+    bottom: 64,
+    width: 220,
+    display: "flex",
+    flexDirection: "column",
+    gap: 6,
+    padding: 8,
+    borderRadius: 8,
+    background: "rgba(12, 16, 30, 0.72)",
+    border: "1px solid rgba(245, 240, 219, 0.16)",
+    color: "rgb(245, 240, 219)",
+    font: "12px/1.4 system-ui, sans-serif",
+    zIndex: 1
+}
+
+const message = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Gallery mode: the live lattice plus a panel of saved sculptures. Loading
+ * one remounts `GridEngine` on its snapshot, theme and physics; saving
+ * stores the lattice on screen with a rendered thumbnail.
+ */
+export default function Gallery() {
+    const grid = useRef<GridEngineHandle>(null)
+    const [sculptures, setSculptures] = useState<SculptureSummary[]>([])
+    const [current, setCurrent] = useState<Sculpture | null>(null)
+    const [name, setName] = useState("")
+    const [status, setStatus] = useState<string | null>(null)
+    const [busy, setBusy] = useState(false)
+
+    const refresh = async () => {
+        try {
+            setSculptures(await listSculptures())
+        } catch (error) {
+            setStatus(message(error))
+        }
+    }
+
+    const show = (sculpture: Sculpture | null) => {
+        setCurrent(sculpture)
+        const url = new URL(window.location.href)
+        if (sculpture) url.searchParams.set(SCULPTURE_PARAM, sculpture.id)
+        else url.searchParams.delete(SCULPTURE_PARAM)
+        window.history.replaceState(null, "", url)
+    }
+
+    const load = async (id: string) => {
+        try {
+            show(await fetchSculpture(id))
+            setStatus(null)
+        } catch (error) {
+            setStatus(message(error))
+        }
+    }
+
+    useEffect(() => {
+        void refresh()
+        const id = new URLSearchParams(window.location.search).get(SCULPTURE_PARAM)
+        if (id) void load(id)
+    }, [])
+
+    const save = async () => {
+        const handle = grid.current
+        if (!handle || busy) return
+        setBusy(true)
+        try {
+            const snapshot = await handle.snapshot()
+            const [frame] = await handle.exportPngSequence({ frames: 1, width: THUMBNAIL_WIDTH })
+            if (!snapshot || !frame) throw new Error("The lattice has not started yet")
+            const saved = await saveSculpture({
+                name,
+                theme: handle.theme(),
+                physics: current?.physics ?? {},
+                snapshot,
+                thumbnail: await blobToDataUrl(frame)
+            })
+            setName("")
+            setStatus(`Saved ${saved.name}`)
+            await refresh()
+        } catch (error) {
+            setStatus(message(error))
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    const remove = async (sculpture: SculptureSummary) => {
+        try {
+            await deleteSculpture(sculpture.id)
+            if (current?.id === sculpture.id) show(null)
+            await refresh()
+        } catch (error) {
+            setStatus(message(error))
+        }
+    }
+
+    return (
+        <div style={{ position: "relative", width: "100%", minHeight: "100dvh" }}>
+            <GridEngine
+                key={current?.id ?? "live"}
+                ref={grid}
+                snapshot={current?.snapshot}
+                theme={current?.theme}
+                physics={current?.physics}
+            />
+            <aside aria-label="Gallery" style={panelStyle}>
+                <form
+                    onSubmit={(event) => {
+                        event.preventDefault()
+                        void save()
+                    }}
+                    style={{ display: "flex", gap: 4 }}
+                >
+                    <input
+                        aria-label="Sculpture name"
+                        placeholder="Name this sculpture"
+                        value={name}
+                        maxLength={MAX_NAME_LENGTH}
+                        onChange={(event) => setName(event.target.value)}
+                        style={{ flex: 1, minWidth: 0, font: "inherit" }}
+                    />
+                    <button type="submit" disabled={busy || !name.trim()} style={buttonStyle}>
+                        Save
+                    </button>
+                </form>
+                {status && <div role="status">{status}</div>}
+                <ul style={{ margin: 0, padding: 0, listStyle: "none", overflowY: "auto", flex: 1 }}>
+                    {sculptures.map((sculpture) => (
+                        <li
+                            key={sculpture.id}
+                            style={{
+                                marginBottom: 8,
+                                opacity: current && current.id !== sculpture.id ? 0.7 : 1
+                            }}
+                        >
+                            <img src={sculpture.thumbnail} alt="" style={{ width: "100%", borderRadius: 4 }} />
+                            <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                                <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis" }}>
+                                    {sculpture.name}
+                                </span>
+                                <button type="button" onClick={() => void load(sculpture.id)} style={buttonStyle}>
+                                    Load
+                                </button>
+                                <button
+                                    type="button"
+                                    aria-label={`Delete ${sculpture.name}`}
+                                    onClick={() => void remove(sculpture)}
+                                    style={buttonStyle}
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+                {current && (
+                    <button type="button" onClick={() => show(null)} style={buttonStyle}>
+                        Back to my lattice
+                    </button>
+                )}
+            </aside>
+        </div>
+    )
+}
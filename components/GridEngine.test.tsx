@@ -1,14 +1,41 @@
-import { render } from "@testing-library/react"
-import GridEngine from "@/components/GridEngine"
-import { describe, expect, test, vi } from "vitest"
+import { act, cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react"
+import { createRef } from "react"
+import GridEngine, { type GridEngineHandle } from "@/components/GridEngine"
+import { createLocalSocket, createRelay, PEER_COLORS } from "@/lib/relay"
+import type { GridRuntime } from "@/lib/runtime"
+import { createSimulation } from "@/lib/simulation"
+import { afterEach, describe, expect, test, vi } from "vitest"
+
+/** Every runtime the engine starts, with `configure` and `setPalette` spied on. */
+const runtimes = vi.hoisted(() => [] as GridRuntime[])
+
+vi.mock("@/lib/runtime", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("@/lib/runtime")>()
+    return {
+        ...actual,
+        createGridRuntime: (...args: Parameters<typeof actual.createGridRuntime>) => {
+            const runtime = actual.createGridRuntime(...args)
+            const spied = { ...runtime, configure: vi.fn(runtime.configure), setPalette: vi.fn(runtime.setPalette) }
+            runtimes.push(spied)
+            return spied
+        }
+    }
+})
 
 vi.mock("p5", () => {
     class MockP5 {
+        static instances: MockP5[] = []
         setup?: () => void
         draw?: () => void
         mouseX = -1
         mouseY = -1
+        width = 640
+        height = 400
+        deltaTime = 1000 / 60
+        CLOSE = "close"
+        lastBackground: number[] = []
         constructor(sketch: (p: MockP5) => void) {
+            MockP5.instances.push(this)
             sketch(this)
             this.setup?.()
         }
@@ -17,7 +44,19 @@ vi.mock("p5", () => {
                 style: () => undefined
             }
         }
-        background() {
+        background(...channels: number[]) {
+            this.lastBackground = channels
+        }
+        lerp(a: number, b: number, amount: number) {
+            return a + (b - a) * amount
+        }
+        quad() {
+            return undefined
+        }
+        triangle() {
+            return undefined
+        }
+        square() {
             return undefined
         }
         noise() {
@@ -32,6 +71,9 @@ vi.mock("p5", () => {
         translate() {
             return undefined
         }
+        scale() {
+            return undefined
+        }
         strokeWeight() {
             return undefined
         }
@@ -57,6 +99,8 @@ vi.mock("p5", () => {
     return { default: MockP5 }
 })
 
+afterEach(cleanup)
+
 class MockResizeObserver {
     observe() {
         return undefined
@@ -83,3 +127,249 @@ describe("GridEngine host sizing", () => {
         expect(host.style.overflow).toBe("hidden")
     })
 })
+
+describe("GridEngine tools", () => {
+    test("switches tools from the toolbar and keyboard shortcuts", () => {
+        Object.defineProperty(window, "ResizeObserver", {
+            writable: true,
+            value: MockResizeObserver
+        })
+
+        render(<GridEngine />)
+        expect(screen.getByRole("button", { name: "Pull" }).getAttribute("aria-pressed")).toBe("true")
+
+        fireEvent.click(screen.getByRole("button", { name: "Tear" }))
+        expect(screen.getByRole("button", { name: "Tear" }).getAttribute("aria-pressed")).toBe("true")
+
+        act(() => {
+            window.dispatchEvent(new KeyboardEvent("keydown", { key: "2" }))
+        })
+        expect(screen.getByRole("button", { name: "Push" }).getAttribute("aria-pressed")).toBe("true")
+    })
+
+    test("keeps Ctrl+Z for undo instead of switching tools", () => {
+        Object.defineProperty(window, "ResizeObserver", {
+            writable: true,
+            value: MockResizeObserver
+        })
+
+        render(<GridEngine />)
+        const undo = new KeyboardEvent("keydown", { key: "z", ctrlKey: true, cancelable: true })
+        act(() => {
+            window.dispatchEvent(undo)
+        })
+        fireEvent.click(screen.getByRole("button", { name: "Heal" }))
+
+        expect(undo.defaultPrevented).toBe(true)
+        expect(screen.getByRole("button", { name: "Pull" }).getAttribute("aria-pressed")).toBe("true")
+        expect(screen.getByRole("button", { name: "Heal" }).getAttribute("aria-pressed")).toBe("true")
+    })
+})
+
+describe("GridEngine props", () => {
+    test("cycles themes from the toolbar", () => {
+        Object.defineProperty(window, "ResizeObserver", {
+            writable: true,
+            value: MockResizeObserver
+        })
+
+        render(<GridEngine theme="helios" />)
+        fireEvent.click(screen.getByRole("button", { name: "Helios" }))
+
+        expect(screen.getByRole("button", { name: "Daylight" })).toBeTruthy()
+    })
+
+    test("applies palette and physics changes without rebuilding the sketch", async () => {
+        Object.defineProperty(window, "ResizeObserver", {
+            writable: true,
+            value: MockResizeObserver
+        })
+        const { default: P5 } = (await import("p5")) as unknown as {
+            default: { instances: { draw?: () => void; lastBackground: number[] }[] }
+        }
+        const before = P5.instances.length
+
+        const { rerender } = render(<GridEngine palette={{ background: [1, 2, 3] }} />)
+        await waitFor(() => expect(P5.instances.length).toBe(before + 1))
+        const sketch = P5.instances[before]
+        sketch.draw?.()
+        expect(sketch.lastBackground).toEqual([1, 2, 3])
+
+        rerender(<GridEngine palette={{ background: [9, 8, 7] }} physics={{ anchorK: 0.05 }} />)
+        sketch.draw?.()
+        expect(sketch.lastBackground[0]).toBeGreaterThan(1)
+        expect(sketch.lastBackground[0]).toBeLessThan(9)
+        for (let i = 0; i < 60; i += 1) sketch.draw?.()
+
+        expect(sketch.lastBackground).toEqual([9, 8, 7])
+        expect(P5.instances.length).toBe(before + 1)
+    })
+
+    test("only reconfigures when inline palette and physics props change value", async () => {
+        Object.defineProperty(window, "ResizeObserver", {
+            writable: true,
+            value: MockResizeObserver
+        })
+        const before = runtimes.length
+        const physics = { anchorK: 0.05, structuralK: 0.4 }
+        const { rerender } = render(<GridEngine palette={{ background: [1, 2, 3] }} physics={{ ...physics }} />)
+        await waitFor(() => expect(runtimes.length).toBe(before + 1))
+        const { configure, setPalette } = runtimes[before]
+        const configured = vi.mocked(configure).mock.calls.length
+        const painted = vi.mocked(setPalette).mock.calls.length
+
+        for (let i = 0; i < 3; i += 1) {
+            rerender(<GridEngine palette={{ background: [1, 2, 3] }} physics={{ ...physics }} />)
+        }
+        // The same fields in another order are the same physics.
+        rerender(<GridEngine palette={{ background: [1, 2, 3] }} physics={{ structuralK: 0.4, anchorK: 0.05 }} />)
+        expect(configure).toHaveBeenCalledTimes(configured)
+        expect(setPalette).toHaveBeenCalledTimes(painted)
+
+        rerender(<GridEngine palette={{ background: [4, 5, 6] }} physics={{ anchorK: 0.08 }} />)
+        await waitFor(() => expect(configure).toHaveBeenCalledTimes(configured + 1))
+        expect(configure).toHaveBeenLastCalledWith({ anchorK: 0.08 })
+        expect(setPalette).toHaveBeenCalledTimes(painted + 1)
+    })
+})
+
+describe("GridEngine handle", () => {
+    test("lets host apps drive the lattice from code", async () => {
+        Object.defineProperty(window, "ResizeObserver", {
+            writable: true,
+            value: MockResizeObserver
+        })
+        const { default: P5 } = (await import("p5")) as unknown as {
+            default: { instances: { draw?: () => void }[] }
+        }
+        const before = P5.instances.length
+        const handle = createRef<GridEngineHandle>()
+        const onFrame = vi.fn()
+
+        render(<GridEngine ref={handle} onFrame={onFrame} />)
+        await waitFor(() => expect(P5.instances.length).toBe(before + 1))
+        const sketch = P5.instances[before]
+
+        handle.current?.pause()
+        const paused = await handle.current?.snapshot()
+        sketch.draw?.()
+        expect((await handle.current?.snapshot())?.time).toBe(paused?.time)
+        expect(onFrame).toHaveBeenCalledWith(
+            expect.objectContaining({ energy: expect.any(Number), maxStrain: expect.any(Number) })
+        )
+
+        handle.current?.impulse(0, 0, 4)
+        handle.current?.resume()
+        sketch.draw?.()
+        expect((await handle.current?.snapshot())?.time).toBeGreaterThan(paused?.time ?? Infinity)
+
+        act(() => handle.current?.setTool("pin"))
+        expect(screen.getByRole("button", { name: "Pin" }).getAttribute("aria-pressed")).toBe("true")
+    })
+})
+
+describe("GridEngine worker mode", () => {
+    test("falls back to the in-thread sketch where OffscreenCanvas is missing", async () => {
+        Object.defineProperty(window, "ResizeObserver", {
+            writable: true,
+            value: MockResizeObserver
+        })
+        const { default: P5 } = (await import("p5")) as unknown as {
+            default: { instances: { draw?: () => void }[] }
+        }
+        const before = P5.instances.length
+        const handle = createRef<GridEngineHandle>()
+
+        render(<GridEngine ref={handle} worker />)
+        await waitFor(() => expect(P5.instances.length).toBe(before + 1))
+        P5.instances[before].draw?.()
+
+        expect(typeof OffscreenCanvas).toBe("undefined")
+        expect(await handle.current?.exportSvg()).toContain("<svg")
+    })
+})
+
+describe("GridEngine diagnostics", () => {
+    test("toggles the overlay with its shortcut and fills it from drawn frames", async () => {
+        Object.defineProperty(window, "ResizeObserver", {
+            writable: true,
+            value: MockResizeObserver
+        })
+        const { default: P5 } = (await import("p5")) as unknown as {
+            default: { instances: { draw?: () => void }[] }
+        }
+        const before = P5.instances.length
+
+        render(<GridEngine />)
+        await waitFor(() => expect(P5.instances.length).toBe(before + 1))
+        expect(screen.queryByRole("region", { name: "Diagnostics" })).toBeNull()
+
+        act(() => {
+            window.dispatchEvent(new KeyboardEvent("keydown", { key: "d" }))
+        })
+        P5.instances[before].draw?.()
+        await waitFor(() => expect(screen.getByLabelText("Facet signal histogram")).toBeTruthy())
+        expect(screen.getByRole("region", { name: "Diagnostics" }).textContent).toContain("constraints")
+
+        act(() => {
+            window.dispatchEvent(new KeyboardEvent("keydown", { key: "d" }))
+        })
+        expect(screen.queryByRole("region", { name: "Diagnostics" })).toBeNull()
+    })
+})
+
+describe("GridEngine relay sessions", () => {
+    test("joins the shared lattice and draws other participants as coloured rings", async () => {
+        Object.defineProperty(window, "ResizeObserver", {
+            writable: true,
+            value: MockResizeObserver
+        })
+        const relay = createRelay()
+        const other = relay.connect({ send: () => undefined })
+        const snapshot = createSimulation({ width: 300, height: 200, seed: 4 }).snapshot()
+        other.receive(JSON.stringify({ type: "join", snapshot }))
+        vi.stubGlobal("WebSocket", vi.fn(() => createLocalSocket(relay)))
+        try {
+            const { container } = render(<GridEngine relay="ws://localhost:8787" />)
+            await waitFor(() => expect(relay.peers()).toBe(2))
+
+            other.receive(JSON.stringify({ type: "pointers", pointers: [{ id: 1, x: 0, y: 0, pressed: true }] }))
+            await waitFor(() => expect(container.querySelector("[data-peer='1']")).toBeTruthy())
+            const ring = container.querySelector<HTMLElement>("[data-peer='1']")
+            expect(ring?.style.borderColor).toBe(`rgb(${PEER_COLORS[0].join(", ")})`)
+            // Pressed mouse pointers reach 0.3 of the shared lattice's shorter side.
+            expect(ring?.style.width).toBe("120px")
+        } finally {
+            vi.unstubAllGlobals()
+        }
+    })
+})
+
+describe("GridEngine camera", () => {
+    test("zooms on the wheel and eases back to the default view", async () => {
+        Object.defineProperty(window, "ResizeObserver", {
+            writable: true,
+            value: MockResizeObserver
+        })
+        const { default: P5 } = (await import("p5")) as unknown as {
+            default: { instances: { draw?: () => void }[] }
+        }
+        const before = P5.instances.length
+        const handle = createRef<GridEngineHandle>()
+
+        const { container } = render(<GridEngine ref={handle} />)
+        await waitFor(() => expect(P5.instances.length).toBe(before + 1))
+        const host = container.firstElementChild as HTMLElement
+
+        fireEvent.wheel(host, { deltaY: -300 })
+        const zoomed = handle.current?.view().zoom
+        expect(zoomed).toBeGreaterThan(1)
+        // Overlay controls keep the wheel to themselves.
+        fireEvent.wheel(screen.getByRole("toolbar"), { deltaY: -300 })
+        expect(handle.current?.view().zoom).toBe(zoomed)
+
+        fireEvent.click(screen.getByRole("button", { name: "Reset view" }))
+        for (let frame = 0; frame < 40; frame += 1) P5.instances[before].draw?.()
+        expect(handle.current?.view()).toEqual({ x: 0, y: 0, zoom: 1 })
+    })
+})
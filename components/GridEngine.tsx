@@ -1,148 +1,730 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react"
 import type p5 from "p5"
+import DiagnosticsOverlay, { DIAGNOSTICS_PARAM, DIAGNOSTICS_SHORTCUT } from "@/components/DiagnosticsOverlay"
+import PeerCursors from "@/components/PeerCursors"
+import PlaybackControls from "@/components/PlaybackControls"
+import SnapshotControls from "@/components/SnapshotControls"
+import Toolbar, { RESET_VIEW_SHORTCUT, SOUND_SHORTCUT } from "@/components/Toolbar"
+import { createSonifier, type Sonifier } from "@/lib/audio"
+import { createCamera, createCameraGestures, type CameraView } from "@/lib/camera"
+import { createSessionClient, SESSION_SYNC_MS, type SessionClient, type SessionPeer } from "@/lib/session"
+import type { PhysicsConfig, SimulationStats, StepInput } from "@/lib/simulation"
+import type { CaptureFormat, CaptureOptions } from "@/lib/capture"
+import type { DiagnosticsReport } from "@/lib/diagnostics"
+import type { ForceField } from "@/lib/fields"
+import { maskFromFile, type ShapeMask, type ShapeOptions } from "@/lib/shapes"
+import { parseRecording, type Recording } from "@/lib/recording"
+import {
+    createGridRuntime,
+    type GridFacetFlip,
+    type GridRuntime,
+    type PlaybackState,
+    type RuntimeOptions
+} from "@/lib/runtime"
+import {
+    connectWorker,
+    localRuntime,
+    supportsWorkerRendering,
+    type RemoteRuntime,
+    type WorkerLink
+} from "@/lib/remote"
+import { createCanvasRenderer, createP5Renderer, type RendererKind } from "@/lib/renderers"
+import { createPointerTracker } from "@/lib/pointers"
+import { DEFAULT_TOOL, toolForShortcut, type Tool } from "@/lib/tools"
+import { DEFAULT_GEOMETRY, type LatticeGeometry } from "@/lib/lattices"
+import type { GridPalette } from "@/lib/palette"
+import { resolveTheme, type ThemeChoice } from "@/lib/themes"
+import {
+    decodeShareable,
+    encodeShareable,
+    parseSnapshot,
+    readAutosave,
+    serializeSnapshot,
+    SHARE_HASH_PREFIX,
+    writeAutosave,
+    type LatticeSnapshot
+} from "@/lib/snapshot"
+
+export type { GridFacetFlip } from "@/lib/runtime"
+
+const AUTOSAVE_INTERVAL_MS = 5000
+/** Query parameter naming a relay to join, e.g. `/?relay=ws://localhost:8787`. */
+export const RELAY_PARAM = "relay"
+
+export type GridEngineProps = {
+    /** Physics overrides; changes apply live to the running lattice. */
+    physics?: Partial<PhysicsConfig>
+    /** Starting theme; "auto" (the default) follows `prefers-color-scheme`. */
+    theme?: ThemeChoice
+    /** Colour overrides on top of the active theme's palette. */
+    palette?: Partial<GridPalette>
+    /** Called after every drawn frame with whole-lattice measures. */
+    onFrame?: (stats: SimulationStats) => void
+    /** Called for each facet that flips, with its centre in host pixels. */
+    onFacetFlip?: (flip: GridFacetFlip) => void
+    /** Recording looped as an attract mode while nobody touches the lattice. */
+    attract?: Recording
+    /**
+     * Steps and paints the lattice in a Web Worker on an OffscreenCanvas so
+     * the host's main thread stays free. Falls back to in-thread p5 where
+     * either is missing. Read once, at mount.
+     */
+    worker?: boolean
+    /**
+     * In-thread drawing backend: "p5" (the default) or "canvas", a batched
+     * Canvas2D renderer that never loads p5. Read once, at mount.
+     */
+    renderer?: RendererKind
+    /**
+     * WebSocket URL of a lattice relay (`npm run relay`); everyone connected
+     * to it sculpts one shared sheet. Read once, at mount; `?relay=` in the
+     * page URL does the same.
+     */
+    relay?: string
+    /**
+     * Lattice to start from instead of a share link or the autosave, e.g. a
+     * gallery sculpture. It is not autosaved over the user's own lattice.
+     * Read once, at mount.
+     */
+    snapshot?: LatticeSnapshot
+}
+
+/**
+ * Imperative controls for host apps. Coordinates are CSS pixels relative to
+ * the GridEngine element's top-left corner at the default view, whatever
+ * the camera shows. Methods that read lattice state return promises, since
+ * it may live in a worker.
+ */
+export type GridEngineHandle = {
+    /** Kicks nearby nodes outward (or inward for negative strength). */
+    impulse: (x: number, y: number, strength: number) => void
+    /** Flattens the lattice and clears pins, cuts and history. */
+    reset: () => void
+    /** Freezes the simulation; the last frame keeps being drawn. */
+    pause: () => void
+    resume: () => void
+    /** Current lattice state, or null before the lattice has started. */
+    snapshot: () => Promise<LatticeSnapshot | null>
+    /** Theme choice in effect, including changes made from the toolbar. */
+    theme: () => ThemeChoice
+    setTool: (tool: Tool) => void
+    /**
+     * Registers or replaces a named force field centred at (x, y). In worker
+     * mode `modulate` cannot be sent and the field is rejected.
+     */
+    setField: (name: string, field: ForceField) => void
+    removeField: (name: string) => void
+    /** Morphs the lattice toward a shape mask, or back to the regular grid for null. */
+    morphTo: (mask: ShapeMask | null, options?: ShapeOptions) => void
+    /** Starts logging every step's input from the current lattice state. */
+    startRecording: () => void
+    /** Ends the recording and returns it, or null when none was running. */
+    stopRecording: () => Promise<Recording | null>
+    /**
+     * Starts sampling facet strain, shear, signal, flips and glow plus node
+     * displacement into a CSV (the default) or NDJSON time series.
+     */
+    startCapture: (options?: Partial<CaptureOptions>) => void
+    /** Ends the capture and returns its file, or null when none was running. */
+    stopCapture: () => Promise<Blob | null>
+    /** Replays a recording in place of the live lattice until stopped. */
+    play: (recording: Recording, options?: { loop?: boolean }) => void
+    stopPlayback: () => void
+    seek: (step: number) => void
+    setPlaybackSpeed: (speed: number) => void
+    /** The frame on screen as standalone SVG, or null before the first frame. */
+    exportSvg: () => Promise<string | null>
+    /**
+     * Renders PNG frames offline from the current lattice state, `width`
+     * pixels wide, by stepping a headless copy of the simulation.
+     */
+    exportPngSequence: (options: { frames: number; width: number; stepsPerFrame?: number }) => Promise<Blob[]>
+    /** Where the camera is: the lattice point at the centre, relative to the host's centre, and the zoom. */
+    view: () => CameraView
+    /** Eases the camera back to the default view. */
+    resetView: () => void
+}
 
-const HELIOS_BACKGROUND = [12, 16, 30] as const
-const HELIOS_TRAIL_WARM = [255, 193, 120] as const
-const HELIOS_TRAIL_COOL = [126, 208, 255] as const
-const HELIOS_BODY_WARM = [255, 220, 166] as const
-const HELIOS_BODY_COOL = [155, 226, 255] as const
-const HELIOS_SUN_STROKE = [245, 240, 219] as const
-
-type GridNode = {
-    bx: number
-    by: number
-    x: number
-    y: number
-    vx: number
-    vy: number
-    phase: number
+/** A shared link wins over the autosave; either may be missing or stale. */
+async function loadInitialSnapshot(): Promise<LatticeSnapshot | null> {
+    try {
+        if (window.location.hash.startsWith(SHARE_HASH_PREFIX)) {
+            return await decodeShareable(window.location.hash.slice(SHARE_HASH_PREFIX.length))
+        }
+    } catch (error) {
+        console.error(error)
+    }
+    return readAutosave(window.localStorage)
+}
+
+function downloadText(name: string, text: string, type = "application/json") {
+    downloadBlob(name, new Blob([text], { type }))
+}
+
+function downloadBlob(name: string, blob: Blob) {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = name
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+/** Keeps pointers and wheels over overlay controls from reaching the lattice. */
+function isLatticeTarget(event: Event) {
+    const target = event.target as Element | null
+    return !target?.closest?.("[data-grid-ui]")
+}
+
+/** Logs a runtime call that failed, for instance after its worker stopped. */
+function logFailure(promise: Promise<unknown> | undefined) {
+    promise?.catch((error) => console.error(error))
+}
+
+/**
+ * Returns the same object for as long as its fields keep their values, so an
+ * inline prop such as `physics={{ anchorK: 0.05 }}` does not re-run the
+ * effects that depend on it on every render.
+ */
+function useStableRecord<T extends object>(record: T | undefined): T | undefined {
+    // Sorted so the same fields in another order compare equal.
+    const key = record && JSON.stringify(Object.entries(record).sort(([a], [b]) => (a < b ? -1 : 1)))
+    return useMemo(() => record, [key])
+}
+
+/** Tracks the system colour scheme; always dark where it cannot be queried. */
+function usePrefersLight() {
+    const [prefersLight, setPrefersLight] = useState(false)
+    useEffect(() => {
+        const query = window.matchMedia?.("(prefers-color-scheme: light)")
+        if (!query) return
+        setPrefersLight(query.matches)
+        const handleChange = (event: MediaQueryListEvent) => setPrefersLight(event.matches)
+        query.addEventListener("change", handleChange)
+        return () => query.removeEventListener("change", handleChange)
+    }, [])
+    return prefersLight
 }
 
-export default function GridEngine() {
+const GridEngine = forwardRef<GridEngineHandle, GridEngineProps>(function GridEngine(
+    {
+        physics,
+        theme = "auto",
+        palette,
+        onFrame,
+        onFacetFlip,
+        attract,
+        worker = false,
+        renderer = "p5",
+        relay,
+        snapshot
+    },
+    ref
+) {
     const hostRef = useRef<HTMLDivElement>(null)
+    const cursorLayerRef = useRef<HTMLDivElement>(null)
+    const cameraRef = useRef(createCamera())
+    const workerRef = useRef(worker)
+    const rendererRef = useRef(renderer)
+    const relayRef = useRef(relay)
+    const snapshotRef = useRef(snapshot)
+    const pausedRef = useRef(false)
+    // Fields set before the runtime starts are handed to it once it does.
+    const fieldsRef = useRef(new Map<string, ForceField>())
+    const onFrameRef = useRef(onFrame)
+    onFrameRef.current = onFrame
+    const onFacetFlipRef = useRef(onFacetFlip)
+    onFacetFlipRef.current = onFacetFlip
+    const stablePhysics = useStableRecord(physics)
+    const stablePalette = useStableRecord(palette)
+    const physicsRef = useRef(stablePhysics)
+    const [themeChoice, setThemeChoice] = useState<ThemeChoice>(theme)
+    const themeChoiceRef = useRef(themeChoice)
+    themeChoiceRef.current = themeChoice
+    const prefersLight = usePrefersLight()
+    const resolvedPalette = useMemo<GridPalette>(
+        () => ({ ...resolveTheme(themeChoice, prefersLight).palette, ...stablePalette }),
+        [themeChoice, prefersLight, stablePalette]
+    )
+    const paletteRef = useRef(resolvedPalette)
+    paletteRef.current = resolvedPalette
+    const [tool, setTool] = useState<Tool>(DEFAULT_TOOL)
+    const toolRef = useRef(tool)
+    toolRef.current = tool
+    const [geometry, setGeometry] = useState<LatticeGeometry>(DEFAULT_GEOMETRY)
+    const geometryRef = useRef(geometry)
+    geometryRef.current = geometry
+    const [healing, setHealing] = useState(false)
+    const healingRef = useRef(healing)
+    healingRef.current = healing
+    const runtimeRef = useRef<RemoteRuntime | null>(null)
+    const [recording, setRecording] = useState(false)
+    const attractRef = useRef(attract)
+    attractRef.current = attract
+    const [playback, setPlayback] = useState<PlaybackState | null>(null)
+    const [speed, setSpeed] = useState(1)
+    const speedRef = useRef(speed)
+    speedRef.current = speed
+    const [loop, setLoop] = useState(false)
+    const loopRef = useRef(loop)
+    loopRef.current = loop
+    const [snapshotStatus, setSnapshotStatus] = useState<string | null>(null)
+    const [capturing, setCapturing] = useState(false)
+    const [captureFormat, setCaptureFormat] = useState<CaptureFormat>("csv")
+    const captureFormatRef = useRef(captureFormat)
+    captureFormatRef.current = captureFormat
+    const [diagnosing, setDiagnosing] = useState(false)
+    const [sound, setSound] = useState(false)
+    const soundRef = useRef(sound)
+    soundRef.current = sound
+    const sonifierRef = useRef<Sonifier | null>(null)
+    const audioContextRef = useRef<AudioContext | null>(null)
+    const diagnosingRef = useRef(diagnosing)
+    diagnosingRef.current = diagnosing
+    // Written every frame; the overlay samples it a few times a second.
+    const diagnosticsRef = useRef<DiagnosticsReport | null>(null)
+    const [diagnostics, setDiagnostics] = useState<DiagnosticsReport | null>(null)
+    const [peers, setPeers] = useState<SessionPeer[]>([])
+    // Size of the shared lattice while in a relay session.
+    const [sessionSize, setSessionSize] = useState<{ width: number; height: number } | null>(null)
+
+    const restoreSnapshot = async (snapshot: LatticeSnapshot) => {
+        const runtime = runtimeRef.current
+        if (!runtime) return
+        const restored = await runtime.restore(snapshot)
+        geometryRef.current = restored
+        setGeometry(restored)
+    }
+
+    const handleExport = async () => {
+        const runtime = runtimeRef.current
+        if (!runtime) return
+        downloadText(`lattice-${Date.now()}.json`, serializeSnapshot(await runtime.snapshot()))
+    }
+
+    const handleExportSvg = async () => {
+        const svg = await runtimeRef.current?.exportSvg()
+        if (svg) downloadText(`lattice-${Date.now()}.svg`, svg, "image/svg+xml")
+    }
+
+    const startRecording = async () => {
+        const runtime = runtimeRef.current
+        if (!runtime) return
+        setRecording(await runtime.startRecording())
+    }
+
+    const stopRecording = async () => {
+        setRecording(false)
+        return (await runtimeRef.current?.stopRecording()) ?? null
+    }
+
+    const startCapture = (options: Partial<CaptureOptions> = {}) => {
+        const runtime = runtimeRef.current
+        if (!runtime) return
+        const format = options.format ?? captureFormatRef.current
+        setCaptureFormat(format)
+        setCapturing(true)
+        logFailure(runtime.startCapture({ ...options, format }))
+    }
+
+    const stopCapture = async () => {
+        setCapturing(false)
+        return (await runtimeRef.current?.stopCapture()) ?? null
+    }
+
+    const handleCapture = async () => {
+        if (!capturing) {
+            startCapture()
+            return
+        }
+        const data = await stopCapture()
+        if (data) downloadBlob(`lattice-capture-${Date.now()}.${captureFormat}`, data)
+    }
+
+    const play = async (next: Recording, options: { loop?: boolean } = {}) => {
+        const runtime = runtimeRef.current
+        if (!runtime) return
+        const loopPlayback = options.loop ?? loopRef.current
+        setRecording(false)
+        setLoop(loopPlayback)
+        setPlayback(await runtime.play(next, loopPlayback))
+    }
+
+    const stopPlayback = () => {
+        logFailure(runtimeRef.current?.stopPlayback())
+        setPlayback(null)
+    }
+
+    const seek = async (step: number) => {
+        const state = await runtimeRef.current?.seek(step)
+        if (state) setPlayback(state)
+    }
+
+    const handleRecord = async () => {
+        if (!recording) {
+            await startRecording()
+            return
+        }
+        const finished = await stopRecording()
+        if (finished) downloadText(`lattice-session-${Date.now()}.json`, JSON.stringify(finished))
+    }
+
+    const handleLoadRecording = async (file: File) => {
+        try {
+            await play(parseRecording(await file.text()))
+            setSnapshotStatus(`Playing ${file.name}`)
+        } catch (error) {
+            console.error(error)
+            setSnapshotStatus("Could not load that recording")
+        }
+    }
+
+    const handleImport = async (file: File) => {
+        try {
+            await restoreSnapshot(parseSnapshot(await file.text()))
+            setSnapshotStatus(`Loaded ${file.name}`)
+        } catch (error) {
+            console.error(error)
+            setSnapshotStatus("Could not load that file")
+        }
+    }
+
+    const handleShare = async () => {
+        const runtime = runtimeRef.current
+        if (!runtime) return
+        try {
+            const code = await encodeShareable(await runtime.snapshot())
+            window.history.replaceState(null, "", `${SHARE_HASH_PREFIX}${code}`)
+            await navigator.clipboard?.writeText(window.location.href)
+            setSnapshotStatus("Link copied")
+        } catch (error) {
+            console.error(error)
+            setSnapshotStatus("Link is in the address bar")
+        }
+    }
+
+    const handleShape = async (file: File) => {
+        try {
+            const mask = await maskFromFile(file)
+            await runtimeRef.current?.morphTo(mask)
+            setSnapshotStatus(`Shaping ${file.name}`)
+        } catch (error) {
+            console.error(error)
+            setSnapshotStatus("Could not read that image")
+        }
+    }
+
+    useImperativeHandle(
+        ref,
+        () => ({
+            impulse: (x, y, strength) => logFailure(runtimeRef.current?.impulse(x, y, strength)),
+            reset: () => logFailure(runtimeRef.current?.reset()),
+            pause: () => {
+                pausedRef.current = true
+                logFailure(runtimeRef.current?.pause())
+            },
+            resume: () => {
+                pausedRef.current = false
+                logFailure(runtimeRef.current?.resume())
+            },
+            snapshot: async () => (await runtimeRef.current?.snapshot()) ?? null,
+            theme: () => themeChoiceRef.current,
+            setTool,
+            setField: (name, field) => {
+                fieldsRef.current.set(name, field)
+                logFailure(runtimeRef.current?.setField(name, field))
+            },
+            removeField: (name) => {
+                fieldsRef.current.delete(name)
+                logFailure(runtimeRef.current?.removeField(name))
+            },
+            morphTo: (mask, options) => logFailure(runtimeRef.current?.morphTo(mask, options)),
+            startRecording: () => logFailure(startRecording()),
+            stopRecording,
+            startCapture,
+            stopCapture,
+            play: (next, options) => logFailure(play(next, options)),
+            stopPlayback,
+            seek: (step) => logFailure(seek(step)),
+            setPlaybackSpeed: setSpeed,
+            exportSvg: async () => (await runtimeRef.current?.exportSvg()) ?? null,
+            exportPngSequence: async (options) => (await runtimeRef.current?.exportPngSequence(options)) ?? [],
+            view: () => cameraRef.current.view(),
+            resetView: () => cameraRef.current.reset()
+        }),
+        []
+    )
+
+    useEffect(() => {
+        setThemeChoice(theme)
+    }, [theme])
+
+    useEffect(() => {
+        logFailure(runtimeRef.current?.setLoop(loop))
+    }, [loop])
+
+    useEffect(() => {
+        logFailure(runtimeRef.current?.setSpeed(speed))
+    }, [speed])
+
+    useEffect(() => {
+        logFailure(runtimeRef.current?.setGeometry(geometry))
+    }, [geometry])
+
+    useEffect(() => {
+        logFailure(runtimeRef.current?.setHealing(healing))
+    }, [healing])
+
+    useEffect(() => {
+        logFailure(runtimeRef.current?.setPalette(resolvedPalette))
+    }, [resolvedPalette])
+
+    useEffect(() => {
+        logFailure(runtimeRef.current?.setAttract(attract ?? null))
+    }, [attract])
+
+    useEffect(() => {
+        if (new URLSearchParams(window.location.search).has(DIAGNOSTICS_PARAM)) setDiagnosing(true)
+    }, [])
+
+    useEffect(() => {
+        logFailure(runtimeRef.current?.setDiagnostics(diagnosing))
+        if (!diagnosing) {
+            diagnosticsRef.current = null
+            setDiagnostics(null)
+            return
+        }
+        const timer = window.setInterval(() => setDiagnostics(diagnosticsRef.current), 250)
+        return () => window.clearInterval(timer)
+    }, [diagnosing])
+
+    /** Audio is opt-in: the context is only created from the first toggle, a user gesture. */
+    const toggleSound = () => {
+        const next = !soundRef.current
+        if (next && !sonifierRef.current) {
+            if (typeof AudioContext === "undefined") return
+            audioContextRef.current = new AudioContext()
+            sonifierRef.current = createSonifier(audioContextRef.current)
+        }
+        if (next) logFailure(audioContextRef.current?.resume())
+        sonifierRef.current?.setMuted(!next)
+        soundRef.current = next
+        setSound(next)
+    }
+
+    useEffect(
+        () => () => {
+            sonifierRef.current?.dispose()
+            sonifierRef.current = null
+            logFailure(audioContextRef.current?.close())
+            audioContextRef.current = null
+        },
+        []
+    )
+
+    const playing = playback !== null
+    useEffect(() => {
+        // The scrubber follows playback a few times a second rather than per frame.
+        if (!playing) return
+        const timer = window.setInterval(() => {
+            const runtime = runtimeRef.current
+            if (!runtime) {
+                setPlayback(null)
+                return
+            }
+            runtime.playback().then(setPlayback, (error) => console.error(error))
+        }, 250)
+        return () => window.clearInterval(timer)
+    }, [playing])
+
+    useEffect(() => {
+        physicsRef.current = stablePhysics
+        logFailure(runtimeRef.current?.configure(stablePhysics ?? {}))
+    }, [stablePhysics])
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement | null
+            if (target?.closest?.("input, textarea, select, [contenteditable]")) return
+            if ((event.ctrlKey || event.metaKey) && !event.altKey) {
+                const key = event.key.toLowerCase()
+                if (key !== "z" && key !== "y") return
+                event.preventDefault()
+                if (key === "y" || event.shiftKey) logFailure(runtimeRef.current?.redo())
+                else logFailure(runtimeRef.current?.undo())
+                return
+            }
+            if (event.ctrlKey || event.metaKey || event.altKey) return
+            if (event.key === DIAGNOSTICS_SHORTCUT) {
+                setDiagnosing((open) => !open)
+                return
+            }
+            if (event.key === SOUND_SHORTCUT) {
+                toggleSound()
+                return
+            }
+            if (event.key === RESET_VIEW_SHORTCUT) {
+                cameraRef.current.reset()
+                return
+            }
+            const next = toolForShortcut(event.key)
+            if (next) setTool(next)
+        }
+        window.addEventListener("keydown", handleKeyDown)
+        return () => window.removeEventListener("keydown", handleKeyDown)
+    }, [])
 
     useEffect(() => {
         let instance: p5 | null = null
+        let link: WorkerLink | null = null
+        let hostCanvas: HTMLCanvasElement | null = null
+        let frameRequest = 0
         let cancelled = false
         let hostWidth = 1
         let hostHeight = 1
         let handleResize: (() => void) | null = null
+        let initialSnapshot: LatticeSnapshot | null = null
+        let session: SessionClient | null = null
+        let shownView: CameraView | null = null
+        const camera = cameraRef.current
+        const pointerTracker =
+            hostRef.current && createPointerTracker(hostRef.current, { accept: isLatticeTarget })
+        const gestures = hostRef.current && createCameraGestures(hostRef.current, camera, { accept: isLatticeTarget })
+
+        function viewport() {
+            return {
+                width: Math.max(1, hostWidth),
+                height: Math.max(1, hostHeight)
+            }
+        }
 
-        const sketch = (p: p5) => {
-            let cols = 0
-            let rows = 0
-            let spacingX = 0
-            let spacingY = 0
-            let spacingDiag = 0
-            let nodes: GridNode[] = []
-            let facetSignalPrev = new Float32Array(0)
-            let facetGlow = new Float32Array(0)
-            let drift = 0
-            let pointerX = 0
-            let pointerY = 0
-            let pointerPrevX = 0
-            let pointerPrevY = 0
-            let pointerReady = false
-
-            const indexOf = (r: number, c: number) => r * cols + c
-            const facetIndexOf = (r: number, c: number) => r * (cols - 1) + c
-
-            function viewport() {
-                return {
-                    width: Math.max(1, hostWidth),
-                    height: Math.max(1, hostHeight)
-                }
+        /**
+         * Sculpting pointers, mapped through the camera to where they sit at the
+         * default view and tagged with its zoom so their brush keeps its size on screen.
+         */
+        function readPointers() {
+            const pointers = pointerTracker?.read() ?? []
+            const { zoom } = camera.view()
+            return pointers
+                .filter((pointer) => !gestures?.claims(pointer.id))
+                .map((pointer) => ({ ...camera.toHome(pointer), zoom }))
+        }
+
+        function readInput(): StepInput {
+            return { pointers: readPointers(), tool: toolRef.current }
+        }
+
+        /** Advances the camera for a frame and moves the peer cursor layer with it. */
+        function frameView(deltaMs: number) {
+            const view = camera.advance(deltaMs)
+            const layer = cursorLayerRef.current
+            if (layer && view !== shownView) {
+                layer.style.transform = `scale(${view.zoom}) translate(${-view.x}px, ${-view.y}px)`
+                shownView = view
             }
+            return view
+        }
 
-            function rebuildGrid() {
+        function frameReport() {
+            const sounding = soundRef.current
+            return {
+                stats: sounding || Boolean(onFrameRef.current),
+                flips: sounding || Boolean(onFacetFlipRef.current)
+            }
+        }
+
+        function deliver(
+            stats: SimulationStats | null,
+            flips: GridFacetFlip[],
+            diagnostics: DiagnosticsReport | null
+        ) {
+            if (diagnostics) diagnosticsRef.current = diagnostics
+            if (soundRef.current) {
                 const { width, height } = viewport()
-                const unit = Math.min(width, height)
-                const area = width * height
-                const baselineArea = 1440 * 900
-                const densityScale = Math.pow(area / baselineArea, 0.1)
-                const baseSpacing = Math.max(15, Math.min(42, Math.floor(unit / 28)))
-                const responsiveSpacing = Math.max(
-                    14,
-                    Math.min(46, baseSpacing / densityScale)
-                )
-
-                const aspect = width / Math.max(1, height)
-                const baselineAspect = 16 / 10
-                const aspectInfluence = Math.max(
-                    -0.16,
-                    Math.min(0.16, (aspect - baselineAspect) * 0.16)
-                )
-                const sizeInfluence = Math.max(
-                    -0.08,
-                    Math.min(0.08, (unit - 920) / 4200)
-                )
-                const cellRatio = Math.max(
-                    0.82,
-                    Math.min(1.22, 1 + aspectInfluence + sizeInfluence)
-                )
-
-                spacingX = responsiveSpacing * cellRatio
-                spacingY = responsiveSpacing / cellRatio
-                spacingDiag = Math.hypot(spacingX, spacingY)
-
-                const overscanX = Math.max(spacingX * 8, width * 0.45)
-                const overscanY = Math.max(spacingY * 8, height * 0.45)
-                const totalWidth = width + overscanX * 2
-                const totalHeight = height + overscanY * 2
-
-                cols = Math.floor(totalWidth / spacingX) + 1
-                rows = Math.floor(totalHeight / spacingY) + 1
-                const startX = -((cols - 1) * spacingX) * 0.5
-                const startY = -((rows - 1) * spacingY) * 0.5
-
-                nodes = []
-                for (let r = 0; r < rows; r += 1) {
-                    for (let c = 0; c < cols; c += 1) {
-                        const bx = startX + c * spacingX
-                        const by = startY + r * spacingY
-                        nodes.push({
-                            bx,
-                            by,
-                            x: bx,
-                            y: by,
-                            vx: 0,
-                            vy: 0,
-                            phase: p.noise(r * 0.09, c * 0.09) * Math.PI * 2
-                        })
-                    }
-                }
+                sonifierRef.current?.update(flips, stats, width, height)
+            }
+            if (stats) onFrameRef.current?.(stats)
+            const onFlip = onFacetFlipRef.current
+            if (onFlip) for (const flip of flips) onFlip(flip)
+        }
 
-                const facetCount = Math.max(0, (rows - 1) * (cols - 1))
-                facetSignalPrev = new Float32Array(facetCount)
-                facetGlow = new Float32Array(facetCount)
+        function runtimeOptions(): RuntimeOptions {
+            return {
+                ...viewport(),
+                seed: Math.floor(Math.random() * 0xffffffff),
+                geometry: geometryRef.current,
+                physics: physicsRef.current,
+                palette: paletteRef.current
             }
+        }
+
+        /** Brings a freshly started runtime up to date with the host's settings. */
+        function adopt(runtime: RemoteRuntime) {
+            runtimeRef.current = runtime
+            for (const [name, field] of fieldsRef.current) logFailure(runtime.setField(name, field))
+            logFailure(runtime.setHealing(healingRef.current))
+            logFailure(runtime.setSpeed(speedRef.current))
+            logFailure(runtime.setAttract(attractRef.current ?? null))
+            logFailure(runtime.setDiagnostics(diagnosingRef.current))
+            if (pausedRef.current) logFailure(runtime.pause())
+            if (initialSnapshot) logFailure(restoreSnapshot(initialSnapshot))
+            joinRelay(runtime)
+        }
 
-            function pointerIsActive() {
-                const hasTouch = Array.isArray((p as unknown as { touches?: unknown[] }).touches)
-                    ? ((p as unknown as { touches?: unknown[] }).touches?.length ?? 0) > 0
-                    : false
-                const mouseDown =
-                    (p as unknown as { mouseIsPressed?: boolean }).mouseIsPressed === true
-                return hasTouch || mouseDown
+        /** Joins the relay, if one is set, replacing the session of a runtime that was swapped out. */
+        function joinRelay(runtime: RemoteRuntime) {
+            session?.close()
+            session = null
+            const url = relayRef.current ?? new URLSearchParams(window.location.search).get(RELAY_PARAM)
+            if (!url || typeof WebSocket === "undefined") return
+            try {
+                session = createSessionClient(new WebSocket(url), runtime, {
+                    onPeers: setPeers,
+                    onJoin: (snapshot) => {
+                        geometryRef.current = snapshot.geometry
+                        setGeometry(snapshot.geometry)
+                        setSessionSize({ width: snapshot.width, height: snapshot.height })
+                    },
+                    onClose: () => {
+                        setSessionSize(null)
+                        if (runtimeRef.current === runtime) logFailure(runtime.leaveSession())
+                    }
+                })
+            } catch (error) {
+                console.error(error)
             }
+        }
 
-            function pointerPosition() {
-                const { width, height } = viewport()
-                const touches = (p as unknown as { touches?: Array<{ x?: number; y?: number }> })
-                    .touches
-                if (touches && touches.length > 0) {
-                    const touch = touches[0]
-                    const tx = touch.x ?? width * 0.5
-                    const ty = touch.y ?? height * 0.5
-                    return { x: tx - width * 0.5, y: ty - height * 0.5 }
-                }
+        /** Full-size canvas in the host, styled like the one p5 creates. */
+        function createHostCanvas() {
+            const canvas = document.createElement("canvas")
+            Object.assign(canvas.style, {
+                display: "block",
+                position: "absolute",
+                left: "0",
+                top: "0",
+                width: "100%",
+                height: "100%"
+            })
+            return canvas
+        }
 
-                const mx = Number.isFinite(p.mouseX) ? p.mouseX : width * 0.5
-                const my = Number.isFinite(p.mouseY) ? p.mouseY : height * 0.5
-                return { x: mx - width * 0.5, y: my - height * 0.5 }
+        /** Calls `frame` with the elapsed milliseconds on every animation frame until unmount. */
+        function animate(frame: (deltaMs: number) => void) {
+            let last = performance.now()
+            const advance = (now: number) => {
+                frame(Math.max(0, now - last))
+                last = now
+                frameRequest = window.requestAnimationFrame(advance)
             }
+            frameRequest = window.requestAnimationFrame(advance)
+        }
+
+        const sketch = (p: p5) => {
+            let runtime: GridRuntime | null = null
+            const renderer = createP5Renderer(p)
 
             p.setup = () => {
                 const { width, height } = viewport()
@@ -154,328 +736,117 @@ export default function GridEngine() {
                 canvas.style("top", "0")
                 canvas.style("width", "100%")
                 canvas.style("height", "100%")
-                p.background(
-                    HELIOS_BACKGROUND[0],
-                    HELIOS_BACKGROUND[1],
-                    HELIOS_BACKGROUND[2]
-                )
-                rebuildGrid()
+                const { background } = paletteRef.current
+                p.background(background[0], background[1], background[2])
+                runtime = createGridRuntime(runtimeOptions())
+                adopt(localRuntime(runtime))
             }
 
             handleResize = () => {
                 const { width, height } = viewport()
                 p.pixelDensity(1)
                 p.resizeCanvas(width, height)
-                rebuildGrid()
+                runtime?.resize(width, height)
             }
 
             p.draw = () => {
-                drift += 0.0055
-                const t = drift
-                const { width, height } = viewport()
-                const centerX = width * 0.5
-                const centerY = height * 0.5
-                const hasTouch =
-                    ((p as unknown as { touches?: unknown[] }).touches?.length ?? 0) > 0
-                const pulling = pointerIsActive()
-                const focus = pointerPosition()
-
-                if (!pointerReady) {
-                    pointerX = focus.x
-                    pointerY = focus.y
-                    pointerPrevX = focus.x
-                    pointerPrevY = focus.y
-                    pointerReady = true
-                } else {
-                    pointerPrevX = pointerX
-                    pointerPrevY = pointerY
-                    pointerX = focus.x
-                    pointerY = focus.y
-                }
-
-                const moveLimit = Math.max(0.6, Math.min(spacingX, spacingY) * 0.09)
-                const rawMoveX = pointerX - pointerPrevX
-                const rawMoveY = pointerY - pointerPrevY
-                const moveX = Math.max(-moveLimit, Math.min(moveLimit, rawMoveX))
-                const moveY = Math.max(-moveLimit, Math.min(moveLimit, rawMoveY))
-
-                p.background(
-                    HELIOS_BACKGROUND[0],
-                    HELIOS_BACKGROUND[1],
-                    HELIOS_BACKGROUND[2]
-                )
-                p.translate(centerX, centerY)
-
-                const ax = new Float32Array(nodes.length)
-                const ay = new Float32Array(nodes.length)
-
-                const structuralK = 0.09
-                const springFriction = 0.095
-                const anchorK = 0.024
-                const damping = 0.205
-                const idleWave = 0.06
-
-                for (let i = 0; i < nodes.length; i += 1) {
-                    const node = nodes[i]
-                    const restoreX = (node.bx - node.x) * anchorK
-                    const restoreY = (node.by - node.y) * anchorK
-                    const dragX = -node.vx * damping
-                    const dragY = -node.vy * damping
-                    const wave = Math.sin(t * 1.6 + node.phase)
-                    ax[i] += restoreX + dragX + wave * idleWave * 0.08
-                    ay[i] += restoreY + dragY + wave * idleWave
-                }
-
-                const applySpring = (a: number, b: number, restLength: number) => {
-                    const na = nodes[a]
-                    const nb = nodes[b]
-                    const dx = nb.x - na.x
-                    const dy = nb.y - na.y
-                    const dist = Math.hypot(dx, dy) || 1
-                    const ux = dx / dist
-                    const uy = dy / dist
-                    const extension = dist - restLength
-                    const relativeSpeed = (nb.vx - na.vx) * ux + (nb.vy - na.vy) * uy
-                    const force = extension * structuralK + relativeSpeed * springFriction
-                    const fx = ux * force
-                    const fy = uy * force
-                    ax[a] += fx
-                    ay[a] += fy
-                    ax[b] -= fx
-                    ay[b] -= fy
-                }
-
-                const constrainEdge = (a: number, b: number, minLength: number, maxLength: number) => {
-                    const na = nodes[a]
-                    const nb = nodes[b]
-                    const dx = nb.x - na.x
-                    const dy = nb.y - na.y
-                    const dist = Math.hypot(dx, dy) || 1
-                    const target = Math.min(maxLength, Math.max(minLength, dist))
-                    if (Math.abs(target - dist) < 0.0001) return
-
-                    const correction = ((dist - target) / dist) * 0.5
-                    const ox = dx * correction
-                    const oy = dy * correction
-                    na.x += ox
-                    na.y += oy
-                    nb.x -= ox
-                    nb.y -= oy
-                }
-
-                for (let r = 0; r < rows; r += 1) {
-                    for (let c = 0; c < cols; c += 1) {
-                        const i = indexOf(r, c)
-                        if (c + 1 < cols) applySpring(i, indexOf(r, c + 1), spacingX)
-                        if (r + 1 < rows) applySpring(i, indexOf(r + 1, c), spacingY)
-                    }
-                }
-
-                const prevX = new Float32Array(nodes.length)
-                const prevY = new Float32Array(nodes.length)
-
-                for (let i = 0; i < nodes.length; i += 1) {
-                    const node = nodes[i]
-                    prevX[i] = node.x
-                    prevY[i] = node.y
-                    const dx = node.x - pointerX
-                    const dy = node.y - pointerY
-                    const d = Math.hypot(dx, dy) || 1
-                    const radius = hasTouch ? 10 : Math.min(width, height) * (pulling ? 0.3 : 0.24)
-                    if (d < radius) {
-                        const influence = (1 - d / radius) ** 2
-                        const dirX = -dx / d
-                        const dirY = -dy / d
-                        const pullForce = (pulling ? 1.2 : 0.24) * influence
-                        const dragForce = (pulling ? 6.5 : 0.9) * influence
-                        ax[i] += dirX * pullForce + moveX * dragForce
-                        ay[i] += dirY * pullForce + moveY * dragForce
-                    }
-
-                    node.vx += ax[i]
-                    node.vy += ay[i]
-                    node.x += node.vx
-                    node.y += node.vy
-                }
-
-                const minEdgeX = spacingX * 0.68
-                const maxEdgeX = spacingX * 1.52
-                const minEdgeY = spacingY * 0.68
-                const maxEdgeY = spacingY * 1.52
-                const minDiag = spacingDiag * 0.76
-                const maxDiag = spacingDiag * 1.5
-                for (let iteration = 0; iteration < 2; iteration += 1) {
-                    for (let r = 0; r < rows; r += 1) {
-                        for (let c = 0; c < cols; c += 1) {
-                            const i = indexOf(r, c)
-                            if (c + 1 < cols) {
-                                constrainEdge(i, indexOf(r, c + 1), minEdgeX, maxEdgeX)
-                            }
-                            if (r + 1 < rows) {
-                                constrainEdge(i, indexOf(r + 1, c), minEdgeY, maxEdgeY)
-                            }
-                            if (c + 1 < cols && r + 1 < rows) {
-                                constrainEdge(i, indexOf(r + 1, c + 1), minDiag, maxDiag)
-                            }
-                            if (c > 0 && r + 1 < rows) {
-                                constrainEdge(i, indexOf(r + 1, c - 1), minDiag, maxDiag)
-                            }
-                        }
-                    }
-                }
+                if (!runtime) return
+                const frame = runtime.tick(p.deltaTime, readInput(), frameReport())
+                renderer.draw(frame.scene, frameView(p.deltaTime))
+                deliver(frame.stats, frame.flips, frame.diagnostics)
+            }
+        }
 
-                const plasticRadius = Math.min(width, height) * 0.34
-                for (let i = 0; i < nodes.length; i += 1) {
-                    const node = nodes[i]
-                    node.vx = (node.x - prevX[i]) * 0.86
-                    node.vy = (node.y - prevY[i]) * 0.86
-
-                    if (!pulling) continue
-                    const dx = node.x - pointerX
-                    const dy = node.y - pointerY
-                    const d = Math.hypot(dx, dy)
-                    if (d > plasticRadius) continue
-                    const influence = (1 - d / plasticRadius) ** 2
-                    const settle = 0.075 * influence
-                    node.bx += (node.x - node.bx) * settle + moveX * 0.22 * influence
-                    node.by += (node.y - node.by) * settle + moveY * 0.22 * influence
-                }
+        const startSketch = async () => {
+            const { default: P5 } = await import("p5")
+            if (cancelled || !hostRef.current) return
+            instance = new P5(sketch, hostRef.current)
+        }
 
-                p.noStroke()
-                for (let r = 0; r + 1 < rows; r += 1) {
-                    for (let c = 0; c + 1 < cols; c += 1) {
-                        const a = nodes[indexOf(r, c)]
-                        const b = nodes[indexOf(r, c + 1)]
-                        const cNode = nodes[indexOf(r + 1, c + 1)]
-                        const d = nodes[indexOf(r + 1, c)]
-                        const fIndex = facetIndexOf(r, c)
-
-                        const diagMain = Math.hypot(cNode.x - a.x, cNode.y - a.y)
-                        const diagCross = Math.hypot(d.x - b.x, d.y - b.y)
-                        const shear = (diagMain - diagCross) / Math.max(1, spacingDiag)
-
-                        const edgeTop = Math.hypot(b.x - a.x, b.y - a.y) - spacingX
-                        const edgeBottom = Math.hypot(cNode.x - d.x, cNode.y - d.y) - spacingX
-                        const edgeRight = Math.hypot(cNode.x - b.x, cNode.y - b.y) - spacingY
-                        const edgeLeft = Math.hypot(d.x - a.x, d.y - a.y) - spacingY
-                        const strain =
-                            (edgeTop + edgeBottom + edgeRight + edgeLeft) /
-                            (2 * Math.max(1, spacingX + spacingY))
-
-                        const signal = shear + strain * 0.42
-                        const prevSignal = facetSignalPrev[fIndex]
-                        const delta = signal - prevSignal
-                        const signFlip =
-                            Math.sign(signal) !== 0 &&
-                            Math.sign(prevSignal) !== 0 &&
-                            Math.sign(signal) !== Math.sign(prevSignal)
-                        const flipStrength = signFlip ? Math.min(1, Math.abs(delta) * 7.5) : 0
-                        const excitation = Math.max(
-                            0,
-                            Math.abs(delta) - 0.032
-                        )
-
-                        facetGlow[fIndex] = Math.min(
-                            1,
-                            facetGlow[fIndex] * 0.9 + flipStrength * 0.95 + excitation * 1.6
-                        )
-                        facetSignalPrev[fIndex] = signal
-
-                        const glow = facetGlow[fIndex]
-                        if (glow < 0.05) continue
-
-                        const warm = signal < 0
-                        const alpha = 4 + glow * 58
-                        if (warm) {
-                            p.fill(
-                                HELIOS_TRAIL_WARM[0],
-                                HELIOS_TRAIL_WARM[1],
-                                HELIOS_TRAIL_WARM[2],
-                                alpha
-                            )
-                        } else {
-                            p.fill(
-                                HELIOS_TRAIL_COOL[0],
-                                HELIOS_TRAIL_COOL[1],
-                                HELIOS_TRAIL_COOL[2],
-                                alpha
-                            )
-                        }
-                        p.quad(a.x, a.y, b.x, b.y, cNode.x, cNode.y, d.x, d.y)
-                    }
-                }
+        /** Draws in-thread with the batched Canvas2D renderer; p5 is never loaded. */
+        const startCanvas = (host: HTMLDivElement) => {
+            const canvas = createHostCanvas()
+            const context = canvas.getContext("2d")
+            if (!context) throw new Error("Canvas 2D is not available")
+            const { width, height } = viewport()
+            canvas.width = width
+            canvas.height = height
+            host.appendChild(canvas)
+            hostCanvas = canvas
+            const runtime = createGridRuntime(runtimeOptions())
+            const renderer = createCanvasRenderer(context)
+            handleResize = () => {
+                const size = viewport()
+                canvas.width = size.width
+                canvas.height = size.height
+                runtime.resize(size.width, size.height)
+            }
+            adopt(localRuntime(runtime))
+            animate((deltaMs) => {
+                const frame = runtime.tick(deltaMs, readInput(), frameReport())
+                renderer.draw(frame.scene, frameView(deltaMs))
+                deliver(frame.stats, frame.flips, frame.diagnostics)
+            })
+        }
 
-                p.strokeWeight(0.9)
-                for (let r = 0; r < rows; r += 1) {
-                    for (let c = 0; c < cols; c += 1) {
-                        const node = nodes[indexOf(r, c)]
-                        const right = c + 1 < cols ? nodes[indexOf(r, c + 1)] : null
-                        const down = r + 1 < rows ? nodes[indexOf(r + 1, c)] : null
-
-                        const glow =
-                            0.5 +
-                            0.5 * Math.sin(t * 1.2 + node.phase + r * 0.14 + c * 0.09)
-                        const stretchX = right
-                            ? Math.abs(
-                                  Math.hypot(right.x - node.x, right.y - node.y) - spacingX
-                              )
-                            : 0
-                        const stretchY = down
-                            ? Math.abs(
-                                  Math.hypot(down.x - node.x, down.y - node.y) - spacingY
-                              )
-                            : 0
-                        const strain = Math.min(
-                            1,
-                            (stretchX + stretchY) / (Math.min(spacingX, spacingY) * 0.35)
-                        )
-                        const alpha = 14 + glow * 22 + strain * 42
-
-                        if (right) {
-                            p.stroke(
-                                HELIOS_SUN_STROKE[0],
-                                HELIOS_SUN_STROKE[1],
-                                HELIOS_SUN_STROKE[2],
-                                alpha
-                            )
-                            p.line(node.x, node.y, right.x, right.y)
-                        }
-                        if (down) {
-                            p.stroke(
-                                HELIOS_SUN_STROKE[0],
-                                HELIOS_SUN_STROKE[1],
-                                HELIOS_SUN_STROKE[2],
-                                alpha
-                            )
-                            p.line(node.x, node.y, down.x, down.y)
-                        }
-                    }
-                }
+        const startInThread = async () => {
+            if (cancelled || !hostRef.current) return
+            if (rendererRef.current === "canvas") startCanvas(hostRef.current)
+            else await startSketch()
+        }
 
-                p.noStroke()
-                for (let i = 0; i < nodes.length; i += 1) {
-                    const node = nodes[i]
-                    const velocity = Math.min(1, Math.hypot(node.vx, node.vy) / 3.2)
-                    const pulse = 0.5 + 0.5 * Math.sin(t * 2.2 + node.phase)
-                    const warmMix = 0.5 + 0.5 * Math.sin(t * 0.7 + node.phase * 0.75)
-                    const nodeR = p.lerp(HELIOS_BODY_COOL[0], HELIOS_BODY_WARM[0], warmMix)
-                    const nodeG = p.lerp(HELIOS_BODY_COOL[1], HELIOS_BODY_WARM[1], warmMix)
-                    const nodeB = p.lerp(HELIOS_BODY_COOL[2], HELIOS_BODY_WARM[2], warmMix)
-                    p.fill(nodeR, nodeG, nodeB, 42 + pulse * 60 + velocity * 90)
-                    const size = 0.95 + pulse * 1.25 + velocity * 1.7
-                    p.square(node.x - size * 0.5, node.y - size * 0.5, size)
+        /** Hands a new canvas to a worker, drawing in-thread instead if it fails before painting. */
+        const startWorker = (host: HTMLDivElement) => {
+            const canvas = createHostCanvas()
+            const offscreen = canvas.transferControlToOffscreen()
+            const thread = new Worker(new URL("../lib/worker.ts", import.meta.url), { type: "module" })
+            let painted = false
+            const current = connectWorker(thread, offscreen, runtimeOptions(), {
+                onFrame: (stats, flips, diagnostics) => {
+                    painted = true
+                    deliver(stats, flips, diagnostics)
+                },
+                onError: (error) => {
+                    console.error(error)
+                    if (painted || link !== current) return
+                    window.cancelAnimationFrame(frameRequest)
+                    current.dispose()
+                    canvas.remove()
+                    link = null
+                    hostCanvas = null
+                    runtimeRef.current = null
+                    handleResize = null
+                    startInThread().catch((fallbackError) => console.error(fallbackError))
                 }
+            })
+            link = current
+            host.appendChild(canvas)
+            hostCanvas = canvas
+            handleResize = () => {
+                const { width, height } = viewport()
+                current.resize(width, height)
             }
+            adopt(current.runtime)
+            animate((deltaMs) => current.frame(deltaMs, readInput(), frameReport(), frameView(deltaMs)))
         }
 
         const mount = async () => {
             try {
-                const { default: P5 } = await import("p5")
+                initialSnapshot = snapshotRef.current ?? (await loadInitialSnapshot())
                 if (cancelled || !hostRef.current) return
                 const hostRect = hostRef.current.getBoundingClientRect()
                 hostWidth = hostRect.width
                 hostHeight = hostRect.height
-                instance = new P5(sketch, hostRef.current)
+                camera.resize(hostWidth, hostHeight)
+                if (workerRef.current && supportsWorkerRendering()) {
+                    try {
+                        startWorker(hostRef.current)
+                        return
+                    } catch (error) {
+                        console.error(error)
+                    }
+                }
+                await startInThread()
             } catch (error) {
                 console.error(error)
             }
@@ -488,17 +859,52 @@ export default function GridEngine() {
             host &&
             new ResizeObserver((entries) => {
                 const entry = entries[0]
-                if (!entry || !instance) return
+                if (!entry) return
                 hostWidth = entry.contentRect.width
                 hostHeight = entry.contentRect.height
+                camera.resize(hostWidth, hostHeight)
                 handleResize?.()
             })
         if (host && resizeObserver) resizeObserver.observe(host)
 
+        const autosave = async () => {
+            const runtime = runtimeRef.current
+            if (runtime && !snapshotRef.current) writeAutosave(window.localStorage, await runtime.snapshot())
+        }
+        const sessionTimer = window.setInterval(() => {
+            if (!session?.joined()) return
+            const { width, height } = viewport()
+            const pointers = readPointers().map((pointer) => ({
+                ...pointer,
+                x: pointer.x - width * 0.5,
+                y: pointer.y - height * 0.5
+            }))
+            session.sendPointers(pointers)
+            logFailure(session.sync())
+        }, SESSION_SYNC_MS)
+
+        const saveQuietly = () => logFailure(autosave())
+        const autosaveTimer = window.setInterval(saveQuietly, AUTOSAVE_INTERVAL_MS)
+        window.addEventListener("pagehide", saveQuietly)
+
         return () => {
             cancelled = true
+            window.clearInterval(autosaveTimer)
+            window.clearInterval(sessionTimer)
+            session?.close()
+            window.removeEventListener("pagehide", saveQuietly)
+            window.cancelAnimationFrame(frameRequest)
+            // A worker is only stopped once it has answered the final autosave.
+            const stopping = link
+            autosave()
+                .catch((error) => console.error(error))
+                .finally(() => stopping?.dispose())
+            runtimeRef.current = null
             resizeObserver?.disconnect()
+            pointerTracker?.dispose()
+            gestures?.dispose()
             instance?.remove()
+            hostCanvas?.remove()
         }
     }, [])
 
@@ -510,8 +916,58 @@ export default function GridEngine() {
                 width: "100%",
                 height: "100%",
                 minHeight: "100dvh",
-                overflow: "hidden"
+                overflow: "hidden",
+                touchAction: "none"
             }}
-        />
+        >
+            <Toolbar
+                tool={tool}
+                onSelect={setTool}
+                geometry={geometry}
+                onGeometry={setGeometry}
+                onUndo={() => logFailure(runtimeRef.current?.undo())}
+                onRedo={() => logFailure(runtimeRef.current?.redo())}
+                healing={healing}
+                onHealing={setHealing}
+                theme={themeChoice}
+                onTheme={setThemeChoice}
+                sound={sound}
+                onSound={toggleSound}
+                onResetView={() => cameraRef.current.reset()}
+            />
+            <SnapshotControls
+                onExport={() => logFailure(handleExport())}
+                onImport={(file) => void handleImport(file)}
+                onShare={() => void handleShare()}
+                onShape={(file) => void handleShape(file)}
+                onExportSvg={() => logFailure(handleExportSvg())}
+                status={snapshotStatus}
+            />
+            <PlaybackControls
+                recording={recording}
+                onRecord={() => logFailure(handleRecord())}
+                playback={playback}
+                onLoad={(file) => void handleLoadRecording(file)}
+                onStop={stopPlayback}
+                onSeek={(step) => logFailure(seek(step))}
+                speed={speed}
+                onSpeed={setSpeed}
+                loop={loop}
+                onLoop={setLoop}
+                capturing={capturing}
+                onCapture={() => logFailure(handleCapture())}
+                captureFormat={captureFormat}
+                onCaptureFormat={setCaptureFormat}
+            />
+            <div
+                ref={cursorLayerRef}
+                style={{ position: "absolute", inset: 0, pointerEvents: "none", transformOrigin: "50% 50%" }}
+            >
+                {sessionSize && <PeerCursors peers={peers} width={sessionSize.width} height={sessionSize.height} />}
+            </div>
+            {diagnosing && <DiagnosticsOverlay report={diagnostics} />}
+        </div>
     )
-}
+})
+
+export default GridEngine
@@ -0,0 +1,45 @@
+"use client"
+
+import type { SessionPeer } from "@/lib/session"
+import { influenceRadius } from "@/lib/simulation"
+
+type PeerCursorsProps = {
+    peers: readonly SessionPeer[]
+    /** Size of the shared lattice, which sets each pointer's influence radius. */
+    width: number
+    height: number
+}
+
+/**
+ * Draws other participants' pointers as rings the size of their influence,
+ * in each participant's colour. Lattice space is centred on the host, so
+ * rings are placed from its middle.
+ */
+export default function PeerCursors({ peers, width, height }: PeerCursorsProps) {
+    return (
+        <div aria-hidden="true" style={{ position: "absolute", inset: 0, pointerEvents: "none", overflow: "hidden" }}>
+            {peers.flatMap(({ peer, color, pointers }) =>
+                pointers.map((pointer) => {
+                    const radius = influenceRadius(pointer, width, height)
+                    return (
+                        <div
+                            key={`${peer}:${pointer.id}`}
+                            data-peer={peer}
+                            style={{
+                                position: "absolute",
+                                left: `calc(50% + ${pointer.x - radius}px)`,
+                                top: `calc(50% + ${pointer.y - radius}px)`,
+                                width: radius * 2,
+                                height: radius * 2,
+                                borderRadius: "50%",
+                                border: `${pointer.pressed ? 3 : 1.5}px solid rgb(${color.join(", ")})`,
+                                opacity: pointer.pressed ? 0.9 : 0.55,
+                                boxSizing: "border-box"
+                            }}
+                        />
+                    )
+                })
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,168 @@
+"use client"
+
+import { useRef, type CSSProperties } from "react"
+import { CAPTURE_FORMATS, type CaptureFormat } from "@/lib/capture"
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2] as const
+
+type PlaybackControlsProps = {
+    recording: boolean
+    onRecord: () => void
+    /** Position and length of the active playback, or null while live. */
+    playback: { position: number; length: number } | null
+    onLoad: (file: File) => void
+    onStop: () => void
+    onSeek: (step: number) => void
+    speed: number
+    onSpeed: (speed: number) => void
+    loop: boolean
+    onLoop: (loop: boolean) => void
+    /** Whether a data capture is running. */
+    capturing: boolean
+    onCapture: () => void
+    captureFormat: CaptureFormat
+    onCaptureFormat: (format: CaptureFormat) => void
+}
+
+function buttonStyle(active: boolean): CSSProperties {
+    return {
+        padding: "4px 10px",
+        borderRadius: 6,
+        border: "none",
+        font: "12px/1.4 system-ui, sans-serif",
+        color: active ? "#0c101e" : "rgb(245, 240, 219)",
+        background: active ? "rgb(255, 193, 120)" : "transparent",
+        cursor: "pointer"
+    }
+}
+
+export default function PlaybackControls({
+    recording,
+    onRecord,
+    playback,
+    onLoad,
+    onStop,
+    onSeek,
+    speed,
+    onSpeed,
+    loop,
+    onLoop,
+    capturing,
+    onCapture,
+    captureFormat,
+    onCaptureFormat
+}: PlaybackControlsProps) {
+    const fileRef = useRef<HTMLInputElement>(null)
+
+    return (
+        <div
+            role="group"
+            aria-label="Recording"
+            data-grid-ui=""
+            style={{
+                position: "absolute",
+                right: 12,
+                bottom: 12,
+                display: "flex",
+                alignItems: "center",
+                gap: 4,
+                padding: 4,
+                borderRadius: 8,
+                background: "rgba(12, 16, 30, 0.72)",
+                border: "1px solid rgba(245, 240, 219, 0.16)",
+                zIndex: 1
+            }}
+        >
+            <button
+                type="button"
+                title={recording ? "Stop and download the recording" : "Record pointer input"}
+                aria-pressed={recording}
+                disabled={playback !== null}
+                onClick={onRecord}
+                style={buttonStyle(recording)}
+            >
+                {recording ? "Stop rec" : "Rec"}
+            </button>
+            {playback ? (
+                <button type="button" title="Return to the live lattice" onClick={onStop} style={buttonStyle(false)}>
+                    Live
+                </button>
+            ) : (
+                <button
+                    type="button"
+                    title="Play a recording file"
+                    disabled={recording}
+                    onClick={() => fileRef.current?.click()}
+                    style={buttonStyle(false)}
+                >
+                    Play
+                </button>
+            )}
+            {PLAYBACK_SPEEDS.map((option) => (
+                <button
+                    key={option}
+                    type="button"
+                    title={`Play at ${option}× speed`}
+                    aria-pressed={option === speed}
+                    onClick={() => onSpeed(option)}
+                    style={buttonStyle(option === speed)}
+                >
+                    {option}×
+                </button>
+            ))}
+            <button
+                type="button"
+                title="Loop playback"
+                aria-pressed={loop}
+                onClick={() => onLoop(!loop)}
+                style={buttonStyle(loop)}
+            >
+                Loop
+            </button>
+            <button
+                type="button"
+                title={capturing ? "Stop and download the data capture" : "Capture strain data as a time series"}
+                aria-pressed={capturing}
+                onClick={onCapture}
+                style={buttonStyle(capturing)}
+            >
+                {capturing ? "Stop data" : "Data"}
+            </button>
+            <button
+                type="button"
+                title="Data capture file format"
+                disabled={capturing}
+                onClick={() =>
+                    onCaptureFormat(
+                        CAPTURE_FORMATS[(CAPTURE_FORMATS.indexOf(captureFormat) + 1) % CAPTURE_FORMATS.length]
+                    )
+                }
+                style={buttonStyle(false)}
+            >
+                {captureFormat.toUpperCase()}
+            </button>
+            {playback && (
+                <input
+                    type="range"
+                    aria-label="Playback position"
+                    min={0}
+                    max={playback.length}
+                    value={playback.position}
+                    onChange={(event) => onSeek(Number(event.target.value))}
+                    style={{ width: 120 }}
+                />
+            )}
+            <input
+                ref={fileRef}
+                type="file"
+                accept="application/json,.json"
+                hidden
+                onChange={(event) => {
+                    const file = event.target.files?.[0]
+                    if (file) onLoad(file)
+                    event.target.value = ""
+                }}
+            />
+        </div>
+    )
+}
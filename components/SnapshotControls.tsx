@@ -0,0 +1,122 @@
+"use client"
+
+import { useRef, type CSSProperties } from "react"
+import { GALLERY_ENABLED, GALLERY_PAGE } from "@/lib/gallery"
+
+type SnapshotControlsProps = {
+    onExport: () => void
+    onImport: (file: File) => void
+    onShare: () => void
+    /** Morphs the lattice toward an image or SVG file. */
+    onShape: (file: File) => void
+    onExportSvg: () => void
+    status: string | null
+}
+
+const buttonStyle: CSSProperties = {
+    padding: "4px 10px",
+    borderRadius: 6,
+    border: "none",
+    font: "12px/1.4 system-ui, sans-serif",
+    color: "rgb(245, 240, 219)",
+    background: "transparent",
+    cursor: "pointer"
+}
+
+export default function SnapshotControls({
+    onExport,
+    onImport,
+    onShare,
+    onShape,
+    onExportSvg,
+    status
+}: SnapshotControlsProps) {
+    const fileRef = useRef<HTMLInputElement>(null)
+    const shapeRef = useRef<HTMLInputElement>(null)
+
+    return (
+        <div
+            role="group"
+            aria-label="Snapshots"
+            data-grid-ui=""
+            style={{
+                position: "absolute",
+                left: 12,
+                bottom: 12,
+                display: "flex",
+                alignItems: "center",
+                gap: 4,
+                padding: 4,
+                borderRadius: 8,
+                background: "rgba(12, 16, 30, 0.72)",
+                border: "1px solid rgba(245, 240, 219, 0.16)",
+                zIndex: 1
+            }}
+        >
+            <button type="button" title="Download the lattice as JSON" onClick={onExport} style={buttonStyle}>
+                Export
+            </button>
+            <button type="button" title="Download this frame as vector SVG" onClick={onExportSvg} style={buttonStyle}>
+                SVG
+            </button>
+            <button
+                type="button"
+                title="Load a lattice JSON file"
+                onClick={() => fileRef.current?.click()}
+                style={buttonStyle}
+            >
+                Import
+            </button>
+            <button type="button" title="Copy a link to this sculpture" onClick={onShare} style={buttonStyle}>
+                Share
+            </button>
+            <button
+                type="button"
+                title="Morph the lattice toward an image or SVG"
+                onClick={() => shapeRef.current?.click()}
+                style={buttonStyle}
+            >
+                Shape
+            </button>
+            {GALLERY_ENABLED && (
+                <a href={GALLERY_PAGE} title="Saved sculptures" style={{ ...buttonStyle, textDecoration: "none" }}>
+                    Gallery
+                </a>
+            )}
+            <input
+                ref={fileRef}
+                type="file"
+                accept="application/json,.json"
+                hidden
+                onChange={(event) => {
+                    const file = event.target.files?.[0]
+                    if (file) onImport(file)
+                    event.target.value = ""
+                }}
+            />
+            <input
+                ref={shapeRef}
+                type="file"
+                accept="image/*,.svg"
+                hidden
+                onChange={(event) => {
+                    const file = event.target.files?.[0]
+                    if (file) onShape(file)
+                    event.target.value = ""
+                }}
+            />
+            {status && (
+                <span
+                    role="status"
+                    style={{
+                        padding: "0 6px",
+                        font: "12px/1.4 system-ui, sans-serif",
+                        color: "rgba(245, 240, 219, 0.7)"
+                    }}
+                >
+                    {status}
+                </span>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,164 @@
+"use client"
+
+import type { CSSProperties } from "react"
+import { LATTICE_GEOMETRIES, type LatticeGeometry } from "@/lib/lattices"
+import { THEME_CHOICES, themeById, type ThemeChoice } from "@/lib/themes"
+import { TOOLS, type Tool } from "@/lib/tools"
+
+export const SOUND_SHORTCUT = "m"
+export const RESET_VIEW_SHORTCUT = "0"
+
+type ToolbarProps = {
+    tool: Tool
+    onSelect: (tool: Tool) => void
+    geometry: LatticeGeometry
+    onGeometry: (geometry: LatticeGeometry) => void
+    onUndo: () => void
+    onRedo: () => void
+    healing: boolean
+    onHealing: (healing: boolean) => void
+    theme: ThemeChoice
+    onTheme: (theme: ThemeChoice) => void
+    /** Whether flips and strain are being sonified. */
+    sound: boolean
+    onSound: () => void
+    /** Eases the camera back to the default view. */
+    onResetView: () => void
+}
+
+function buttonStyle(active: boolean): CSSProperties {
+    return {
+        padding: "4px 10px",
+        borderRadius: 6,
+        border: "none",
+        font: "12px/1.4 system-ui, sans-serif",
+        color: active ? "#0c101e" : "rgb(245, 240, 219)",
+        background: active ? "rgb(255, 193, 120)" : "transparent",
+        cursor: "pointer"
+    }
+}
+
+const divider = (
+    <span
+        aria-hidden="true"
+        style={{ width: 1, margin: "2px 4px", background: "rgba(245, 240, 219, 0.2)" }}
+    />
+)
+
+export default function Toolbar({
+    tool,
+    onSelect,
+    geometry,
+    onGeometry,
+    onUndo,
+    onRedo,
+    healing,
+    onHealing,
+    theme,
+    onTheme,
+    sound,
+    onSound,
+    onResetView
+}: ToolbarProps) {
+    const nextTheme = THEME_CHOICES[(THEME_CHOICES.indexOf(theme) + 1) % THEME_CHOICES.length]
+
+    return (
+        <div
+            role="toolbar"
+            aria-label="Lattice tools"
+            data-grid-ui=""
+            style={{
+                position: "absolute",
+                left: 12,
+                top: 12,
+                display: "flex",
+                gap: 4,
+                padding: 4,
+                borderRadius: 8,
+                background: "rgba(12, 16, 30, 0.72)",
+                border: "1px solid rgba(245, 240, 219, 0.16)",
+                zIndex: 1
+            }}
+        >
+            {TOOLS.map((definition) => {
+                const active = definition.id === tool
+                return (
+                    <button
+                        key={definition.id}
+                        type="button"
+                        title={`${definition.hint} (${definition.shortcut})`}
+                        aria-pressed={active}
+                        onClick={() => onSelect(definition.id)}
+                        style={buttonStyle(active)}
+                    >
+                        {definition.label}
+                    </button>
+                )
+            })}
+            {divider}
+            {LATTICE_GEOMETRIES.map((definition) => {
+                const active = definition.id === geometry
+                return (
+                    <button
+                        key={definition.id}
+                        type="button"
+                        title={`${definition.label} lattice`}
+                        aria-pressed={active}
+                        onClick={() => onGeometry(definition.id)}
+                        style={buttonStyle(active)}
+                    >
+                        {definition.label}
+                    </button>
+                )
+            })}
+            {divider}
+            <button type="button" title="Undo stroke (Ctrl+Z)" onClick={onUndo} style={buttonStyle(false)}>
+                Undo
+            </button>
+            <button
+                type="button"
+                title="Redo stroke (Ctrl+Shift+Z)"
+                onClick={onRedo}
+                style={buttonStyle(false)}
+            >
+                Redo
+            </button>
+            <button
+                type="button"
+                title="Let folds slowly heal back to the regular lattice"
+                aria-pressed={healing}
+                onClick={() => onHealing(!healing)}
+                style={buttonStyle(healing)}
+            >
+                Heal
+            </button>
+            {divider}
+            <button
+                type="button"
+                title={`Zoom and pan back to the whole screen (${RESET_VIEW_SHORTCUT})`}
+                onClick={onResetView}
+                style={buttonStyle(false)}
+            >
+                Reset view
+            </button>
+            {divider}
+            <button
+                type="button"
+                title="Switch theme"
+                onClick={() => onTheme(nextTheme)}
+                style={buttonStyle(false)}
+            >
+                {theme === "auto" ? "Auto" : themeById(theme).label}
+            </button>
+            <button
+                type="button"
+                title={`${sound ? "Mute" : "Play"} facet flips and strain as sound (${SOUND_SHORTCUT.toUpperCase()})`}
+                aria-pressed={sound}
+                onClick={onSound}
+                style={buttonStyle(sound)}
+            >
+                Sound
+            </button>
+        </div>
+    )
+}
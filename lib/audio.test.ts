@@ -0,0 +1,153 @@
+import { createSonifier, grainFrequency, MAX_VOICES, type SonifierContext } from "@/lib/audio"
+import type { GridFacetFlip } from "@/lib/runtime"
+import { describe, expect, test } from "vitest"
+
+class FakeParam {
+    value = 1
+    events: [string, ...number[]][] = []
+    setValueAtTime(value: number, time: number) {
+        this.events.push(["set", value, time])
+    }
+    linearRampToValueAtTime(value: number, time: number) {
+        this.events.push(["linear", value, time])
+    }
+    exponentialRampToValueAtTime(value: number, time: number) {
+        this.events.push(["exponential", value, time])
+    }
+    setTargetAtTime(value: number, time: number) {
+        this.value = value
+        this.events.push(["target", value, time])
+    }
+}
+
+class FakeNode {
+    connections: unknown[] = []
+    connect(target: unknown) {
+        this.connections.push(target)
+        return target
+    }
+    disconnect() {
+        this.connections = []
+    }
+}
+
+class FakeGain extends FakeNode {
+    gain = new FakeParam()
+}
+
+class FakeFilter extends FakeNode {
+    type = "lowpass"
+    frequency = new FakeParam()
+}
+
+class FakeOscillator extends FakeNode {
+    type = "sine"
+    frequency = new FakeParam()
+    onended: (() => void) | null = null
+    started = false
+    stoppedAt: number | undefined
+    start() {
+        this.started = true
+    }
+    stop(time?: number) {
+        this.stoppedAt = time ?? 0
+    }
+    end() {
+        this.onended?.()
+    }
+}
+
+/** Stands in for an `AudioContext` and keeps every node it creates. */
+class FakeAudioContext {
+    currentTime = 0
+    destination = new FakeNode()
+    oscillators: FakeOscillator[] = []
+    gains: FakeGain[] = []
+    filters: FakeFilter[] = []
+    createOscillator() {
+        const oscillator = new FakeOscillator()
+        this.oscillators.push(oscillator)
+        return oscillator
+    }
+    createGain() {
+        const gain = new FakeGain()
+        this.gains.push(gain)
+        return gain
+    }
+    createBiquadFilter() {
+        const filter = new FakeFilter()
+        this.filters.push(filter)
+        return filter
+    }
+}
+
+function setup() {
+    const context = new FakeAudioContext()
+    const sonifier = createSonifier(context as unknown as SonifierContext)
+    // The drone is the first oscillator; grains follow in order.
+    return { context, sonifier, grains: () => context.oscillators.slice(1) }
+}
+
+const flip = (x: number, y: number, strength: number): GridFacetFlip => ({ facet: 0, strength, x, y })
+
+describe("sonification", () => {
+    test("plays one grain per flip, pitched by position and as loud as its strength", () => {
+        const { context, sonifier, grains } = setup()
+        sonifier.update([flip(10, 100, 1), flip(630, 100, 0.25), flip(630, 300, 0.25)], null, 640, 400)
+
+        const [left, right, lower] = grains()
+        expect(sonifier.voices()).toBe(3)
+        expect(right.frequency.value).toBeGreaterThan(left.frequency.value)
+        expect(lower.frequency.value).toBeCloseTo(right.frequency.value / 2)
+        expect(left.frequency.value).toBe(grainFrequency(10, 100, 640, 400))
+
+        const peak = (oscillator: FakeOscillator) => {
+            const envelope = context.gains.find((gain) => oscillator.connections.includes(gain))
+            return envelope?.gain.events.find(([kind]) => kind === "linear")?.[1] ?? 0
+        }
+        expect(peak(left)).toBeCloseTo(peak(right) * 4)
+        expect(grains().every((grain) => grain.started && grain.stoppedAt !== undefined)).toBe(true)
+
+        grains()[0].end()
+        expect(sonifier.voices()).toBe(2)
+    })
+
+    test("caps voices and keeps the strongest flips", () => {
+        const { sonifier, grains } = setup()
+        const flips = Array.from({ length: MAX_VOICES * 2 }, (_, i) => flip(i * 20, 50, i / (MAX_VOICES * 2)))
+        sonifier.update(flips, null, 640, 400)
+
+        expect(sonifier.voices()).toBe(MAX_VOICES)
+        expect(grains()).toHaveLength(MAX_VOICES)
+        // The stronger half of the flips sits on the right, so every grain is pitched from there.
+        const weakest = grainFrequency(MAX_VOICES * 20, 50, 640, 400)
+        expect(grains().every((grain) => grain.frequency.value >= weakest)).toBe(true)
+        sonifier.update([flip(320, 50, 1)], null, 640, 400)
+        expect(grains()).toHaveLength(MAX_VOICES)
+
+        grains()[0].end()
+        sonifier.update([flip(320, 50, 1)], null, 640, 400)
+        expect(grains()).toHaveLength(MAX_VOICES + 1)
+    })
+
+    test("opens the drone with strain and silences everything when muted", () => {
+        const { context, sonifier, grains } = setup()
+        const [master, drone] = context.gains
+        sonifier.update([], { energy: 0, maxStrain: 0.02 }, 640, 400)
+        const calm = drone.gain.value
+        sonifier.update([], { energy: 4, maxStrain: 0.2 }, 640, 400)
+        expect(drone.gain.value).toBeGreaterThan(calm)
+        expect(context.filters[0].frequency.value).toBeGreaterThan(180)
+
+        sonifier.setMuted(true)
+        sonifier.update([flip(100, 100, 1)], null, 640, 400)
+        expect(sonifier.muted()).toBe(true)
+        expect(master.gain.value).toBe(0)
+        expect(grains()).toHaveLength(0)
+
+        sonifier.setMuted(false)
+        expect(master.gain.value).toBe(1)
+        sonifier.dispose()
+        expect(context.oscillators[0].stoppedAt).toBe(0)
+    })
+})
@@ -0,0 +1,131 @@
+import type { GridFacetFlip } from "@/lib/runtime"
+import type { SimulationStats } from "@/lib/simulation"
+
+/** Grains sounding at once; flips beyond this are dropped, weakest first. */
+export const MAX_VOICES = 12
+
+/** Major pentatonic steps in semitones, spread over GRAIN_OCTAVES from GRAIN_ROOT_HZ. */
+const SCALE = [0, 2, 4, 7, 9]
+const GRAIN_OCTAVES = 3
+const GRAIN_ROOT_HZ = 220
+/** Peak gain of a full-strength grain, and its envelope in seconds. */
+const GRAIN_GAIN = 0.18
+const GRAIN_ATTACK = 0.005
+const GRAIN_DURATION = 0.22
+/** Envelopes ramp toward this instead of zero, which exponential ramps cannot reach. */
+const SILENCE = 0.0001
+
+const DRONE_HZ = 55
+const DRONE_GAIN = 0.12
+/** Edge strain at which the drone is fully open. */
+const DRONE_STRAIN = 0.3
+const DRONE_CUTOFF_HZ = 180
+const DRONE_CUTOFF_RANGE_HZ = 1800
+/** Time constant, in seconds, for the drone and mute to follow their targets. */
+const GLIDE = 0.08
+
+/** The parts of an `AudioContext` the sonifier uses. */
+export type SonifierContext = Pick<
+    BaseAudioContext,
+    "currentTime" | "destination" | "createOscillator" | "createGain" | "createBiquadFilter"
+>
+
+export type Sonifier = {
+    /** Sounds the frame's flips as grains and moves the drone to its strain. */
+    update: (flips: readonly GridFacetFlip[], stats: SimulationStats | null, width: number, height: number) => void
+    setMuted: (muted: boolean) => void
+    muted: () => boolean
+    /** Grains currently sounding. */
+    voices: () => number
+    /** Stops the drone and every grain; the context itself is left to its owner. */
+    dispose: () => void
+}
+
+/**
+ * Pitch for a facet centred at (x, y) in host pixels: left to right climbs a
+ * pentatonic scale over three octaves, and the lower half of the canvas sounds
+ * an octave down.
+ */
+export function grainFrequency(x: number, y: number, width: number, height: number) {
+    const steps = SCALE.length * GRAIN_OCTAVES
+    const across = Math.max(0, Math.min(1, x / Math.max(1, width)))
+    const step = Math.min(steps - 1, Math.floor(across * steps))
+    const octave = Math.floor(step / SCALE.length) - (y > height * 0.5 ? 1 : 0)
+    const semitones = octave * 12 + SCALE[step % SCALE.length]
+    return GRAIN_ROOT_HZ * 2 ** (semitones / 12)
+}
+
+/**
+ * Opt-in audio layer over the frames a runtime reports. Each facet flip plays
+ * a short grain whose loudness follows `strength`, and the lattice's largest
+ * edge strain opens a low filtered drone. Create it from a user gesture,
+ * since browsers keep new contexts suspended until then.
+ */
+export function createSonifier(context: SonifierContext): Sonifier {
+    const master = context.createGain()
+    master.connect(context.destination)
+
+    const droneGain = context.createGain()
+    droneGain.gain.value = 0
+    const droneFilter = context.createBiquadFilter()
+    droneFilter.type = "lowpass"
+    droneFilter.frequency.value = DRONE_CUTOFF_HZ
+    const drone = context.createOscillator()
+    drone.type = "sawtooth"
+    drone.frequency.value = DRONE_HZ
+    drone.connect(droneFilter)
+    droneFilter.connect(droneGain)
+    droneGain.connect(master)
+    drone.start()
+
+    const grains = new Set<OscillatorNode>()
+    let muted = false
+
+    function playGrain(flip: GridFacetFlip, width: number, height: number) {
+        const start = context.currentTime
+        const end = start + GRAIN_DURATION
+        const oscillator = context.createOscillator()
+        oscillator.type = "triangle"
+        oscillator.frequency.value = grainFrequency(flip.x, flip.y, width, height)
+        const envelope = context.createGain()
+        envelope.gain.setValueAtTime(SILENCE, start)
+        envelope.gain.linearRampToValueAtTime(Math.max(SILENCE, GRAIN_GAIN * flip.strength), start + GRAIN_ATTACK)
+        envelope.gain.exponentialRampToValueAtTime(SILENCE, end)
+        oscillator.connect(envelope)
+        envelope.connect(master)
+        oscillator.onended = () => {
+            grains.delete(oscillator)
+            envelope.disconnect()
+        }
+        grains.add(oscillator)
+        oscillator.start(start)
+        oscillator.stop(end)
+    }
+
+    return {
+        update: (flips, stats, width, height) => {
+            const now = context.currentTime
+            if (stats) {
+                const level = Math.min(1, stats.maxStrain / DRONE_STRAIN)
+                droneGain.gain.setTargetAtTime(DRONE_GAIN * level, now, GLIDE)
+                droneFilter.frequency.setTargetAtTime(DRONE_CUTOFF_HZ + DRONE_CUTOFF_RANGE_HZ * level, now, GLIDE)
+            }
+            const free = MAX_VOICES - grains.size
+            if (muted || free <= 0 || flips.length === 0) return
+            const loudest = flips.length > free ? [...flips].sort((a, b) => b.strength - a.strength) : flips
+            for (let i = 0; i < Math.min(free, loudest.length); i += 1) playGrain(loudest[i], width, height)
+        },
+        setMuted: (next) => {
+            muted = next
+            master.gain.setTargetAtTime(next ? 0 : 1, context.currentTime, GLIDE)
+        },
+        muted: () => muted,
+        voices: () => grains.size,
+        dispose: () => {
+            for (const grain of grains) grain.stop()
+            grains.clear()
+            drone.stop()
+            master.disconnect()
+        }
+    }
+}
@@ -0,0 +1,144 @@
+import {
+    CAMERA_RESET_MS,
+    createCamera,
+    createCameraGestures,
+    HOME_VIEW,
+    MAX_ZOOM,
+    MIN_ZOOM,
+    toHome,
+    zoomAt
+} from "@/lib/camera"
+import { afterEach, describe, expect, test, vi } from "vitest"
+
+function pointer(type: string, init: PointerEventInit) {
+    return new PointerEvent(type, { bubbles: true, ...init })
+}
+
+describe("camera", () => {
+    test("zooms about a screen point and maps the screen back to the default view", () => {
+        const view = zoomAt(HOME_VIEW, 2, 300, 150, 400, 200)
+        const before = toHome(HOME_VIEW, 300, 150, 400, 200)
+        const after = toHome(view, 300, 150, 400, 200)
+
+        expect(view.zoom).toBe(2)
+        expect(after.x).toBeCloseTo(before.x)
+        expect(after.y).toBeCloseTo(before.y)
+        // Half the screen now covers a quarter of the default view.
+        expect(toHome(view, 0, 0, 400, 200)).toEqual({ x: 150, y: 75 })
+
+        expect(zoomAt(HOME_VIEW, 100, 0, 0, 400, 200).zoom).toBe(MAX_ZOOM)
+        expect(zoomAt(HOME_VIEW, 0.01, 0, 0, 400, 200).zoom).toBe(MIN_ZOOM)
+    })
+
+    test("keeps the view inside the overscanned lattice at every zoom", () => {
+        const camera = createCamera()
+        camera.resize(400, 200)
+        camera.panBy(-10_000, 10_000)
+        // The lattice reaches 0.95 viewports from its centre; half a viewport shows at zoom 1.
+        expect(camera.view().x).toBeCloseTo(180)
+        expect(camera.view().y).toBeCloseTo(-90)
+
+        camera.zoomAt(2, 200, 100)
+        camera.panBy(-10_000, 0)
+        expect(camera.view().x).toBeCloseTo(280)
+
+        camera.zoomAt(0.01, 200, 100)
+        expect(camera.view().zoom).toBe(MIN_ZOOM)
+        expect(camera.view().x).toBeCloseTo(0)
+    })
+
+    test("eases back to the default view and stops there", () => {
+        const camera = createCamera()
+        camera.resize(400, 200)
+        camera.zoomAt(3, 50, 40)
+        camera.panBy(30, -20)
+        const moved = camera.view()
+
+        camera.reset()
+        const halfway = camera.advance(CAMERA_RESET_MS / 2)
+        expect(halfway.zoom).toBeGreaterThan(1)
+        expect(halfway.zoom).toBeLessThan(moved.zoom)
+        expect(camera.advance(CAMERA_RESET_MS)).toEqual(HOME_VIEW)
+        expect(camera.toHome({ id: 1, x: 12, y: 34 })).toEqual({ id: 1, x: 12, y: 34 })
+    })
+})
+
+describe("camera gestures", () => {
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    test("pans and pinch-zooms with two touches, which stop sculpting", () => {
+        const element = document.createElement("div")
+        const camera = createCamera()
+        camera.resize(400, 200)
+        const gestures = createCameraGestures(element, camera)
+
+        element.dispatchEvent(pointer("pointerdown", { pointerId: 1, pointerType: "touch", clientX: 150, clientY: 100 }))
+        expect(gestures.claims(1)).toBe(false)
+        element.dispatchEvent(pointer("pointerdown", { pointerId: 2, pointerType: "touch", clientX: 250, clientY: 100 }))
+        expect(gestures.claims(1) && gestures.claims(2)).toBe(true)
+
+        element.dispatchEvent(pointer("pointermove", { pointerId: 1, pointerType: "touch", clientX: 100, clientY: 100 }))
+        element.dispatchEvent(pointer("pointermove", { pointerId: 2, pointerType: "touch", clientX: 300, clientY: 100 }))
+        expect(camera.view().zoom).toBeCloseTo(2)
+        expect(camera.view().x).toBeCloseTo(0)
+
+        element.dispatchEvent(pointer("pointerup", { pointerId: 1, pointerType: "touch" }))
+        expect(gestures.claims(1)).toBe(false)
+        expect(gestures.claims(2)).toBe(true)
+        gestures.dispose()
+    })
+
+    test("leaves a sculpting touch alone when a second finger lands", () => {
+        const element = document.createElement("div")
+        const camera = createCamera()
+        camera.resize(400, 200)
+        const gestures = createCameraGestures(element, camera)
+        const now = vi.spyOn(performance, "now").mockReturnValue(1000)
+        const touch = (type: string, pointerId: number, clientX: number) =>
+            element.dispatchEvent(pointer(type, { pointerId, pointerType: "touch", clientX, clientY: 100 }))
+
+        // A stroke that has moved past the slop keeps sculpting, and so does the newcomer.
+        touch("pointerdown", 1, 150)
+        touch("pointermove", 1, 180)
+        touch("pointerdown", 2, 250)
+        expect(gestures.claims(1) || gestures.claims(2)).toBe(false)
+        touch("pointermove", 2, 300)
+        expect(camera.view()).toEqual(HOME_VIEW)
+        touch("pointerup", 2, 300)
+
+        // So does one that has been held still past the pinch window.
+        now.mockReturnValue(1500)
+        touch("pointerdown", 3, 250)
+        expect(gestures.claims(1) || gestures.claims(3)).toBe(false)
+        touch("pointerup", 1, 180)
+        touch("pointerup", 3, 250)
+
+        // Two fresh touches still pinch.
+        touch("pointerdown", 4, 150)
+        now.mockReturnValue(1600)
+        touch("pointerdown", 5, 250)
+        expect(gestures.claims(4) && gestures.claims(5)).toBe(true)
+        gestures.dispose()
+    })
+
+    test("pans on a middle drag and zooms on the wheel", () => {
+        const element = document.createElement("div")
+        const camera = createCamera()
+        camera.resize(400, 200)
+        const gestures = createCameraGestures(element, camera)
+
+        element.dispatchEvent(pointer("pointerdown", { pointerId: 5, pointerType: "mouse", button: 1, clientX: 200 }))
+        element.dispatchEvent(pointer("pointermove", { pointerId: 5, pointerType: "mouse", clientX: 160 }))
+        expect(gestures.claims(5)).toBe(true)
+        expect(camera.view()).toEqual({ x: 40, y: 0, zoom: 1 })
+        element.dispatchEvent(pointer("pointerup", { pointerId: 5, pointerType: "mouse" }))
+        expect(gestures.claims(5)).toBe(false)
+
+        element.dispatchEvent(new WheelEvent("wheel", { deltaY: -200, clientX: 200, clientY: 100 }))
+        expect(camera.view().zoom).toBeGreaterThan(1)
+        expect(camera.view().x).toBeCloseTo(40)
+        gestures.dispose()
+    })
+})
@@ -0,0 +1,283 @@
+import { OVERSCAN } from "@/lib/lattices"
+
+/**
+ * What the viewport shows: the lattice-space point at its centre and the
+ * magnification. Lattice space has its origin at the centre of the host.
+ */
+export type CameraView = {
+    x: number
+    y: number
+    zoom: number
+}
+
+export const HOME_VIEW: CameraView = { x: 0, y: 0, zoom: 1 }
+/** Half the lattice's extent, in viewports: the viewport plus the overscan on one side. */
+const CONTENT_HALF = 0.5 + OVERSCAN
+/** Far enough out that the whole overscanned lattice just fills the viewport. */
+export const MIN_ZOOM = 0.5 / CONTENT_HALF
+export const MAX_ZOOM = 6
+/** Duration of the animated reset back to the home view. */
+export const CAMERA_RESET_MS = 450
+/** Zoom factor per pixel of wheel scroll, as an exponent. */
+const WHEEL_ZOOM_RATE = 0.0015
+/** Pixels per line for wheel events that scroll by lines. */
+const WHEEL_LINE_PX = 16
+/** Touches that land this close together in time can start a pinch. */
+const PINCH_WINDOW_MS = 200
+/** A touch that travels further than this is sculpting and no longer joins a pinch. */
+const TOUCH_SLOP_PX = 10
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+/**
+ * Keeps the zoom in range and the visible area inside the lattice, so no
+ * empty space beyond its edge comes into view.
+ */
+export function clampView(view: CameraView, width: number, height: number): CameraView {
+    const zoom = clamp(view.zoom, MIN_ZOOM, MAX_ZOOM)
+    const panX = Math.max(0, width * (CONTENT_HALF - 0.5 / zoom))
+    const panY = Math.max(0, height * (CONTENT_HALF - 0.5 / zoom))
+    return { x: clamp(view.x, -panX, panX), y: clamp(view.y, -panY, panY), zoom }
+}
+
+/**
+ * Maps a point on screen, in host pixels from the top-left corner, to the
+ * host pixel showing the same lattice point at the home view. Everything
+ * the runtime takes is in those coordinates.
+ */
+export function toHome(view: CameraView, x: number, y: number, width: number, height: number) {
+    return {
+        x: (x - width * 0.5) / view.zoom + view.x + width * 0.5,
+        y: (y - height * 0.5) / view.zoom + view.y + height * 0.5
+    }
+}
+
+/** Scales the view by `factor` about a screen point, which keeps the lattice point under it in place. */
+export function zoomAt(
+    view: CameraView,
+    factor: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+): CameraView {
+    const zoom = clamp(view.zoom * factor, MIN_ZOOM, MAX_ZOOM)
+    const offsetX = x - width * 0.5
+    const offsetY = y - height * 0.5
+    return clampView(
+        {
+            x: view.x + offsetX / view.zoom - offsetX / zoom,
+            y: view.y + offsetY / view.zoom - offsetY / zoom,
+            zoom
+        },
+        width,
+        height
+    )
+}
+
+/** Moves the lattice by a screen-space drag. */
+export function panBy(view: CameraView, dx: number, dy: number, width: number, height: number): CameraView {
+    return clampView({ x: view.x - dx / view.zoom, y: view.y - dy / view.zoom, zoom: view.zoom }, width, height)
+}
+
+/** Camera state for one host, with its size for clamping and an animated reset. */
+export type Camera = {
+    view: () => CameraView
+    resize: (width: number, height: number) => void
+    zoomAt: (factor: number, x: number, y: number) => void
+    panBy: (dx: number, dy: number) => void
+    /** Eases back to the home view over `CAMERA_RESET_MS`, or jumps there when not animated. */
+    reset: (animated?: boolean) => void
+    /** Advances a running reset by `deltaMs` and returns the view to draw. */
+    advance: (deltaMs: number) => CameraView
+    /** A screen point in the coordinates the runtime takes; see `toHome`. */
+    toHome: <T extends { x: number; y: number }>(point: T) => T
+}
+
+export function createCamera(): Camera {
+    let view = HOME_VIEW
+    let width = 1
+    let height = 1
+    // A running reset eases from `from` to the home view; any gesture cancels it.
+    let reset: { from: CameraView; elapsed: number } | null = null
+
+    return {
+        view: () => view,
+        resize: (nextWidth, nextHeight) => {
+            width = Math.max(1, nextWidth)
+            height = Math.max(1, nextHeight)
+            view = clampView(view, width, height)
+        },
+        zoomAt: (factor, x, y) => {
+            reset = null
+            view = zoomAt(view, factor, x, y, width, height)
+        },
+        panBy: (dx, dy) => {
+            reset = null
+            view = panBy(view, dx, dy, width, height)
+        },
+        reset: (animated = true) => {
+            reset = animated ? { from: view, elapsed: 0 } : null
+            if (!animated) view = HOME_VIEW
+        },
+        advance: (deltaMs) => {
+            if (!reset) return view
+            reset.elapsed = Math.min(CAMERA_RESET_MS, reset.elapsed + deltaMs)
+            const progress = reset.elapsed / CAMERA_RESET_MS
+            const eased = progress * progress * (3 - 2 * progress)
+            const { from } = reset
+            // Zoom eases geometrically so the rate of change looks even.
+            view = {
+                x: from.x * (1 - eased),
+                y: from.y * (1 - eased),
+                zoom: Math.pow(from.zoom, 1 - eased)
+            }
+            if (progress >= 1) {
+                view = HOME_VIEW
+                reset = null
+            }
+            return view
+        },
+        toHome: (point) => ({ ...point, ...toHome(view, point.x, point.y, width, height) })
+    }
+}
+
+export type CameraGestureOptions = {
+    /** Filters which pointers and wheel events may move the camera (e.g. to skip overlay UI). */
+    accept?: (event: PointerEvent | WheelEvent) => boolean
+}
+
+/** A touch on the host, with where and when it landed. */
+type TouchPoint = {
+    x: number
+    y: number
+    startX: number
+    startY: number
+    downAt: number
+}
+
+export type CameraGestures = {
+    /** True while a pointer belongs to a camera gesture and should not sculpt. */
+    claims: (id: number) => boolean
+    dispose: () => void
+}
+
+/**
+ * Drives `camera` from `element`: the wheel (and trackpad pinch, which
+ * browsers report as a wheel with Ctrl) zooms about the cursor, a middle
+ * drag pans, and two touches pan and pinch-zoom together. Only touches
+ * that have not started sculpting, landed within `PINCH_WINDOW_MS` and not
+ * moved past `TOUCH_SLOP_PX`, start a pinch, so a second finger never cuts
+ * off a stroke in progress. A touch that joins a gesture stays claimed until
+ * it lifts.
+ */
+export function createCameraGestures(
+    element: HTMLElement,
+    camera: Camera,
+    options: CameraGestureOptions = {}
+): CameraGestures {
+    const touches = new Map<number, TouchPoint>()
+    const claimed = new Set<number>()
+    let dragging: { id: number; x: number; y: number } | null = null
+
+    function position(event: PointerEvent | WheelEvent) {
+        const rect = element.getBoundingClientRect()
+        return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+    }
+
+    /** Touches that belong to the camera gesture, in the order they landed. */
+    const gestureTouches = () => Array.from(touches).filter(([id]) => claimed.has(id))
+
+    /** Centre and spread of the first two gesture touches. */
+    function pinch() {
+        const [[, a], [, b]] = gestureTouches()
+        return { x: (a.x + b.x) * 0.5, y: (a.y + b.y) * 0.5, spread: Math.hypot(b.x - a.x, b.y - a.y) }
+    }
+
+    /** Whether a touch could still be the start of a pinch rather than a stroke. */
+    function fresh(touch: TouchPoint, now: number) {
+        const travel = Math.hypot(touch.x - touch.startX, touch.y - touch.startY)
+        return now - touch.downAt < PINCH_WINDOW_MS && travel <= TOUCH_SLOP_PX
+    }
+
+    const handleWheel = (event: WheelEvent) => {
+        if (options.accept && !options.accept(event)) return
+        event.preventDefault()
+        const scale = event.deltaMode === 1 ? WHEEL_LINE_PX : event.deltaMode === 2 ? element.clientHeight : 1
+        const { x, y } = position(event)
+        camera.zoomAt(Math.exp(-event.deltaY * scale * WHEEL_ZOOM_RATE), x, y)
+    }
+
+    const handleDown = (event: PointerEvent) => {
+        if (options.accept && !options.accept(event)) return
+        if (event.pointerType === "mouse" && event.button === 1) {
+            event.preventDefault()
+            dragging = { id: event.pointerId, ...position(event) }
+            claimed.add(event.pointerId)
+            return
+        }
+        if (event.pointerType !== "touch") return
+        const now = performance.now()
+        const { x, y } = position(event)
+        touches.set(event.pointerId, { x, y, startX: x, startY: y, downAt: now })
+        // A finger landing during a gesture joins it; otherwise only fresh touches pair up.
+        if (gestureTouches().length > 0) {
+            claimed.add(event.pointerId)
+            return
+        }
+        const pair = Array.from(touches).filter(([, touch]) => fresh(touch, now))
+        if (pair.length < 2) return
+        for (const [id] of pair) claimed.add(id)
+    }
+
+    const handleMove = (event: PointerEvent) => {
+        const point = position(event)
+        if (dragging?.id === event.pointerId) {
+            camera.panBy(point.x - dragging.x, point.y - dragging.y)
+            dragging = { id: event.pointerId, ...point }
+            return
+        }
+        const touch = touches.get(event.pointerId)
+        if (!touch) return
+        const before = claimed.has(event.pointerId) && gestureTouches().length >= 2 ? pinch() : null
+        touch.x = point.x
+        touch.y = point.y
+        if (!before) return
+        const after = pinch()
+        camera.panBy(after.x - before.x, after.y - before.y)
+        if (before.spread > 0) camera.zoomAt(after.spread / before.spread, after.x, after.y)
+    }
+
+    const handleEnd = (event: PointerEvent) => {
+        if (dragging?.id === event.pointerId) dragging = null
+        touches.delete(event.pointerId)
+        claimed.delete(event.pointerId)
+    }
+
+    // Keeps a middle press from starting the browser's autoscroll.
+    const handleMouseDown = (event: MouseEvent) => {
+        if (event.button === 1) event.preventDefault()
+    }
+
+    element.addEventListener("wheel", handleWheel, { passive: false })
+    element.addEventListener("pointerdown", handleDown)
+    element.addEventListener("pointermove", handleMove)
+    element.addEventListener("pointerup", handleEnd)
+    element.addEventListener("pointercancel", handleEnd)
+    element.addEventListener("mousedown", handleMouseDown)
+
+    return {
+        claims: (id) => claimed.has(id),
+        dispose: () => {
+            element.removeEventListener("wheel", handleWheel)
+            element.removeEventListener("pointerdown", handleDown)
+            element.removeEventListener("pointermove", handleMove)
+            element.removeEventListener("pointerup", handleEnd)
+            element.removeEventListener("pointercancel", handleEnd)
+            element.removeEventListener("mousedown", handleMouseDown)
+            touches.clear()
+            claimed.clear()
+            dragging = null
+        }
+    }
+}
@@ -0,0 +1,101 @@
+import { CAPTURE_VERSION, createCapture, type CaptureMetadata } from "@/lib/capture"
+import { HELIOS_PALETTE } from "@/lib/palette"
+import { createGridRuntime } from "@/lib/runtime"
+import { createSimulation, type StepInput } from "@/lib/simulation"
+import { describe, expect, test } from "vitest"
+
+function drag(i: number): StepInput {
+    return {
+        pointers: [{ id: 1, x: Math.cos(i * 0.2) * 90, y: Math.sin(i * 0.2) * 60, pressed: true, touch: false }]
+    }
+}
+
+describe("strain capture", () => {
+    test("writes CSV with a metadata comment, a header and one row per facet and node each sample", async () => {
+        const simulation = createSimulation({ width: 320, height: 200, seed: 4, geometry: "rectangular" })
+        const capture = createCapture(simulation, { format: "csv", interval: 5 })
+        for (let i = 0; i < 20; i += 1) {
+            simulation.step(drag(i))
+            capture.record()
+        }
+        const blob = capture.finish()
+        const lines = (await blob.text()).trimEnd().split("\n")
+        const metadata = JSON.parse(lines[0].slice(2)) as CaptureMetadata
+        const frame = simulation.frame()
+
+        expect(blob.type).toBe("text/csv")
+        expect(metadata).toMatchObject({ version: CAPTURE_VERSION, seed: 4, geometry: "rectangular", interval: 5 })
+        expect(metadata.physics).toEqual(simulation.physics())
+        expect(lines[1]).toBe("tick,seconds,kind,index,shear,strain,signal,flips,glow,dx,dy,foldX,foldY")
+        expect(capture.samples()).toBe(5)
+        expect(lines).toHaveLength(2 + 5 * (frame.facets.length + frame.nodes.count))
+        expect(new Set(lines.slice(2).map((line) => line.split(",")[0]))).toEqual(
+            new Set(["0", "5", "10", "15", "20"])
+        )
+        expect(lines.slice(2).every((line) => line.split(",").length === 13)).toBe(true)
+    })
+
+    test("writes NDJSON samples that count every flip since the previous sample", async () => {
+        const simulation = createSimulation({ width: 320, height: 200, seed: 4, geometry: "rectangular" })
+        const capture = createCapture(simulation, { format: "ndjson", interval: 10, nodes: false })
+        let flips = 0
+        for (let i = 0; i < 30; i += 1) {
+            simulation.step(drag(i))
+            flips += simulation.frame().facetFlips.length
+            capture.record()
+        }
+        const blob = capture.finish()
+        const [metadata, ...samples] = (await blob.text())
+            .trimEnd()
+            .split("\n")
+            .map((line) => JSON.parse(line))
+        const counted = samples.flatMap((sample) => sample.facets.flips).reduce((sum, n) => sum + n, 0)
+
+        expect(blob.type).toBe("application/x-ndjson")
+        expect(metadata).toMatchObject({ type: "metadata", facets: simulation.frame().facets.length })
+        expect(samples.map((sample) => sample.tick)).toEqual([0, 10, 20, 30])
+        expect(samples.every((sample) => sample.nodes === undefined)).toBe(true)
+        expect(flips).toBeGreaterThan(0)
+        expect(counted).toBe(flips)
+    })
+
+    test("records the new layout when the lattice is rebuilt mid-capture", async () => {
+        const simulation = createSimulation({ width: 320, height: 200, seed: 4, geometry: "rectangular" })
+        const capture = createCapture(simulation, { format: "ndjson", interval: 1 })
+        simulation.step(drag(0))
+        capture.record()
+        simulation.setGeometry("triangular")
+        simulation.step(drag(1))
+        capture.record()
+
+        const records = (await capture.finish().text())
+            .trimEnd()
+            .split("\n")
+            .map((line) => JSON.parse(line))
+        const layouts = records.filter((record) => record.type === "metadata")
+
+        expect(layouts.map((layout) => [layout.geometry, layout.tick])).toEqual([
+            ["rectangular", 0],
+            ["triangular", 2]
+        ])
+        expect(records.at(-1).facets.shear).toHaveLength(simulation.frame().facets.length)
+    })
+
+    test("captures the live lattice through the runtime", async () => {
+        const runtime = createGridRuntime({
+            width: 320,
+            height: 200,
+            seed: 3,
+            geometry: "rectangular",
+            palette: HELIOS_PALETTE
+        })
+        expect(runtime.stopCapture()).toBeNull()
+
+        runtime.startCapture({ format: "csv", interval: 1 })
+        for (let frame = 0; frame < 6; frame += 1) runtime.tick(20, { pointers: [] }, { stats: false, flips: false })
+        const text = await runtime.stopCapture()?.text()
+
+        expect(text?.startsWith("# {")).toBe(true)
+        expect(runtime.stopCapture()).toBeNull()
+    })
+})
@@ -0,0 +1,172 @@
+import type { LatticeGeometry } from "@/lib/lattices"
+import { FACET_STRAIN_WEIGHT, type LatticeSimulation, type PhysicsConfig } from "@/lib/simulation"
+import { FIXED_STEP_MS } from "@/lib/timestep"
+
+export const CAPTURE_VERSION = 1
+
+export type CaptureFormat = "csv" | "ndjson"
+
+export const CAPTURE_FORMATS: readonly CaptureFormat[] = ["csv", "ndjson"]
+
+/** Ticks between samples by default: ten samples per simulated second. */
+export const DEFAULT_CAPTURE_INTERVAL = 6
+
+export type CaptureOptions = {
+    format: CaptureFormat
+    /** Simulation ticks between samples. */
+    interval?: number
+    /** Also sample every node's displacement; on by default. */
+    nodes?: boolean
+}
+
+/**
+ * Describes the lattice the samples that follow were taken on. It is
+ * written first and again whenever the mesh is rebuilt mid-capture.
+ */
+export type CaptureMetadata = {
+    version: typeof CAPTURE_VERSION
+    seed: number
+    geometry: LatticeGeometry
+    width: number
+    height: number
+    cols: number
+    rows: number
+    spacingX: number
+    spacingY: number
+    physics: PhysicsConfig
+    /** Ticks between samples and the length of one tick. */
+    interval: number
+    tickMs: number
+    facets: number
+    nodes: number
+    /** Capture tick this layout took effect at. */
+    tick: number
+}
+
+export type Capture = {
+    /** Observes the tick that just ran; samples the lattice every `interval` ticks. */
+    record: () => void
+    /** Number of samples taken so far. */
+    samples: () => number
+    /** Ends the capture and returns the whole time series as one file. */
+    finish: () => Blob
+}
+
+const CSV_HEADER = "tick,seconds,kind,index,shear,strain,signal,flips,glow,dx,dy,foldX,foldY"
+const MIME_TYPES: Record<CaptureFormat, string> = { csv: "text/csv", ndjson: "application/x-ndjson" }
+
+/** Six decimals keep small strains readable without float noise. */
+const round = (value: number) => Math.round(value * 1e6) / 1e6
+
+/**
+ * Samples per-facet shear, strain, signal, sign flips and glow, plus each
+ * node's displacement from its rest position (`dx`, `dy`) and the plastic
+ * fold of that rest position from the regular lattice (`foldX`, `foldY`).
+ * Flips are counted over every tick since the previous sample, so none are
+ * lost between samples.
+ *
+ * CSV files start with `#` comment lines holding the metadata as JSON, then
+ * one row per facet and per node for each sample. NDJSON files hold one
+ * `metadata` record and then one `sample` record per sample, with columns
+ * as arrays indexed by facet or node.
+ */
+export function createCapture(simulation: LatticeSimulation, options: CaptureOptions): Capture {
+    const interval = Math.max(1, Math.floor(options.interval ?? DEFAULT_CAPTURE_INTERVAL))
+    const includeNodes = options.nodes ?? true
+    const chunks: string[] = []
+    let tick = 0
+    let sampled = 0
+    let flips = new Uint32Array(0)
+    let layout = ""
+
+    function writeMetadata() {
+        const frame = simulation.frame()
+        const signature = `${frame.width}x${frame.height}:${frame.geometry}:${frame.facets.length}`
+        if (signature === layout) return
+        layout = signature
+        flips = new Uint32Array(frame.facets.length)
+        const metadata: CaptureMetadata = {
+            version: CAPTURE_VERSION,
+            seed: simulation.seed,
+            geometry: frame.geometry,
+            width: frame.width,
+            height: frame.height,
+            cols: frame.cols,
+            rows: frame.rows,
+            spacingX: frame.spacingX,
+            spacingY: frame.spacingY,
+            physics: simulation.physics(),
+            interval,
+            tickMs: FIXED_STEP_MS,
+            facets: frame.facets.length,
+            nodes: frame.nodes.count,
+            tick
+        }
+        chunks.push(
+            options.format === "csv"
+                ? `# ${JSON.stringify(metadata)}\n`
+                : `${JSON.stringify({ type: "metadata", ...metadata })}\n`
+        )
+    }
+
+    function sample() {
+        const frame = simulation.frame()
+        const { facetSignal, facetStrain, facetGlow } = frame
+        const { count, ox, oy, bx, by, x, y } = frame.nodes
+        const seconds = round((tick * FIXED_STEP_MS) / 1000)
+
+        const facets = { shear: [] as number[], strain: [] as number[], signal: [] as number[], glow: [] as number[] }
+        for (let f = 0; f < frame.facets.length; f += 1) {
+            facets.shear.push(round(facetSignal[f] - facetStrain[f] * FACET_STRAIN_WEIGHT))
+            facets.strain.push(round(facetStrain[f]))
+            facets.signal.push(round(facetSignal[f]))
+            facets.glow.push(round(facetGlow[f]))
+        }
+        const nodes = { dx: [] as number[], dy: [] as number[], foldX: [] as number[], foldY: [] as number[] }
+        for (let i = 0; includeNodes && i < count; i += 1) {
+            nodes.dx.push(round(x[i] - bx[i]))
+            nodes.dy.push(round(y[i] - by[i]))
+            nodes.foldX.push(round(bx[i] - ox[i]))
+            nodes.foldY.push(round(by[i] - oy[i]))
+        }
+
+        if (options.format === "csv") {
+            const rows: string[] = []
+            for (let f = 0; f < facets.shear.length; f += 1) {
+                const values = [facets.shear[f], facets.strain[f], facets.signal[f], flips[f], facets.glow[f]]
+                rows.push(`${tick},${seconds},facet,${f},${values.join(",")},,,,`)
+            }
+            for (let i = 0; i < nodes.dx.length; i += 1) {
+                const values = [nodes.dx[i], nodes.dy[i], nodes.foldX[i], nodes.foldY[i]]
+                rows.push(`${tick},${seconds},node,${i},,,,,,${values.join(",")}`)
+            }
+            chunks.push(`${rows.join("\n")}\n`)
+        } else {
+            const record = {
+                type: "sample",
+                tick,
+                seconds,
+                facets: { ...facets, flips: Array.from(flips) },
+                ...(includeNodes ? { nodes } : {})
+            }
+            chunks.push(`${JSON.stringify(record)}\n`)
+        }
+        flips.fill(0)
+        sampled += 1
+    }
+
+    writeMetadata()
+    if (options.format === "csv") chunks.push(`${CSV_HEADER}\n`)
+    sample()
+
+    return {
+        record: () => {
+            tick += 1
+            writeMetadata()
+            for (const flip of simulation.frame().facetFlips) flips[flip.facet] += 1
+            if (tick % interval === 0) sample()
+        },
+        samples: () => sampled,
+        finish: () => new Blob(chunks, { type: MIME_TYPES[options.format] })
+    }
+}
@@ -0,0 +1,81 @@
+import { heatColor, inspectNode, signalHistogram, SIGNAL_BINS } from "@/lib/diagnostics"
+import { HELIOS_PALETTE } from "@/lib/palette"
+import { createGridRuntime } from "@/lib/runtime"
+import { buildScene } from "@/lib/scene"
+import { createSimulation } from "@/lib/simulation"
+import { describe, expect, test } from "vitest"
+
+function foldedSimulation() {
+    const simulation = createSimulation({ width: 640, height: 400, seed: 8 })
+    for (let i = 0; i < 60; i += 1) {
+        simulation.step({
+            pointers: [{ id: 1, x: Math.cos(i * 0.1) * 80, y: Math.sin(i * 0.1) * 50, pressed: true, touch: false }]
+        })
+    }
+    return simulation
+}
+
+describe("lattice diagnostics", () => {
+    test("measures pass times, constraint work and energy", () => {
+        const calm = createSimulation({ width: 640, height: 400, seed: 8 })
+        calm.step({ pointers: [] })
+        const folded = foldedSimulation()
+        const measures = folded.diagnostics()
+
+        expect(measures.passMs.forces).toBeGreaterThan(0)
+        expect(measures.passMs.constraints).toBeGreaterThan(0)
+        expect(measures.passMs.facets).toBeGreaterThan(0)
+        expect(measures.kineticEnergy).toBe(folded.stats().energy)
+        expect(measures.springEnergy).toBeGreaterThan(calm.diagnostics().springEnergy * 10)
+        expect(measures.constraintCorrection).toBeGreaterThan(calm.diagnostics().constraintCorrection)
+    })
+
+    test("bins every intact facet and colours deformed facets hotter", () => {
+        const frame = foldedSimulation().frame()
+        const histogram = signalHistogram(frame)
+        const intact = frame.facets.filter((facet) => !facet.orphaned).length
+
+        expect(histogram).toHaveLength(SIGNAL_BINS)
+        expect(histogram.reduce((sum, count) => sum + count, 0)).toBe(intact)
+
+        const deformation = (f: number) => Math.abs(frame.facetSignal[f])
+        const order = frame.facets.map((_, f) => f).sort((a, b) => deformation(a) - deformation(b))
+        const calm = heatColor(frame, order[0])
+        const hot = heatColor(frame, order[order.length - 1])
+        // The ramp runs from dark blue to red.
+        expect(hot[0]).toBeGreaterThan(calm[0])
+        expect(calm[2]).toBeGreaterThan(hot[2])
+    })
+
+    test("inspects the node nearest a point within reach", () => {
+        const frame = foldedSimulation().frame()
+        const { x, y, bx, by } = frame.nodes
+        const inspected = inspectNode(frame, x[12] + 0.5, y[12], frame.spacingX)
+
+        expect(inspected).toEqual(expect.objectContaining({ index: 12, bx: bx[12], by: by[12] }))
+        expect(inspected?.displacement).toBe(Math.hypot(x[12] - bx[12], y[12] - by[12]))
+        expect(inspectNode(frame, 1e6, 1e6, frame.spacingX)).toBeNull()
+    })
+
+    test("draws a heatmap over every intact facet while the runtime is diagnosing", () => {
+        const runtime = createGridRuntime({
+            width: 320,
+            height: 200,
+            seed: 4,
+            geometry: "rectangular",
+            palette: HELIOS_PALETTE
+        })
+        const report = { stats: false, flips: false }
+        const hover = { pointers: [{ id: 1, x: 160, y: 100, pressed: false, touch: false }] }
+        expect(runtime.tick(20, hover, report).diagnostics).toBeNull()
+
+        runtime.setDiagnostics(true)
+        const frame = runtime.tick(20, hover, report)
+        const plain = buildScene(createSimulation({ width: 320, height: 200, seed: 4 }).frame(), 1, HELIOS_PALETTE)
+
+        expect(frame.diagnostics?.fps).toBeGreaterThan(0)
+        expect(frame.diagnostics?.passMs.lines).toBeGreaterThanOrEqual(0)
+        expect(frame.diagnostics?.inspected).not.toBeNull()
+        expect(frame.scene.facets.length).toBeGreaterThan(plain.facets.length)
+    })
+})
@@ -0,0 +1,85 @@
+import { sampleRamp, type Rgb, type RgbOut } from "@/lib/palette"
+import { FACET_STRAIN_WEIGHT, type SimulationDiagnostics, type SimulationFrame } from "@/lib/simulation"
+
+export const SIGNAL_BINS = 16
+/** Facet signals are binned over ±this range; larger values land in the end bins. */
+export const SIGNAL_RANGE = 0.5
+/** Strain and shear that saturate the heatmap. */
+const HEAT_STRAIN = 0.15
+const HEAT_SHEAR = 0.4
+
+/** Cold to hot: calm facets stay dark blue, the most deformed turn red. */
+const HEAT_STOPS: readonly Rgb[] = [
+    [20, 28, 84],
+    [28, 132, 196],
+    [72, 196, 120],
+    [236, 206, 64],
+    [228, 60, 40]
+]
+
+/** One node under the pointer, in lattice space. */
+export type NodeInspection = {
+    index: number
+    bx: number
+    by: number
+    /** Distance from the rest position (`bx`, `by`) to where the node is now. */
+    displacement: number
+    vx: number
+    vy: number
+}
+
+/** Everything the diagnostics overlay shows for one frame. */
+export type DiagnosticsReport = Omit<SimulationDiagnostics, "passMs"> & {
+    /** Frames per second, smoothed over the last second or so. */
+    fps: number
+    passMs: SimulationDiagnostics["passMs"] & {
+        /** Building line and node primitives for the draw list. */
+        lines: number
+        nodes: number
+    }
+    /** Facet counts per signal bin, from -SIGNAL_RANGE to SIGNAL_RANGE. */
+    signalHistogram: number[]
+    inspected: NodeInspection | null
+}
+
+/** Counts intact facets into `bins` equal signal ranges. */
+export function signalHistogram(frame: SimulationFrame, bins = SIGNAL_BINS) {
+    const counts = new Array<number>(bins).fill(0)
+    for (let f = 0; f < frame.facets.length; f += 1) {
+        if (frame.facets[f].orphaned) continue
+        const unit = (frame.facetSignal[f] + SIGNAL_RANGE) / (SIGNAL_RANGE * 2)
+        counts[Math.max(0, Math.min(bins - 1, Math.floor(unit * bins)))] += 1
+    }
+    return counts
+}
+
+/** False colour for a facet from its strain and shear, used in place of the glow. */
+export function heatColor(frame: SimulationFrame, facet: number, out?: RgbOut): Rgb {
+    const strain = frame.facetStrain[facet]
+    const shear = frame.facetSignal[facet] - strain * FACET_STRAIN_WEIGHT
+    return sampleRamp(HEAT_STOPS, Math.hypot(strain / HEAT_STRAIN, shear / HEAT_SHEAR), out)
+}
+
+/** The node nearest (x, y) in lattice space, if one lies within `radius`. */
+export function inspectNode(frame: SimulationFrame, x: number, y: number, radius: number): NodeInspection | null {
+    const { count, bx, by, vx, vy } = frame.nodes
+    let nearest = -1
+    let nearestSq = radius * radius
+    for (let i = 0; i < count; i += 1) {
+        const dx = frame.nodes.x[i] - x
+        const dy = frame.nodes.y[i] - y
+        const distanceSq = dx * dx + dy * dy
+        if (distanceSq > nearestSq) continue
+        nearest = i
+        nearestSq = distanceSq
+    }
+    if (nearest < 0) return null
+    return {
+        index: nearest,
+        bx: bx[nearest],
+        by: by[nearest],
+        displacement: Math.hypot(frame.nodes.x[nearest] - bx[nearest], frame.nodes.y[nearest] - by[nearest]),
+        vx: vx[nearest],
+        vy: vy[nearest]
+    }
+}
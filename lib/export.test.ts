@@ -0,0 +1,81 @@
+import { paintScene, sceneSequence, sceneToSvg } from "@/lib/export"
+import { HELIOS_PALETTE } from "@/lib/palette"
+import { buildScene } from "@/lib/scene"
+import { createSimulation, type StepInput } from "@/lib/simulation"
+import { describe, expect, test, vi } from "vitest"
+
+function foldedSimulation() {
+    const simulation = createSimulation({ width: 320, height: 200, seed: 4 })
+    for (let i = 0; i < 40; i += 1) {
+        simulation.step({
+            pointers: [{ id: 1, x: Math.cos(i * 0.2) * 60, y: Math.sin(i * 0.2) * 40, pressed: true, touch: false }]
+        })
+    }
+    return simulation
+}
+
+describe("lattice export", () => {
+    test("writes facets, lines and nodes as vector SVG", () => {
+        const scene = buildScene(foldedSimulation().frame(), 1, HELIOS_PALETTE)
+        const svg = sceneToSvg(scene)
+
+        expect(scene.facets.length).toBeGreaterThan(0)
+        expect(svg.startsWith("<svg")).toBe(true)
+        expect(svg).toContain('viewBox="-160 -100 320 200"')
+        expect(svg.match(/<polygon /g)).toHaveLength(scene.facets.length)
+        expect(svg.match(/<line /g)).toHaveLength(scene.lines.length)
+        expect(svg.match(/<rect /g)).toHaveLength(scene.squares.length + 1)
+    })
+
+    test("produces the same frame sequence on every run", () => {
+        const snapshot = foldedSimulation().snapshot()
+        const input = (tick: number): StepInput => ({
+            pointers: [{ id: 2, x: tick * 3, y: 0, pressed: tick < 10, touch: true }]
+        })
+        const first = Array.from(sceneSequence(snapshot, { frames: 4, stepsPerFrame: 3, palette: HELIOS_PALETTE, input }))
+        const second = Array.from(sceneSequence(snapshot, { frames: 4, stepsPerFrame: 3, palette: HELIOS_PALETTE, input }))
+
+        expect(first).toHaveLength(4)
+        expect(second).toEqual(first)
+        expect(first[3]).not.toEqual(first[0])
+    })
+
+    test("carries on with the live physics, healing and fields", () => {
+        const live = createSimulation({ width: 320, height: 200, seed: 4, physics: { anchorK: 0.05, damping: 0.3 } })
+        live.setHealRate(0.4)
+        live.setField("breeze", { kind: "wind", x: 0, y: 0, strength: 0.05, angle: 1, plastic: true })
+        live.step({ pointers: [{ id: 1, x: 40, y: 10, pressed: true, touch: false }] })
+        const snapshot = live.snapshot()
+        const replay = live.replayState()
+
+        const exported = Array.from(sceneSequence(snapshot, { frames: 3, palette: HELIOS_PALETTE, replay }))
+        const shown = [0, 1, 2].map(() => {
+            live.step({ pointers: [] })
+            return buildScene(live.frame(), 1, HELIOS_PALETTE)
+        })
+
+        expect(exported).toEqual(shown)
+        expect(Array.from(sceneSequence(snapshot, { frames: 3, palette: HELIOS_PALETTE }))).not.toEqual(shown)
+    })
+
+    test("paints in output pixels chosen by scale, not by screen density", () => {
+        const scene = buildScene(foldedSimulation().frame(), 1, HELIOS_PALETTE)
+        const context = {
+            setTransform: vi.fn(),
+            fillRect: vi.fn(),
+            beginPath: vi.fn(),
+            moveTo: vi.fn(),
+            lineTo: vi.fn(),
+            closePath: vi.fn(),
+            fill: vi.fn(),
+            stroke: vi.fn()
+        }
+
+        paintScene(context as unknown as CanvasRenderingContext2D, scene, 3)
+
+        expect(context.setTransform).toHaveBeenCalledWith(3, 0, 0, 3, 480, 300)
+        expect(context.fill).toHaveBeenCalledTimes(scene.facets.length)
+        expect(context.stroke).toHaveBeenCalledTimes(scene.lines.length)
+        expect(context.fillRect).toHaveBeenCalledTimes(scene.squares.length + 1)
+    })
+})
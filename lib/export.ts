@@ -0,0 +1,167 @@
+import type { GridPalette } from "@/lib/palette"
+import { buildScene, type Scene } from "@/lib/scene"
+import { createSimulation, type ReplayState, type StepInput } from "@/lib/simulation"
+import type { LatticeSnapshot } from "@/lib/snapshot"
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100)
+const formatColor = (color: readonly number[]) =>
+    `rgb(${Math.round(color[0])},${Math.round(color[1])},${Math.round(color[2])})`
+const formatAlpha = (alpha: number) => formatNumber(Math.max(0, Math.min(255, alpha)) / 255)
+
+/**
+ * Writes a scene as standalone vector SVG: one polygon per glowing facet,
+ * one line per structural edge and one rect per node, with the same alpha
+ * the canvas uses. Units are CSS pixels, so it is resolution independent.
+ */
+export function sceneToSvg(scene: Scene) {
+    const { width, height } = scene
+    const parts = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(width)}" height="${formatNumber(height)}" viewBox="${formatNumber(-width * 0.5)} ${formatNumber(-height * 0.5)} ${formatNumber(width)} ${formatNumber(height)}">`,
+        `<rect x="${formatNumber(-width * 0.5)}" y="${formatNumber(-height * 0.5)}" width="${formatNumber(width)}" height="${formatNumber(height)}" fill="${formatColor(scene.background)}"/>`,
+        "<g>"
+    ]
+    for (const facet of scene.facets) {
+        const points: string[] = []
+        for (let k = 0; k < facet.points.length; k += 2) {
+            points.push(`${formatNumber(facet.points[k])},${formatNumber(facet.points[k + 1])}`)
+        }
+        parts.push(
+            `<polygon points="${points.join(" ")}" fill="${formatColor(facet.color)}" fill-opacity="${formatAlpha(facet.alpha)}"/>`
+        )
+    }
+    parts.push(
+        `</g><g stroke="${formatColor(scene.lineColor)}" stroke-width="${formatNumber(scene.lineWidth)}" stroke-linecap="round">`
+    )
+    for (const line of scene.lines) {
+        parts.push(
+            `<line x1="${formatNumber(line.x1)}" y1="${formatNumber(line.y1)}" x2="${formatNumber(line.x2)}" y2="${formatNumber(line.y2)}" stroke-opacity="${formatAlpha(line.alpha)}"/>`
+        )
+    }
+    parts.push("</g><g>")
+    for (const square of scene.squares) {
+        parts.push(
+            `<rect x="${formatNumber(square.x)}" y="${formatNumber(square.y)}" width="${formatNumber(square.size)}" height="${formatNumber(square.size)}" fill="${formatColor(square.color)}" fill-opacity="${formatAlpha(square.alpha)}"/>`
+        )
+    }
+    parts.push("</g></svg>")
+    return parts.join("\n")
+}
+
+/** A page canvas context, or an OffscreenCanvas one inside a worker. */
+export type PaintContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+/**
+ * Paints a scene onto a 2D canvas context. `scale` maps CSS pixels to
+ * output pixels, so the result depends only on the requested size.
+ */
+export function paintScene(context: PaintContext, scene: Scene, scale: number) {
+    context.setTransform(scale, 0, 0, scale, scene.width * 0.5 * scale, scene.height * 0.5 * scale)
+    context.globalAlpha = 1
+    context.fillStyle = formatColor(scene.background)
+    context.fillRect(-scene.width * 0.5, -scene.height * 0.5, scene.width, scene.height)
+
+    for (const facet of scene.facets) {
+        context.globalAlpha = facet.alpha / 255
+        context.fillStyle = formatColor(facet.color)
+        context.beginPath()
+        context.moveTo(facet.points[0], facet.points[1])
+        for (let k = 2; k < facet.points.length; k += 2) context.lineTo(facet.points[k], facet.points[k + 1])
+        context.closePath()
+        context.fill()
+    }
+
+    context.strokeStyle = formatColor(scene.lineColor)
+    context.lineWidth = scene.lineWidth
+    context.lineCap = "round"
+    for (const line of scene.lines) {
+        context.globalAlpha = line.alpha / 255
+        context.beginPath()
+        context.moveTo(line.x1, line.y1)
+        context.lineTo(line.x2, line.y2)
+        context.stroke()
+    }
+
+    for (const square of scene.squares) {
+        context.globalAlpha = square.alpha / 255
+        context.fillStyle = formatColor(square.color)
+        context.fillRect(square.x, square.y, square.size, square.size)
+    }
+    context.globalAlpha = 1
+}
+
+export type SequenceOptions = {
+    frames: number
+    palette: GridPalette
+    /** Simulation ticks between exported frames. */
+    stepsPerFrame?: number
+    /** Input for each tick; defaults to no pointers so the lattice settles and breathes. */
+    input?: (tick: number) => StepInput
+    /** Physics, heal rate, fields and morph of the live lattice, so frames carry on the way it would. */
+    replay?: ReplayState
+}
+
+/**
+ * Steps a fresh headless simulation from `snapshot` and yields one scene per
+ * frame. The same snapshot and options always produce the same scenes.
+ */
+export function* sceneSequence(snapshot: LatticeSnapshot, options: SequenceOptions) {
+    const simulation = createSimulation({
+        width: snapshot.width,
+        height: snapshot.height,
+        seed: snapshot.seed,
+        geometry: snapshot.geometry,
+        physics: options.replay?.physics,
+        healRate: options.replay?.healRate
+    })
+    simulation.restore(snapshot, options.replay)
+    const stepsPerFrame = Math.max(1, Math.floor(options.stepsPerFrame ?? 1))
+    let tick = 0
+    for (let frame = 0; frame < options.frames; frame += 1) {
+        for (let s = 0; s < stepsPerFrame; s += 1) {
+            simulation.step(options.input?.(tick) ?? { pointers: [] })
+            tick += 1
+        }
+        yield buildScene(simulation.frame(), 1, options.palette)
+    }
+}
+
+/** Creates an export canvas; workers have no document, so they get an OffscreenCanvas. */
+function createExportCanvas(width: number, height: number) {
+    if (typeof document === "undefined") {
+        const canvas = new OffscreenCanvas(width, height)
+        const context = canvas.getContext("2d")
+        if (!context) throw new Error("Canvas 2D is not available")
+        return { context, toPng: () => canvas.convertToBlob({ type: "image/png" }) }
+    }
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext("2d")
+    if (!context) throw new Error("Canvas 2D is not available")
+    return {
+        context,
+        toPng: () =>
+            new Promise<Blob>((resolve, reject) =>
+                canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png")
+            )
+    }
+}
+
+/**
+ * Renders `sceneSequence` to PNG blobs `width` pixels wide, keeping the
+ * lattice's aspect ratio. Runs offline, independent of the on-screen canvas.
+ */
+export async function renderPngSequence(
+    snapshot: LatticeSnapshot,
+    options: SequenceOptions & { width: number }
+): Promise<Blob[]> {
+    const scale = options.width / snapshot.width
+    const { context, toPng } = createExportCanvas(Math.round(options.width), Math.round(snapshot.height * scale))
+
+    const blobs: Blob[] = []
+    for (const scene of sceneSequence(snapshot, options)) {
+        paintScene(context, scene, scale)
+        blobs.push(await toPng())
+    }
+    return blobs
+}
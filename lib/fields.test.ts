@@ -0,0 +1,53 @@
+import { sampleField, type ForceField } from "@/lib/fields"
+import { createNoise } from "@/lib/noise"
+import { describe, expect, test } from "vitest"
+
+const noise = createNoise(1)
+
+function forceAt(field: ForceField, x: number, y: number, seconds = 0) {
+    const out = { x: 0, y: 0 }
+    const influence = sampleField(field, noise, x, y, seconds, out)
+    return { ...out, influence }
+}
+
+describe("force fields", () => {
+    test("attractors pull toward their centre and repulsors push away", () => {
+        const attractor = forceAt({ kind: "attractor", x: 0, y: 0, radius: 100, strength: 1 }, 50, 0)
+        const repulsor = forceAt({ kind: "repulsor", x: 0, y: 0, radius: 100, strength: 1 }, 50, 0)
+
+        expect(attractor.x).toBeLessThan(0)
+        expect(repulsor.x).toBeGreaterThan(0)
+        expect(attractor.influence).toBeCloseTo(0.25, 9)
+        expect(forceAt({ kind: "attractor", x: 0, y: 0, radius: 100, strength: 1 }, 150, 0).influence).toBe(0)
+    })
+
+    test("vortices swirl tangentially in the direction of their spin", () => {
+        const counter = forceAt({ kind: "vortex", x: 0, y: 0, radius: 100, strength: 1 }, 50, 0)
+        const clockwise = forceAt({ kind: "vortex", x: 0, y: 0, radius: 100, strength: 1, spin: -1 }, 50, 0)
+
+        expect(counter.x).toBeCloseTo(0, 9)
+        expect(counter.y).toBeGreaterThan(0)
+        expect(clockwise.y).toBeLessThan(0)
+    })
+
+    test("wind blows everywhere along its angle and follows its time function", () => {
+        const wind: ForceField = {
+            kind: "wind",
+            x: 0,
+            y: 0,
+            strength: 2,
+            angle: Math.PI / 2,
+            modulate: (seconds) => (seconds < 1 ? 1 : 0)
+        }
+
+        expect(forceAt(wind, 5000, -5000).y).toBeCloseTo(2, 9)
+        expect(forceAt(wind, 0, 0, 2).y).toBe(0)
+    })
+
+    test("noise flow varies across the lattice", () => {
+        const flow: ForceField = { kind: "noise", x: 0, y: 0, strength: 1, scale: 60 }
+        const samples = [0, 90, 180, 270].map((x) => forceAt(flow, x, 40))
+
+        expect(new Set(samples.map((sample) => sample.x.toFixed(6))).size).toBeGreaterThan(1)
+    })
+})
@@ -0,0 +1,93 @@
+import type { NoiseFn } from "@/lib/noise"
+
+export type ForceFieldKind = "attractor" | "repulsor" | "vortex" | "wind" | "noise"
+
+/**
+ * An external force acting on the lattice. Positions and radii are in
+ * lattice space (origin at the viewport centre); strength is an
+ * acceleration per tick at the field's centre.
+ */
+export type ForceField = {
+    kind: ForceFieldKind
+    x: number
+    y: number
+    /** Reach of the field; wind and noise fields cover everything by default. */
+    radius?: number
+    strength: number
+    /** Scales the strength over time, given the simulated time in seconds. */
+    modulate?: (seconds: number) => number
+    /** Wind direction in radians. */
+    angle?: number
+    /** Noise feature size in pixels for curl-noise flow. */
+    scale?: number
+    /** Negative spin turns vortices clockwise. */
+    spin?: number
+    /** Also bends rest positions, like a pressed pointer, instead of only springing back. */
+    plastic?: boolean
+}
+
+const DEFAULT_NOISE_SCALE = 180
+/** Finite-difference step for the curl, in noise units. */
+const CURL_EPSILON = 0.01
+
+/**
+ * Writes the field's acceleration at (x, y) into `out` and returns its
+ * influence in [0, 1], which also weights plastic fields.
+ */
+export function sampleField(
+    field: ForceField,
+    noise: NoiseFn,
+    x: number,
+    y: number,
+    seconds: number,
+    out: { x: number; y: number }
+) {
+    out.x = 0
+    out.y = 0
+    const radius = field.radius ?? (field.kind === "wind" || field.kind === "noise" ? Infinity : 0)
+    const dx = x - field.x
+    const dy = y - field.y
+    const d = Math.hypot(dx, dy)
+    if (d >= radius) return 0
+
+    const influence = radius === Infinity ? 1 : (1 - d / radius) ** 2
+    const strength = field.strength * influence * (field.modulate?.(seconds) ?? 1)
+    if (strength === 0) return 0
+
+    switch (field.kind) {
+        case "attractor":
+        case "repulsor": {
+            if (d === 0) return influence
+            const direction = field.kind === "attractor" ? -1 : 1
+            out.x = (dx / d) * strength * direction
+            out.y = (dy / d) * strength * direction
+            break
+        }
+        case "vortex": {
+            if (d === 0) return influence
+            const spin = Math.sign(field.spin ?? 1) || 1
+            out.x = (-dy / d) * strength * spin
+            out.y = (dx / d) * strength * spin
+            break
+        }
+        case "wind": {
+            const angle = field.angle ?? 0
+            out.x = Math.cos(angle) * strength
+            out.y = Math.sin(angle) * strength
+            break
+        }
+        case "noise": {
+            // Curl of a drifting scalar noise: divergence-free, so it swirls
+            // the mesh without bunching it up.
+            const scale = field.scale ?? DEFAULT_NOISE_SCALE
+            const nx = x / scale + seconds * 0.05
+            const ny = y / scale
+            const dNdx = (noise(nx + CURL_EPSILON, ny) - noise(nx - CURL_EPSILON, ny)) / (2 * CURL_EPSILON)
+            const dNdy = (noise(nx, ny + CURL_EPSILON) - noise(nx, ny - CURL_EPSILON)) / (2 * CURL_EPSILON)
+            out.x = dNdy * strength
+            out.y = -dNdx * strength
+            break
+        }
+    }
+    return influence
+}
@@ -0,0 +1,63 @@
+import { deleteSculpture, fetchSculpture, parseSculptureInput, saveSculpture, type SculptureInput } from "@/lib/gallery"
+import { createSimulation } from "@/lib/simulation"
+import { afterEach, describe, expect, test, vi } from "vitest"
+
+const THUMBNAIL = "data:image/png;base64,iVBORw0KGgo="
+
+function input(overrides: Record<string, unknown> = {}) {
+    return {
+        name: "  Folded sail ",
+        theme: "daylight",
+        physics: { anchorK: 0.05 },
+        snapshot: createSimulation({ width: 200, height: 120, seed: 3 }).snapshot(),
+        thumbnail: THUMBNAIL,
+        ...overrides
+    }
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+})
+
+describe("gallery", () => {
+    test("accepts a named sculpture and rejects anything it could not load back", () => {
+        const parsed = parseSculptureInput(input())
+        expect(parsed.name).toBe("Folded sail")
+        expect(parsed.physics).toEqual({ anchorK: 0.05 })
+        expect(parseSculptureInput(input({ physics: undefined })).physics).toEqual({})
+
+        expect(() => parseSculptureInput(input({ name: " " }))).toThrow("needs a name")
+        expect(() => parseSculptureInput(input({ name: "x".repeat(81) }))).toThrow("at most 80")
+        expect(() => parseSculptureInput(input({ theme: "neon" }))).toThrow("Unknown theme")
+        expect(() => parseSculptureInput(input({ physics: { warp: 1 } }))).toThrow("Unknown physics field")
+        expect(() => parseSculptureInput(input({ physics: { anchorK: "1" } }))).toThrow("must be a number")
+        expect(() => parseSculptureInput(input({ thumbnail: "data:image/jpeg;base64,AA" }))).toThrow("PNG")
+        expect(() => parseSculptureInput(input({ snapshot: { version: 9 } }))).toThrow("snapshot version")
+    })
+
+    test("talks to the gallery API and surfaces its errors", async () => {
+        const fetch = vi.fn(async (url: string, init?: RequestInit) => {
+            if (init?.method === "DELETE") return Response.json({ error: "No such sculpture" }, { status: 404 })
+            return Response.json({ id: "a1", url })
+        })
+        vi.stubGlobal("fetch", fetch)
+
+        await saveSculpture(input() as SculptureInput)
+        expect(fetch).toHaveBeenLastCalledWith("/api/gallery/", expect.objectContaining({ method: "POST" }))
+        expect(await fetchSculpture("a/1")).toEqual({ id: "a1", url: "/api/gallery/a%2F1/" })
+        await expect(deleteSculpture("a1")).rejects.toThrow("No such sculpture")
+    })
+
+    test("prefixes the API and the gallery page with the base path", async () => {
+        vi.stubEnv("NEXT_PUBLIC_BASE_PATH", "/grid-research")
+        vi.resetModules()
+        const fetch = vi.fn(async () => Response.json([]))
+        vi.stubGlobal("fetch", fetch)
+        const gallery = await import("@/lib/gallery")
+
+        expect(gallery.GALLERY_PAGE).toBe("/grid-research/gallery/")
+        await gallery.listSculptures()
+        expect(fetch).toHaveBeenLastCalledWith("/grid-research/api/gallery/", undefined)
+    })
+})
@@ -0,0 +1,123 @@
+import { DEFAULT_PHYSICS, type PhysicsConfig } from "@/lib/simulation"
+import { parseSnapshot, type LatticeSnapshot } from "@/lib/snapshot"
+import { THEME_CHOICES, type ThemeChoice } from "@/lib/themes"
+
+/**
+ * Whether this build has the gallery's API routes and page. Off by default,
+ * which keeps `output: "export"` static builds working.
+ */
+export const GALLERY_ENABLED = process.env.NEXT_PUBLIC_GALLERY === "true"
+
+/** The app's `basePath` from `next.config.mjs`, which links and fetches outside `next/link` must carry. */
+export const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH ?? ""
+export const GALLERY_API = `${BASE_PATH}/api/gallery`
+export const GALLERY_PAGE = `${BASE_PATH}/gallery/`
+export const MAX_NAME_LENGTH = 80
+/** Thumbnails are PNG data URLs of at most this many characters. */
+export const MAX_THUMBNAIL_LENGTH = 512 * 1024
+/** Width of the thumbnail rendered when saving. */
+export const THUMBNAIL_WIDTH = 320
+
+/** What a client sends to save a sculpture. */
+export type SculptureInput = {
+    name: string
+    theme: ThemeChoice
+    physics: Partial<PhysicsConfig>
+    snapshot: LatticeSnapshot
+    thumbnail: string
+}
+
+export type Sculpture = SculptureInput & {
+    id: string
+    /** ISO 8601 timestamp. */
+    createdAt: string
+}
+
+/** A gallery listing entry, without the heavy snapshot. */
+export type SculptureSummary = Omit<Sculpture, "snapshot">
+
+/** Storage behind the gallery API; Prisma in the app, anything in tests. */
+export type GalleryStore = {
+    /** Newest first. */
+    list: () => Promise<SculptureSummary[]>
+    create: (input: SculptureInput) => Promise<Sculpture>
+    fetch: (id: string) => Promise<Sculpture | null>
+    /** Returns false when there was no such sculpture. */
+    remove: (id: string) => Promise<boolean>
+}
+
+function parsePhysics(input: unknown): Partial<PhysicsConfig> {
+    if (input === undefined) return {}
+    if (!input || typeof input !== "object") throw new Error("Physics must be an object")
+    const physics: Partial<PhysicsConfig> = {}
+    for (const [key, value] of Object.entries(input)) {
+        if (!(key in DEFAULT_PHYSICS)) throw new Error(`Unknown physics field: ${key}`)
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+            throw new Error(`Physics field "${key}" must be a number`)
+        }
+        physics[key as keyof PhysicsConfig] = value
+    }
+    return physics
+}
+
+/** Validates untrusted input (a request body) as a sculpture to save. */
+export function parseSculptureInput(input: unknown): SculptureInput {
+    if (!input || typeof input !== "object") throw new Error("Sculpture must be a JSON object")
+    const data = input as Record<string, unknown>
+    const name = typeof data.name === "string" ? data.name.trim() : ""
+    if (!name) throw new Error("Sculpture needs a name")
+    if (name.length > MAX_NAME_LENGTH) throw new Error(`Sculpture names are at most ${MAX_NAME_LENGTH} characters`)
+    if (!THEME_CHOICES.includes(data.theme as ThemeChoice)) throw new Error(`Unknown theme: ${String(data.theme)}`)
+    const thumbnail = data.thumbnail
+    if (typeof thumbnail !== "string" || !thumbnail.startsWith("data:image/png;base64,")) {
+        throw new Error("Thumbnail must be a PNG data URL")
+    }
+    if (thumbnail.length > MAX_THUMBNAIL_LENGTH) throw new Error("Thumbnail is too large")
+    return {
+        name,
+        theme: data.theme as ThemeChoice,
+        physics: parsePhysics(data.physics),
+        snapshot: parseSnapshot(data.snapshot),
+        thumbnail
+    }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    // Trailing slashes match `trailingSlash: true` and skip a redirect.
+    const response = await fetch(`${GALLERY_API}${path}/`, init)
+    if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { error?: string } | null
+        throw new Error(body?.error ?? `Gallery request failed with ${response.status}`)
+    }
+    return (await response.json()) as T
+}
+
+export function listSculptures() {
+    return request<SculptureSummary[]>("")
+}
+
+export function saveSculpture(input: SculptureInput) {
+    return request<Sculpture>("", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input)
+    })
+}
+
+export function fetchSculpture(id: string) {
+    return request<Sculpture>(`/${encodeURIComponent(id)}`)
+}
+
+export async function deleteSculpture(id: string) {
+    await request<{ deleted: true }>(`/${encodeURIComponent(id)}`, { method: "DELETE" })
+}
+
+/** Reads a rendered frame as a data URL for storing as a thumbnail. */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(String(reader.result))
+        reader.onerror = () => reject(reader.error ?? new Error("Could not read the thumbnail"))
+        reader.readAsDataURL(blob)
+    })
+}
@@ -0,0 +1,35 @@
+import { createHistory } from "@/lib/history"
+import { describe, expect, test } from "vitest"
+
+describe("bounded history", () => {
+    test("walks back and forward through pushed steps", () => {
+        const history = createHistory<{ bytes: number; id: string }>(100)
+        history.push({ bytes: 10, id: "a" })
+        history.push({ bytes: 10, id: "b" })
+
+        expect(history.undo()?.id).toBe("b")
+        expect(history.undo()?.id).toBe("a")
+        expect(history.undo()).toBeNull()
+        expect(history.redo()?.id).toBe("a")
+    })
+
+    test("drops the redo branch when a new step is pushed", () => {
+        const history = createHistory<{ bytes: number; id: string }>(100)
+        history.push({ bytes: 10, id: "a" })
+        history.undo()
+        history.push({ bytes: 10, id: "b" })
+
+        expect(history.redo()).toBeNull()
+        expect(history.size()).toBe(10)
+    })
+
+    test("forgets the oldest steps to stay within its byte budget", () => {
+        const history = createHistory<{ bytes: number; id: string }>(25)
+        for (const id of ["a", "b", "c"]) history.push({ bytes: 10, id })
+
+        expect(history.size()).toBe(20)
+        expect(history.undo()?.id).toBe("c")
+        expect(history.undo()?.id).toBe("b")
+        expect(history.undo()).toBeNull()
+    })
+})
@@ -0,0 +1,62 @@
+export type HistoryEntry = {
+    /** Approximate memory held by the entry, counted against the budget. */
+    bytes: number
+}
+
+export type History<T extends HistoryEntry> = {
+    /** Records a new step and drops anything that could have been redone. */
+    push: (entry: T) => void
+    /** Moves one step back and returns it, or null when nothing is left. */
+    undo: () => T | null
+    /** Moves one step forward again and returns it, or null at the newest step. */
+    redo: () => T | null
+    clear: () => void
+    /** Bytes currently held across undo and redo steps. */
+    size: () => number
+}
+
+/**
+ * Linear undo/redo stack bounded by memory rather than step count. When a
+ * push goes over budget the oldest undo steps are forgotten first.
+ */
+export function createHistory<T extends HistoryEntry>(budgetBytes: number): History<T> {
+    let past: T[] = []
+    let future: T[] = []
+    let bytes = 0
+
+    function push(entry: T) {
+        for (const dropped of future) bytes -= dropped.bytes
+        future = []
+        if (entry.bytes > budgetBytes) {
+            clear()
+            return
+        }
+        past.push(entry)
+        bytes += entry.bytes
+        while (bytes > budgetBytes) {
+            const oldest = past.shift()
+            if (!oldest) break
+            bytes -= oldest.bytes
+        }
+    }
+
+    function undo() {
+        const entry = past.pop() ?? null
+        if (entry) future.push(entry)
+        return entry
+    }
+
+    function redo() {
+        const entry = future.pop() ?? null
+        if (entry) past.push(entry)
+        return entry
+    }
+
+    function clear() {
+        past = []
+        future = []
+        bytes = 0
+    }
+
+    return { push, undo, redo, clear, size: () => bytes }
+}
@@ -0,0 +1,63 @@
+import { buildLattice, LATTICE_GEOMETRIES } from "@/lib/lattices"
+import { createSimulation } from "@/lib/simulation"
+import { describe, expect, test } from "vitest"
+
+describe("lattice generators", () => {
+    test.each(LATTICE_GEOMETRIES.map((definition) => definition.id))(
+        "%s lattice closes every facet with existing edges",
+        (geometry) => {
+            const layout = buildLattice(geometry, 640, 400)
+            const pairs = new Set(
+                layout.edges.map(({ a, b }) => `${Math.min(a, b)}:${Math.max(a, b)}`)
+            )
+            const nodeCount = layout.positions.length / 2
+
+            const openSides = layout.facets.flatMap((corners) =>
+                corners.filter((a, k) => {
+                    const b = corners[(k + 1) % corners.length]
+                    return !pairs.has(`${Math.min(a, b)}:${Math.max(a, b)}`)
+                })
+            )
+
+            expect(layout.facets.length).toBeGreaterThan(0)
+            expect(openSides).toEqual([])
+            expect(layout.edges.every(({ a, b }) => a < nodeCount && b < nodeCount)).toBe(true)
+        }
+    )
+
+    test("builds triangles and hexagons for the non-rectangular meshes", () => {
+        expect(buildLattice("triangular", 640, 400).facets[0]).toHaveLength(3)
+        expect(buildLattice("hexagonal", 640, 400).facets[0]).toHaveLength(6)
+    })
+
+    test("keeps radial cells about one spacing wide from the hub to the rim", () => {
+        const layout = buildLattice("radial", 1280, 800)
+        const { positions, spacingX } = layout
+        const lengths = layout.edges
+            .filter(({ kind }) => kind === "structural")
+            .map(({ a, b }) =>
+                Math.hypot(positions[b * 2] - positions[a * 2], positions[b * 2 + 1] - positions[a * 2 + 1])
+            )
+
+        expect(layout.cols).toBeGreaterThan(100)
+        expect(Math.min(...lengths) / spacingX).toBeGreaterThan(0.74)
+        expect(Math.max(...lengths) / spacingX).toBeLessThan(1.5)
+    })
+
+    test.each(["triangular", "hexagonal", "radial"] as const)(
+        "keeps the %s mesh at rest and glows once it is sheared",
+        (geometry) => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 3, geometry })
+            simulation.step({ pointers: [] })
+            const resting = Math.max(...Array.from(simulation.frame().facetSignal, Math.abs))
+            for (let i = 0; i < 40; i += 1) {
+                simulation.step({
+                    pointers: [{ id: 1, x: i * 4, y: i * 2, pressed: true, touch: false }]
+                })
+            }
+
+            expect(resting).toBeLessThan(0.05)
+            expect(Math.max(...simulation.frame().facetGlow)).toBeGreaterThan(0.05)
+        }
+    )
+})
@@ -0,0 +1,301 @@
+import type { EdgeKind } from "@/lib/simulation"
+
+export type LatticeGeometry = "rectangular" | "triangular" | "hexagonal" | "radial"
+
+export const LATTICE_GEOMETRIES: readonly { id: LatticeGeometry; label: string }[] = [
+    { id: "rectangular", label: "Grid" },
+    { id: "triangular", label: "Tri" },
+    { id: "hexagonal", label: "Hex" },
+    { id: "radial", label: "Polar" }
+]
+
+export const DEFAULT_GEOMETRY: LatticeGeometry = "rectangular"
+
+/**
+ * Geometry-only description of a mesh: rest positions, connectivity and
+ * facets. The simulation turns it into springs and constraints.
+ */
+export type LatticeLayout = {
+    geometry: LatticeGeometry
+    /** Generator grid size: rows × columns, or rings × outer-ring spokes for radial meshes. */
+    cols: number
+    rows: number
+    spacingX: number
+    spacingY: number
+    positions: Float64Array
+    edges: { a: number; b: number; kind: EdgeKind }[]
+    /** Corner node indices of each facet in winding order. */
+    facets: number[][]
+}
+
+/** Share of the viewport the mesh extends past each edge, at least; small viewports overscan eight cells. */
+export const OVERSCAN = 0.45
+
+type Extent = {
+    spacingX: number
+    spacingY: number
+    totalWidth: number
+    totalHeight: number
+}
+
+/**
+ * Responsive cell size for a viewport, plus the overscanned area the mesh
+ * must cover so folds never pull an empty edge into view.
+ */
+function measure(width: number, height: number): Extent {
+    const unit = Math.min(width, height)
+    const area = width * height
+    const baselineArea = 1440 * 900
+    const densityScale = Math.pow(area / baselineArea, 0.1)
+    const baseSpacing = Math.max(15, Math.min(42, Math.floor(unit / 28)))
+    const responsiveSpacing = Math.max(
+        14,
+        Math.min(46, baseSpacing / densityScale)
+    )
+
+    const aspect = width / Math.max(1, height)
+    const baselineAspect = 16 / 10
+    const aspectInfluence = Math.max(
+        -0.16,
+        Math.min(0.16, (aspect - baselineAspect) * 0.16)
+    )
+    const sizeInfluence = Math.max(
+        -0.08,
+        Math.min(0.08, (unit - 920) / 4200)
+    )
+    const cellRatio = Math.max(
+        0.82,
+        Math.min(1.22, 1 + aspectInfluence + sizeInfluence)
+    )
+
+    const spacingX = responsiveSpacing * cellRatio
+    const spacingY = responsiveSpacing / cellRatio
+
+    const overscanX = Math.max(spacingX * 8, width * OVERSCAN)
+    const overscanY = Math.max(spacingY * 8, height * OVERSCAN)
+    return {
+        spacingX,
+        spacingY,
+        totalWidth: width + overscanX * 2,
+        totalHeight: height + overscanY * 2
+    }
+}
+
+function rectangular({ spacingX, spacingY, totalWidth, totalHeight }: Extent): LatticeLayout {
+    const cols = Math.floor(totalWidth / spacingX) + 1
+    const rows = Math.floor(totalHeight / spacingY) + 1
+    const startX = -((cols - 1) * spacingX) * 0.5
+    const startY = -((rows - 1) * spacingY) * 0.5
+    const indexOf = (r: number, c: number) => r * cols + c
+
+    const positions = new Float64Array(cols * rows * 2)
+    const edges: LatticeLayout["edges"] = []
+    const facets: number[][] = []
+    for (let r = 0; r < rows; r += 1) {
+        for (let c = 0; c < cols; c += 1) {
+            const i = indexOf(r, c)
+            positions[i * 2] = startX + c * spacingX
+            positions[i * 2 + 1] = startY + r * spacingY
+            if (c + 1 < cols) edges.push({ a: i, b: indexOf(r, c + 1), kind: "structural" })
+            if (r + 1 < rows) edges.push({ a: i, b: indexOf(r + 1, c), kind: "structural" })
+            if (c + 1 < cols && r + 1 < rows) {
+                edges.push({ a: i, b: indexOf(r + 1, c + 1), kind: "shear" })
+            }
+            if (c > 0 && r + 1 < rows) edges.push({ a: i, b: indexOf(r + 1, c - 1), kind: "shear" })
+            if (c + 1 < cols && r + 1 < rows) {
+                facets.push([i, indexOf(r, c + 1), indexOf(r + 1, c + 1), indexOf(r + 1, c)])
+            }
+        }
+    }
+
+    return { geometry: "rectangular", cols, rows, spacingX, spacingY, positions, edges, facets }
+}
+
+function triangular(extent: Extent): LatticeLayout {
+    const spacing = Math.sqrt(extent.spacingX * extent.spacingY)
+    const rowHeight = spacing * (Math.sqrt(3) / 2)
+    const cols = Math.floor(extent.totalWidth / spacing) + 1
+    const rows = Math.floor(extent.totalHeight / rowHeight) + 1
+    const startX = -((cols - 0.5) * spacing) * 0.5
+    const startY = -((rows - 1) * rowHeight) * 0.5
+    const indexOf = (r: number, c: number) => r * cols + c
+
+    const positions = new Float64Array(cols * rows * 2)
+    const edges: LatticeLayout["edges"] = []
+    const facets: number[][] = []
+    for (let r = 0; r < rows; r += 1) {
+        const odd = r % 2 === 1
+        for (let c = 0; c < cols; c += 1) {
+            const i = indexOf(r, c)
+            positions[i * 2] = startX + c * spacing + (odd ? spacing * 0.5 : 0)
+            positions[i * 2 + 1] = startY + r * rowHeight
+            if (c + 1 < cols) edges.push({ a: i, b: indexOf(r, c + 1), kind: "structural" })
+            if (r + 1 >= rows) continue
+
+            const lean = odd ? c + 1 : c - 1
+            edges.push({ a: i, b: indexOf(r + 1, c), kind: "structural" })
+            if (lean >= 0 && lean < cols) {
+                edges.push({ a: i, b: indexOf(r + 1, lean), kind: "structural" })
+            }
+            if (c + 1 >= cols) continue
+            if (odd) {
+                facets.push([i, indexOf(r, c + 1), indexOf(r + 1, c + 1)])
+                facets.push([i, indexOf(r + 1, c + 1), indexOf(r + 1, c)])
+            } else {
+                facets.push([i, indexOf(r, c + 1), indexOf(r + 1, c)])
+                facets.push([indexOf(r, c + 1), indexOf(r + 1, c + 1), indexOf(r + 1, c)])
+            }
+        }
+    }
+
+    return {
+        geometry: "triangular",
+        cols,
+        rows,
+        spacingX: spacing,
+        spacingY: spacing,
+        positions,
+        edges,
+        facets
+    }
+}
+
+/**
+ * Honeycomb built on a brick-wall index: every node links to its row
+ * neighbours, and vertical links alternate so each node has three edges.
+ * Constraint-only braces join second neighbours so hexagons cannot collapse.
+ */
+function hexagonal(extent: Extent): LatticeLayout {
+    // Side length that matches the rectangular grid's node density.
+    const side = Math.sqrt(extent.spacingX * extent.spacingY) * Math.sqrt(4 / (3 * Math.sqrt(3)))
+    const stepX = side * (Math.sqrt(3) / 2)
+    const stepY = side * 1.5
+    const cols = Math.floor(extent.totalWidth / stepX) + 1
+    const rows = Math.floor(extent.totalHeight / stepY) + 1
+    const startX = -((cols - 1) * stepX) * 0.5
+    const startY = -((rows - 1) * stepY + side * 0.5) * 0.5
+    const indexOf = (r: number, c: number) => r * cols + c
+    const raised = (r: number, c: number) => (r + c) % 2 === 0
+
+    const positions = new Float64Array(cols * rows * 2)
+    const edges: LatticeLayout["edges"] = []
+    const facets: number[][] = []
+    for (let r = 0; r < rows; r += 1) {
+        for (let c = 0; c < cols; c += 1) {
+            const i = indexOf(r, c)
+            positions[i * 2] = startX + c * stepX
+            positions[i * 2 + 1] = startY + r * stepY + (raised(r, c) ? side * 0.5 : 0)
+            if (c + 1 < cols) edges.push({ a: i, b: indexOf(r, c + 1), kind: "structural" })
+            if (r + 1 < rows && raised(r, c)) {
+                edges.push({ a: i, b: indexOf(r + 1, c), kind: "structural" })
+            }
+        }
+    }
+
+    for (let r = 0; r + 1 < rows; r += 1) {
+        for (let c = 0; c + 2 < cols; c += 1) {
+            if (!raised(r, c)) continue
+            const ring = [
+                indexOf(r, c),
+                indexOf(r, c + 1),
+                indexOf(r, c + 2),
+                indexOf(r + 1, c + 2),
+                indexOf(r + 1, c + 1),
+                indexOf(r + 1, c)
+            ]
+            facets.push(ring)
+            for (let k = 0; k < ring.length; k += 1) {
+                edges.push({ a: ring[k], b: ring[(k + 2) % ring.length], kind: "shear" })
+            }
+        }
+    }
+
+    return {
+        geometry: "hexagonal",
+        cols,
+        rows,
+        spacingX: side,
+        spacingY: side,
+        positions,
+        edges,
+        facets
+    }
+}
+
+/**
+ * Polar mesh of concentric rings joined by spokes around a single hub node.
+ * Node 0 is the hub and each ring's nodes follow the previous ring's. A ring
+ * doubles its inner neighbour's spokes once their arc passes 1.5 cells, so
+ * cells stay between 0.75 and 1.5 spacings wide from the hub to the rim.
+ */
+function radial(extent: Extent): LatticeLayout {
+    const spacing = Math.sqrt(extent.spacingX * extent.spacingY)
+    const maxRadius = Math.hypot(extent.totalWidth, extent.totalHeight) * 0.5
+    const rings = Math.ceil(maxRadius / spacing)
+    const spokes = [1, 6]
+    const starts = [0, 1]
+    for (let k = 2; k <= rings; k += 1) {
+        const inner = spokes[k - 1]
+        spokes.push((Math.PI * 2 * k) / inner > 1.5 ? inner * 2 : inner)
+        starts.push(starts[k - 1] + inner)
+    }
+    const indexOf = (k: number, j: number) => starts[k] + (((j % spokes[k]) + spokes[k]) % spokes[k])
+
+    const positions = new Float64Array((starts[rings] + spokes[rings]) * 2)
+    const edges: LatticeLayout["edges"] = []
+    const facets: number[][] = []
+    for (let k = 1; k <= rings; k += 1) {
+        const count = spokes[k]
+        const doubled = k > 1 && count !== spokes[k - 1]
+        for (let j = 0; j < count; j += 1) {
+            const i = indexOf(k, j)
+            const angle = (j / count) * Math.PI * 2
+            positions[i * 2] = Math.cos(angle) * k * spacing
+            positions[i * 2 + 1] = Math.sin(angle) * k * spacing
+            edges.push({ a: i, b: indexOf(k, j + 1), kind: "structural" })
+            if (k === 1) {
+                edges.push({ a: 0, b: i, kind: "structural" })
+                facets.push([0, i, indexOf(k, j + 1)])
+                continue
+            }
+            if (!doubled) {
+                edges.push({ a: indexOf(k - 1, j), b: i, kind: "structural" })
+                edges.push({ a: indexOf(k - 1, j), b: indexOf(k, j + 1), kind: "shear" })
+                edges.push({ a: indexOf(k - 1, j + 1), b: i, kind: "shear" })
+                facets.push([indexOf(k - 1, j), indexOf(k - 1, j + 1), indexOf(k, j + 1), i])
+                continue
+            }
+            // Where the spokes double, each inner node fans out to a triangle and a quad.
+            if (j % 2 === 1) continue
+            const inner = j / 2
+            edges.push({ a: indexOf(k - 1, inner), b: i, kind: "structural" })
+            edges.push({ a: indexOf(k - 1, inner), b: indexOf(k, j + 1), kind: "structural" })
+            edges.push({ a: indexOf(k - 1, inner), b: indexOf(k, j + 2), kind: "shear" })
+            edges.push({ a: indexOf(k - 1, inner + 1), b: indexOf(k, j + 1), kind: "shear" })
+            facets.push([indexOf(k - 1, inner), indexOf(k, j + 1), i])
+            facets.push([indexOf(k - 1, inner), indexOf(k - 1, inner + 1), indexOf(k, j + 2), indexOf(k, j + 1)])
+        }
+    }
+
+    return {
+        geometry: "radial",
+        cols: spokes[rings],
+        rows: rings,
+        spacingX: spacing,
+        spacingY: spacing,
+        positions,
+        edges,
+        facets
+    }
+}
+
+const GENERATORS: Record<LatticeGeometry, (extent: Extent) => LatticeLayout> = {
+    rectangular,
+    triangular,
+    hexagonal,
+    radial
+}
+
+export function buildLattice(geometry: LatticeGeometry, width: number, height: number) {
+    return GENERATORS[geometry](measure(width, height))
+}
@@ -0,0 +1,71 @@
+const TABLE_SIZE = 256
+const TABLE_MASK = TABLE_SIZE - 1
+const OCTAVES = 4
+const FALLOFF = 0.5
+
+/**
+ * Small, fast 32-bit PRNG (mulberry32). The same seed always yields the same
+ * sequence, which is what keeps the lattice reproducible across runs.
+ */
+export function createRandom(seed: number) {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let z = state
+        z = Math.imul(z ^ (z >>> 15), z | 1)
+        z ^= z + Math.imul(z ^ (z >>> 7), z | 61)
+        return ((z ^ (z >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+/**
+ * Seeded 2D value noise with the same octave layout as `p5.noise`
+ * (4 octaves, 0.5 falloff), returning values in [0, 1).
+ */
+export function createNoise(seed: number) {
+    const random = createRandom(seed)
+    const values = new Float64Array(TABLE_SIZE)
+    const perm = new Uint8Array(TABLE_SIZE * 2)
+    for (let i = 0; i < TABLE_SIZE; i += 1) {
+        values[i] = random()
+        perm[i] = i
+    }
+    for (let i = TABLE_SIZE - 1; i > 0; i -= 1) {
+        const j = Math.floor(random() * (i + 1))
+        const swap = perm[i]
+        perm[i] = perm[j]
+        perm[j] = swap
+    }
+    for (let i = 0; i < TABLE_SIZE; i += 1) perm[i + TABLE_SIZE] = perm[i]
+
+    const lattice = (ix: number, iy: number) =>
+        values[perm[(perm[ix & TABLE_MASK] + iy) & TABLE_MASK]]
+    const fade = (t: number) => t * t * (3 - 2 * t)
+
+    const octave = (x: number, y: number) => {
+        const x0 = Math.floor(x)
+        const y0 = Math.floor(y)
+        const tx = fade(x - x0)
+        const ty = fade(y - y0)
+        const top = lattice(x0, y0) + (lattice(x0 + 1, y0) - lattice(x0, y0)) * tx
+        const bottom =
+            lattice(x0, y0 + 1) + (lattice(x0 + 1, y0 + 1) - lattice(x0, y0 + 1)) * tx
+        return top + (bottom - top) * ty
+    }
+
+    return (x: number, y = 0) => {
+        let sum = 0
+        let amplitude = 0.5
+        let frequency = 1
+        let total = 0
+        for (let i = 0; i < OCTAVES; i += 1) {
+            sum += octave(x * frequency, y * frequency) * amplitude
+            total += amplitude
+            amplitude *= FALLOFF
+            frequency *= 2
+        }
+        return sum / total
+    }
+}
+
+export type NoiseFn = ReturnType<typeof createNoise>
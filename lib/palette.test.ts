@@ -0,0 +1,33 @@
+import { facetColor, HELIOS_PALETTE, mixPalette, sampleRamp } from "@/lib/palette"
+import { describe, expect, test } from "vitest"
+
+describe("palette ramps", () => {
+    test("interpolates continuously between ramp stops", () => {
+        const ramp = [
+            [0, 0, 0],
+            [100, 200, 50]
+        ] as const
+
+        expect(sampleRamp(ramp, 0)).toEqual([0, 0, 0])
+        expect(sampleRamp(ramp, 0.25)).toEqual([25, 50, 12.5])
+        expect(sampleRamp(ramp, 2)).toEqual([100, 200, 50])
+    })
+
+    test("maps the facet signal across the ramp and lifts it with glow", () => {
+        const compressed = facetColor(HELIOS_PALETTE, -1, 0)
+        const stretched = facetColor(HELIOS_PALETTE, 1, 0)
+        const bright = facetColor(HELIOS_PALETTE, 1, 1)
+
+        expect(compressed[0]).toBeGreaterThan(stretched[0])
+        expect(stretched[2]).toBeGreaterThan(compressed[2])
+        expect(bright[0]).toBeGreaterThan(stretched[0])
+    })
+
+    test("blends whole palettes for theme transitions", () => {
+        const black = { ...HELIOS_PALETTE, background: [0, 0, 0] as const }
+        const white = { ...HELIOS_PALETTE, background: [255, 255, 255] as const }
+
+        expect(mixPalette(black, white, 0.5).background).toEqual([127.5, 127.5, 127.5])
+        expect(mixPalette(black, white, 1).signalRamp[0]).toEqual(HELIOS_PALETTE.signalRamp[0])
+    })
+})
@@ -0,0 +1,87 @@
+export type Rgb = readonly [number, number, number]
+
+/** Colours the renderer draws the lattice with. */
+export type GridPalette = {
+    background: Rgb
+    /** Structural lattice lines. */
+    line: Rgb
+    /** Node colours, blended over time per node. */
+    bodyWarm: Rgb
+    bodyCool: Rgb
+    /** Pinned node markers. */
+    pin: Rgb
+    /**
+     * Evenly spaced colour stops for the facet signal, from strongly negative
+     * (compressive shear) through rest in the middle to strongly positive.
+     */
+    signalRamp: readonly Rgb[]
+    /** Colour that the brightest facet glow lifts its ramp colour toward. */
+    glowPeak: Rgb
+}
+
+export const HELIOS_PALETTE: Readonly<GridPalette> = {
+    background: [12, 16, 30],
+    line: [245, 240, 219],
+    bodyWarm: [255, 220, 166],
+    bodyCool: [155, 226, 255],
+    pin: [255, 193, 120],
+    signalRamp: [
+        [255, 146, 92],
+        [255, 193, 120],
+        [236, 228, 206],
+        [126, 208, 255],
+        [88, 158, 255]
+    ],
+    glowPeak: [255, 248, 232]
+}
+
+/** How far the facet signal must swing to reach either end of the ramp. */
+const SIGNAL_SPAN = 0.35
+/** Ramps are resampled to this many stops when two palettes are blended. */
+const BLEND_STOPS = 9
+
+/** Writable colour for the `out` parameters that let per-frame code skip allocating. */
+export type RgbOut = [number, number, number]
+
+export function mixRgb(a: Rgb, b: Rgb, amount: number, out: RgbOut = [0, 0, 0]): Rgb {
+    out[0] = a[0] + (b[0] - a[0]) * amount
+    out[1] = a[1] + (b[1] - a[1]) * amount
+    out[2] = a[2] + (b[2] - a[2]) * amount
+    return out
+}
+
+/** Linearly interpolated colour at `t` in [0, 1] along a ramp. */
+export function sampleRamp(ramp: readonly Rgb[], t: number, out?: RgbOut): Rgb {
+    if (ramp.length === 1) return out ? mixRgb(ramp[0], ramp[0], 0, out) : ramp[0]
+    const position = Math.max(0, Math.min(1, t)) * (ramp.length - 1)
+    const index = Math.min(ramp.length - 2, Math.floor(position))
+    return mixRgb(ramp[index], ramp[index + 1], position - index, out)
+}
+
+/**
+ * Facet colour for a signal and glow: the signal picks a point on the ramp
+ * and the glow magnitude lifts it toward the palette's peak colour.
+ */
+export function facetColor(palette: GridPalette, signal: number, glow: number, out: RgbOut = [0, 0, 0]): Rgb {
+    const base = sampleRamp(palette.signalRamp, 0.5 + 0.5 * Math.tanh(signal / SIGNAL_SPAN), out)
+    return mixRgb(base, palette.glowPeak, glow * glow * 0.45, out)
+}
+
+/** Palette part way between `from` and `to`, for animated theme changes. */
+export function mixPalette(from: GridPalette, to: GridPalette, amount: number): GridPalette {
+    const stops = Math.max(from.signalRamp.length, to.signalRamp.length, BLEND_STOPS)
+    const signalRamp: Rgb[] = []
+    for (let k = 0; k < stops; k += 1) {
+        const t = k / (stops - 1)
+        signalRamp.push(mixRgb(sampleRamp(from.signalRamp, t), sampleRamp(to.signalRamp, t), amount))
+    }
+    return {
+        background: mixRgb(from.background, to.background, amount),
+        line: mixRgb(from.line, to.line, amount),
+        bodyWarm: mixRgb(from.bodyWarm, to.bodyWarm, amount),
+        bodyCool: mixRgb(from.bodyCool, to.bodyCool, amount),
+        pin: mixRgb(from.pin, to.pin, amount),
+        signalRamp,
+        glowPeak: mixRgb(from.glowPeak, to.glowPeak, amount)
+    }
+}
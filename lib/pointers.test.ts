@@ -0,0 +1,39 @@
+import { createPointerTracker } from "@/lib/pointers"
+import { describe, expect, test } from "vitest"
+
+function pointer(type: string, init: PointerEventInit) {
+    return new PointerEvent(type, { bubbles: true, ...init })
+}
+
+describe("pointer tracker", () => {
+    test("keeps every touch contact separately until it lifts", () => {
+        const element = document.createElement("div")
+        const tracker = createPointerTracker(element)
+
+        element.dispatchEvent(pointer("pointerdown", { pointerId: 1, pointerType: "touch", clientX: 10, clientY: 20 }))
+        element.dispatchEvent(pointer("pointerdown", { pointerId: 2, pointerType: "touch", clientX: 90, clientY: 40 }))
+        element.dispatchEvent(pointer("pointermove", { pointerId: 2, pointerType: "touch", clientX: 95, clientY: 45 }))
+
+        expect(tracker.read()).toEqual([
+            expect.objectContaining({ id: 1, x: 10, y: 20, pressed: true, touch: true }),
+            expect.objectContaining({ id: 2, x: 95, y: 45, pressed: true, touch: true })
+        ])
+
+        element.dispatchEvent(pointer("pointerup", { pointerId: 1, pointerType: "touch" }))
+
+        expect(tracker.read().map((sample) => sample.id)).toEqual([2])
+        tracker.dispose()
+    })
+
+    test("tracks a hovering mouse without pressing it", () => {
+        const element = document.createElement("div")
+        const tracker = createPointerTracker(element)
+
+        element.dispatchEvent(pointer("pointermove", { pointerId: 7, pointerType: "mouse", clientX: 4, clientY: 6 }))
+
+        expect(tracker.read()).toEqual([
+            expect.objectContaining({ id: 7, pressed: false, touch: false })
+        ])
+        tracker.dispose()
+    })
+})
@@ -0,0 +1,92 @@
+export type PointerSample = {
+    id: number
+    /** Position in CSS pixels relative to the tracked element's top-left corner. */
+    x: number
+    y: number
+    pressed: boolean
+    touch: boolean
+    contact: number
+}
+
+export type PointerTrackerOptions = {
+    /** Filters which pointer presses start tracking (e.g. to skip overlay UI). */
+    accept?: (event: PointerEvent) => boolean
+}
+
+export type PointerTracker = {
+    /** Every pointer currently over or pressed on the element. */
+    read: () => PointerSample[]
+    dispose: () => void
+}
+
+/**
+ * Follows every active pointer on `element` through Pointer Events. Mice are
+ * tracked while hovering; touch and pen contacts only while they are down.
+ */
+export function createPointerTracker(
+    element: HTMLElement,
+    options: PointerTrackerOptions = {}
+): PointerTracker {
+    const pointers = new Map<number, PointerSample>()
+
+    function sample(event: PointerEvent, pressed: boolean): PointerSample {
+        const rect = element.getBoundingClientRect()
+        return {
+            id: event.pointerId,
+            x: event.clientX - rect.left,
+            y: event.clientY - rect.top,
+            pressed,
+            touch: event.pointerType !== "mouse",
+            contact: Math.max(event.width || 0, event.height || 0)
+        }
+    }
+
+    const handleDown = (event: PointerEvent) => {
+        if (options.accept && !options.accept(event)) return
+        pointers.set(event.pointerId, sample(event, true))
+        element.setPointerCapture?.(event.pointerId)
+    }
+
+    const handleMove = (event: PointerEvent) => {
+        const current = pointers.get(event.pointerId)
+        const pressed = current?.pressed ?? false
+        if (!current && event.pointerType !== "mouse") return
+        pointers.set(event.pointerId, sample(event, pressed))
+    }
+
+    const handleUp = (event: PointerEvent) => {
+        if (event.pointerType === "mouse") {
+            pointers.set(event.pointerId, sample(event, false))
+        } else {
+            pointers.delete(event.pointerId)
+        }
+    }
+
+    const handleLeave = (event: PointerEvent) => {
+        const current = pointers.get(event.pointerId)
+        if (current?.pressed) return
+        pointers.delete(event.pointerId)
+    }
+
+    const handleCancel = (event: PointerEvent) => {
+        pointers.delete(event.pointerId)
+    }
+
+    element.addEventListener("pointerdown", handleDown)
+    element.addEventListener("pointermove", handleMove)
+    element.addEventListener("pointerup", handleUp)
+    element.addEventListener("pointerleave", handleLeave)
+    element.addEventListener("pointercancel", handleCancel)
+
+    return {
+        read: () => Array.from(pointers.values()),
+        dispose: () => {
+            element.removeEventListener("pointerdown", handleDown)
+            element.removeEventListener("pointermove", handleMove)
+            element.removeEventListener("pointerup", handleUp)
+            element.removeEventListener("pointerleave", handleLeave)
+            element.removeEventListener("pointercancel", handleCancel)
+            pointers.clear()
+        }
+    }
+}
@@ -0,0 +1,128 @@
+import { createPlayer, createRecorder, parseRecording } from "@/lib/recording"
+import { createSimulation, type NodeStore, type StepInput } from "@/lib/simulation"
+import { describe, expect, test } from "vitest"
+
+function scriptedInput(frame: number): StepInput {
+    const angle = frame * 0.05
+    return {
+        pointers: [
+            {
+                id: 1,
+                x: Math.cos(angle) * 180,
+                y: Math.sin(angle) * 120,
+                pressed: frame % 90 < 60,
+                touch: frame % 2 === 0,
+                contact: 20,
+                zoom: frame < 120 ? 1 : 2.5
+            }
+        ],
+        tool: frame < 100 ? "pull" : "push"
+    }
+}
+
+function recordSession() {
+    const live = createSimulation({ width: 640, height: 400, seed: 11 })
+    for (let i = 0; i < 40; i += 1) live.step(scriptedInput(i))
+    const recorder = createRecorder(live)
+    for (let i = 40; i < 160; i += 1) {
+        if (i === 100) live.resize(560, 420)
+        const input = scriptedInput(i)
+        recorder.record(input)
+        live.step(input)
+    }
+    return { live, recording: parseRecording(JSON.stringify(recorder.finish())) }
+}
+
+const restShape = (nodes: NodeStore) => [Array.from(nodes.bx), Array.from(nodes.by), Array.from(nodes.x)]
+
+describe("session recording", () => {
+    test("replays a recorded session bit for bit, resizes included", () => {
+        const { live, recording } = recordSession()
+        const player = createPlayer(recording)
+
+        expect(player.advance(recording.steps.length)).toBe(false)
+        expect(recording.layouts).toHaveLength(2)
+        expect(restShape(player.simulation.frame().nodes)).toEqual(restShape(live.frame().nodes))
+    })
+
+    test("replays with the physics, healing and fields it was recorded with, leaving the live run alone", () => {
+        const live = createSimulation({ width: 480, height: 320, seed: 5, physics: { anchorK: 0.05, damping: 0.3 } })
+        live.setHealRate(0.4)
+        live.setField("breeze", { kind: "wind", x: 0, y: 0, strength: 0.05, angle: 1, plastic: true })
+        for (let i = 0; i < 40; i += 1) live.step(scriptedInput(i))
+        const recorder = createRecorder(live)
+        // Starting a recording keeps the stroke history it would lose to a rebuild.
+        expect(live.undo()).toBe(true)
+        expect(live.redo()).toBe(true)
+        for (let i = 40; i < 120; i += 1) {
+            const input = scriptedInput(i)
+            recorder.record(input)
+            live.step(input)
+        }
+        const recording = parseRecording(JSON.stringify(recorder.finish()))
+        const player = createPlayer(recording)
+        player.advance(recording.steps.length)
+
+        expect(player.simulation.physics()).toEqual(live.physics())
+        expect(restShape(player.simulation.frame().nodes)).toEqual(restShape(live.frame().nodes))
+    })
+
+    test("scrubs backwards by replaying from the start", () => {
+        const { recording } = recordSession()
+        const player = createPlayer(recording)
+        player.seek(50)
+        const atFifty = restShape(player.simulation.frame().nodes)
+
+        player.seek(110)
+        player.seek(50)
+
+        expect(player.position()).toBe(50)
+        expect(restShape(player.simulation.frame().nodes)).toEqual(atFifty)
+    })
+
+    test("plays at fractional speed and loops when asked", () => {
+        const { recording } = recordSession()
+        const player = createPlayer(recording, { loop: true })
+        player.advance(0.5)
+        expect(player.position()).toBe(0)
+        player.advance(0.5)
+        expect(player.position()).toBe(1)
+
+        expect(player.advance(recording.steps.length + 5)).toBe(true)
+        expect(player.position()).toBe(6)
+    })
+
+    test("loads version 1 files, whose pointers were all at zoom 1", () => {
+        const { recording } = recordSession()
+        const legacy = {
+            ...recording,
+            version: 1,
+            steps: recording.steps.map((step) => step.filter((_, k) => k === 0 || k % 6 !== 0))
+        }
+        const upgraded = parseRecording(JSON.stringify(legacy))
+
+        expect(upgraded.version).toBe(2)
+        expect(upgraded.steps[0]).toEqual(recording.steps[0])
+        expect(upgraded.steps.at(-1)).not.toEqual(recording.steps.at(-1))
+    })
+
+    test("rejects files that are not recordings", () => {
+        expect(() => parseRecording({ version: 9 })).toThrow("Unsupported recording version")
+    })
+
+    test("rejects oversized, unordered or fractional layouts and edits before replaying", () => {
+        const { recording } = recordSession()
+        const [first, second] = recording.layouts
+        const withLayouts = (layouts: unknown[]) => ({ ...recording, layouts })
+        const withEdits = (edits: unknown[]) => ({ ...recording, edits })
+
+        expect(() => parseRecording(withLayouts([[0, 1e6, 400, "rectangular"]]))).toThrow(/width/)
+        const fractional = [second[0] + 0.5, 560, 420, "rectangular"]
+        expect(() => parseRecording(withLayouts([first, fractional]))).toThrow(/layouts/)
+        expect(() => parseRecording(withLayouts([second, first]))).toThrow(/layouts/)
+        expect(() => parseRecording(withEdits([[3, 0, { type: "undo" }], [2, 0, { type: "redo" }]]))).toThrow(/edits/)
+        expect(() => parseRecording(withEdits([[3, 5, { type: "undo" }]]))).toThrow(/edits/)
+        expect(() => parseRecording(withEdits([[3, 1, { type: "heal", rate: "fast" }]]))).toThrow(/heal/)
+        expect(parseRecording(withEdits([[3, 1, { type: "impulse", x: 0, y: 0, strength: 2 }]])).edits).toHaveLength(1)
+    })
+})
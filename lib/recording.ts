@@ -0,0 +1,464 @@
+import type { ForceField } from "@/lib/fields"
+import type { LatticeGeometry } from "@/lib/lattices"
+import { applyFoldDelta, type FoldDelta } from "@/lib/session"
+import type { ShapeOptions } from "@/lib/shapes"
+import {
+    createSimulation,
+    DEFAULT_PHYSICS,
+    type LatticeSimulation,
+    type PhysicsConfig,
+    type PointerInput,
+    type ReplayState,
+    type StepInput
+} from "@/lib/simulation"
+import { checkExtent, parseSnapshot, type LatticeSnapshot } from "@/lib/snapshot"
+import { DEFAULT_TOOL, TOOLS, type Tool } from "@/lib/tools"
+
+export const RECORDING_VERSION = 2
+
+/** Numbers stored per pointer in a recorded step: id, x, y, flags, contact, zoom. */
+const POINTER_STRIDE = 6
+/** Version 1 recordings lack the zoom, which was always 1 then. */
+const LEGACY_POINTER_STRIDE = 5
+const PRESSED_FLAG = 1
+const TOUCH_FLAG = 2
+
+/**
+ * A change made to the live lattice between steps, in lattice space. A
+ * `restore` is refitted to the size the lattice had unless `fit` is false,
+ * as when a relay session's lattice is loaded.
+ */
+export type RecordedEdit =
+    | { type: "configure"; physics: Partial<PhysicsConfig> }
+    | { type: "heal"; rate: number }
+    | { type: "setField"; name: string; field: ForceField }
+    | { type: "removeField"; name: string }
+    | { type: "impulse"; x: number; y: number; strength: number }
+    | { type: "undo" | "redo" | "reset" }
+    | { type: "morph"; mask: { width: number; height: number; data: number[] } | null; options?: ShapeOptions }
+    | { type: "restore"; snapshot: LatticeSnapshot; fit: boolean }
+    | { type: "fold"; delta: FoldDelta }
+
+/**
+ * A recorded session: the lattice it started from plus every step's input.
+ * Each step is `[toolIndex, ...pointers]` with six numbers per pointer;
+ * `layouts` lists `[step, width, height, geometry]` whenever those change.
+ * `edits` lists `[step, layouts, edit]`: the edit runs before that step,
+ * once the first `layouts` layouts are in place.
+ */
+export type Recording = {
+    version: typeof RECORDING_VERSION
+    seed: number
+    start: LatticeSnapshot
+    /** Physics, heal rate, fields and in-flight progress at the start; missing from older files. */
+    replay?: ReplayState
+    layouts: [number, number, number, LatticeGeometry][]
+    steps: number[][]
+    /** Missing from older files, which did not record edits. */
+    edits?: [number, number, RecordedEdit][]
+}
+
+export type Recorder = {
+    /** Logs the input for the step that is about to run on the simulation. */
+    record: (input: StepInput) => void
+    /** Logs an edit that is about to be made to the simulation. */
+    note: (edit: RecordedEdit) => void
+    /** Number of steps recorded so far. */
+    length: () => number
+    finish: () => Recording
+}
+
+/**
+ * Starts recording `simulation`, leaving it untouched. The snapshot plus the
+ * replay state is everything a replay needs to start from identical state.
+ */
+export function createRecorder(simulation: LatticeSimulation): Recorder {
+    const start = simulation.snapshot()
+    const replay = simulation.replayState()
+    const layouts: Recording["layouts"] = []
+    const steps: number[][] = []
+    const edits: NonNullable<Recording["edits"]> = []
+
+    /** Logs the lattice's size and geometry when they changed since the last layout. */
+    function syncLayout() {
+        const { width, height, geometry } = simulation.frame()
+        const last = layouts[layouts.length - 1]
+        if (!last || last[1] !== width || last[2] !== height || last[3] !== geometry) {
+            layouts.push([steps.length, width, height, geometry])
+        }
+    }
+
+    function record(input: StepInput) {
+        syncLayout()
+        const step = [TOOLS.findIndex((tool) => tool.id === (input.tool ?? DEFAULT_TOOL))]
+        for (const pointer of input.pointers) {
+            step.push(
+                pointer.id,
+                pointer.x,
+                pointer.y,
+                (pointer.pressed ? PRESSED_FLAG : 0) | (pointer.touch ? TOUCH_FLAG : 0),
+                pointer.contact ?? 0,
+                pointer.zoom ?? 1
+            )
+        }
+        steps.push(step)
+    }
+
+    return {
+        record,
+        note: (edit) => {
+            syncLayout()
+            edits.push([steps.length, layouts.length, edit])
+        },
+        length: () => steps.length,
+        finish: () => ({ version: RECORDING_VERSION, seed: simulation.seed, start, replay, layouts, steps, edits })
+    }
+}
+
+/** Makes a recorded edit on `simulation`, the way the runtime made it on the live one. */
+export function applyEdit(simulation: LatticeSimulation, edit: RecordedEdit) {
+    switch (edit.type) {
+        case "configure":
+            return simulation.configure(edit.physics)
+        case "heal":
+            return simulation.setHealRate(edit.rate)
+        case "setField":
+            return simulation.setField(edit.name, edit.field)
+        case "removeField":
+            return simulation.removeField(edit.name)
+        case "impulse":
+            return simulation.impulse(edit.x, edit.y, edit.strength)
+        case "undo":
+            return void simulation.undo()
+        case "redo":
+            return void simulation.redo()
+        case "reset":
+            return simulation.reset()
+        case "morph": {
+            const { mask } = edit
+            return simulation.morphTo(mask && { ...mask, data: Float32Array.from(mask.data) }, edit.options)
+        }
+        case "restore": {
+            const { width, height } = simulation.frame()
+            simulation.restore(edit.snapshot)
+            if (edit.fit) simulation.resize(width, height)
+            return
+        }
+        case "fold":
+            return applyFoldDelta(simulation, edit.delta)
+    }
+}
+
+/** Turns one recorded step back into simulation input. */
+export function decodeStep(step: readonly number[]): StepInput {
+    const pointers: PointerInput[] = []
+    for (let k = 1; k + POINTER_STRIDE <= step.length; k += POINTER_STRIDE) {
+        pointers.push({
+            id: step[k],
+            x: step[k + 1],
+            y: step[k + 2],
+            pressed: (step[k + 3] & PRESSED_FLAG) !== 0,
+            touch: (step[k + 3] & TOUCH_FLAG) !== 0,
+            contact: step[k + 4],
+            zoom: step[k + 5]
+        })
+    }
+    const tool: Tool = TOOLS[step[0]]?.id ?? DEFAULT_TOOL
+    return { pointers, tool }
+}
+
+const isNumberList = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.every((item) => typeof item === "number" && Number.isFinite(item))
+const isIntegerList = (value: unknown): value is number[] => Array.isArray(value) && value.every(Number.isInteger)
+const isIndexList = (value: unknown): value is number[] =>
+    isIntegerList(value) && value.every((item) => item >= 0)
+/** A step or list index between 0 and `last`, inclusive. */
+const isPosition = (value: unknown, last: number): value is number =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) <= last
+
+function isField(value: unknown): value is ForceField {
+    const field = value as Record<string, unknown> | null
+    return (
+        !!field &&
+        typeof field === "object" &&
+        typeof field.kind === "string" &&
+        [field.x, field.y, field.strength].every(Number.isFinite)
+    )
+}
+
+function isPhysics(value: unknown): value is Partial<PhysicsConfig> {
+    return (
+        !!value &&
+        typeof value === "object" &&
+        Object.entries(value).every(([key, constant]) => key in DEFAULT_PHYSICS && Number.isFinite(constant))
+    )
+}
+
+function isFold(value: unknown): value is FoldDelta {
+    const delta = value as Record<string, unknown> | null
+    if (!delta || typeof delta !== "object") return false
+    const { indices, dx, dy } = delta
+    if (!isIndexList(indices) || !isIntegerList(dx) || !isIntegerList(dy)) return false
+    if (dx.length !== indices.length || dy.length !== indices.length) return false
+    return ["pinned", "unpinned", "cut", "mended"].every((key) => delta[key] === undefined || isIndexList(delta[key]))
+}
+
+function isMask(value: unknown) {
+    const mask = value as Record<string, unknown> | null
+    if (mask === null) return true
+    if (typeof mask !== "object" || !Number.isInteger(mask.width) || !Number.isInteger(mask.height)) return false
+    const area = (mask.width as number) * (mask.height as number)
+    return area > 0 && isNumberList(mask.data) && mask.data.length === area
+}
+
+function parseEdit(input: unknown): RecordedEdit {
+    const edit = (input ?? {}) as Record<string, unknown>
+    const valid = (() => {
+        switch (edit.type) {
+            case "configure":
+                return isPhysics(edit.physics)
+            case "heal":
+                return typeof edit.rate === "number" && edit.rate >= 0 && Number.isFinite(edit.rate)
+            case "setField":
+                return typeof edit.name === "string" && isField(edit.field)
+            case "removeField":
+                return typeof edit.name === "string"
+            case "impulse":
+                return [edit.x, edit.y, edit.strength].every(Number.isFinite)
+            case "undo":
+            case "redo":
+            case "reset":
+                return true
+            case "morph":
+                return isMask(edit.mask) && (edit.options === undefined || typeof edit.options === "object")
+            case "restore":
+                parseSnapshot(edit.snapshot)
+                return typeof edit.fit === "boolean"
+            case "fold":
+                return isFold(edit.delta)
+            default:
+                return false
+        }
+    })()
+    if (!valid) throw new Error(`Recording edit "${String(edit.type)}" is malformed`)
+    return edit as RecordedEdit
+}
+
+/** Layouts must be bounded like snapshots and come in step order. */
+function checkLayouts(layouts: unknown, stepCount: number) {
+    if (!Array.isArray(layouts)) {
+        throw new Error(`Recording field "layouts" must list [step, width, height, geometry] entries`)
+    }
+    let previous = 0
+    for (const layout of layouts) {
+        const ordered = Array.isArray(layout) && isPosition(layout[0], stepCount) && layout[0] >= previous
+        if (!ordered || layout.length !== 4) {
+            throw new Error(`Recording field "layouts" must list [step, width, height, geometry] entries in step order`)
+        }
+        checkExtent(layout[3], layout[1], layout[2], "Recording layout")
+        previous = layout[0]
+    }
+}
+
+/** Edits must come in order, each after a layout that was recorded before it. */
+function checkEdits(edits: unknown, stepCount: number, layouts: Recording["layouts"]) {
+    if (!Array.isArray(edits)) throw new Error(`Recording field "edits" must list [step, layouts, edit] entries`)
+    let previous = [0, 0]
+    for (const entry of edits) {
+        const [step, layoutCount] = Array.isArray(entry) ? entry : []
+        if (
+            !Array.isArray(entry) ||
+            entry.length !== 3 ||
+            !isPosition(step, stepCount) ||
+            !isPosition(layoutCount, layouts.length) ||
+            step < previous[0] ||
+            layoutCount < previous[1] ||
+            (layoutCount > 0 && layouts[layoutCount - 1][0] > step)
+        ) {
+            throw new Error(`Recording field "edits" must list [step, layouts, edit] entries in order`)
+        }
+        parseEdit(entry[2])
+        previous = [step, layoutCount]
+    }
+}
+
+function parseReplayState(input: unknown): ReplayState {
+    if (!input || typeof input !== "object") throw new Error(`Recording field "replay" must be an object`)
+    const replay = input as Record<string, unknown>
+    const physics = replay.physics as Record<string, unknown> | null
+    if (
+        !physics ||
+        typeof physics !== "object" ||
+        !Object.keys(DEFAULT_PHYSICS).every((key) => Number.isFinite(physics[key]))
+    ) {
+        throw new Error(`Recording field "replay.physics" must hold every physics constant`)
+    }
+    if (typeof replay.healRate !== "number" || typeof replay.seconds !== "number") {
+        throw new Error(`Recording fields "replay.healRate" and "replay.seconds" must be numbers`)
+    }
+    if (!isNumberList(replay.anchorScale)) throw new Error(`Recording field "replay.anchorScale" must list numbers`)
+    const fields = replay.fields
+    if (
+        !Array.isArray(fields) ||
+        !fields.every((entry) => Array.isArray(entry) && typeof entry[0] === "string" && isField(entry[1]))
+    ) {
+        throw new Error(`Recording field "replay.fields" must list [name, field] entries`)
+    }
+    const morph = replay.morph as Record<string, unknown> | null
+    if (
+        morph !== null &&
+        (typeof morph !== "object" ||
+            !["fromX", "fromY", "fromAnchor", "toX", "toY", "toAnchor"].every((key) => isNumberList(morph[key])) ||
+            !Number.isFinite(morph.elapsed) ||
+            !Number.isFinite(morph.duration))
+    ) {
+        throw new Error(`Recording field "replay.morph" must be null or a morph`)
+    }
+    const pointers = replay.pointers
+    if (!Array.isArray(pointers) || !pointers.every((pointer) => isNumberList(pointer) && pointer.length === 3)) {
+        throw new Error(`Recording field "replay.pointers" must list [id, x, y] entries`)
+    }
+    return replay as ReplayState
+}
+
+/** Validates untrusted input (a file) as a recording. */
+export function parseRecording(input: unknown): Recording {
+    const data = typeof input === "string" ? (JSON.parse(input) as unknown) : input
+    if (!data || typeof data !== "object") throw new Error("Recording must be a JSON object")
+    const recording = data as Record<string, unknown>
+    if (recording.version !== RECORDING_VERSION && recording.version !== 1) {
+        throw new Error(`Unsupported recording version: ${String(recording.version)}`)
+    }
+    if (typeof recording.seed !== "number") throw new Error(`Recording field "seed" must be a number`)
+    parseSnapshot(recording.start)
+    if (recording.replay !== undefined) parseReplayState(recording.replay)
+    const steps = recording.steps
+    if (!Array.isArray(steps) || !steps.every((step) => Array.isArray(step) && step.every(Number.isFinite))) {
+        throw new Error(`Recording field "steps" must be a list of number lists`)
+    }
+    checkLayouts(recording.layouts, steps.length)
+    if (recording.edits !== undefined) {
+        checkEdits(recording.edits, steps.length, recording.layouts as Recording["layouts"])
+    }
+    if (recording.version === 1) {
+        return { ...recording, version: RECORDING_VERSION, steps: steps.map(upgradeStep) } as Recording
+    }
+    return recording as Recording
+}
+
+/** Adds a zoom of 1 to every pointer of a version 1 step. */
+function upgradeStep(step: number[]) {
+    const upgraded = [step[0]]
+    for (let k = 1; k + LEGACY_POINTER_STRIDE <= step.length; k += LEGACY_POINTER_STRIDE) {
+        upgraded.push(...step.slice(k, k + LEGACY_POINTER_STRIDE), 1)
+    }
+    return upgraded
+}
+
+export type Player = {
+    /** The simulation the recording is replayed on; render its frames. */
+    readonly simulation: LatticeSimulation
+    /** Number of recorded steps. */
+    readonly length: number
+    /** Index of the next step to run. */
+    position: () => number
+    /** Jumps to a step, replaying from the start when scrubbing backwards. */
+    seek: (step: number) => void
+    /**
+     * Runs `ticks` steps; fractional values accumulate, so 0.5 plays at half
+     * speed. Returns false once a non-looping player has reached the end.
+     */
+    advance: (ticks: number) => boolean
+    setLoop: (loop: boolean) => void
+}
+
+/**
+ * Replays a recording through a private simulation built from its seed,
+ * with the physics, heal rate and fields it was recorded with.
+ */
+export function createPlayer(recording: Recording, options: { loop?: boolean } = {}): Player {
+    const simulation = createSimulation({
+        width: recording.start.width,
+        height: recording.start.height,
+        seed: recording.seed,
+        geometry: recording.start.geometry,
+        physics: recording.replay?.physics,
+        healRate: recording.replay?.healRate
+    })
+    const { layouts, steps } = recording
+    const edits = recording.edits ?? []
+    let loop = options.loop ?? false
+    let position = 0
+    let pending = 0
+    let layoutIndex = 0
+    let editIndex = 0
+
+    function rewind() {
+        simulation.restore(recording.start, recording.replay)
+        position = 0
+        layoutIndex = 0
+        editIndex = 0
+    }
+
+    /** Applies layouts until the first `count` are in place. */
+    function applyLayouts(count: number) {
+        for (; layoutIndex < count; layoutIndex += 1) {
+            const [, width, height, geometry] = layouts[layoutIndex]
+            simulation.setGeometry(geometry)
+            simulation.resize(width, height)
+        }
+    }
+
+    /** Makes the edits recorded before the current step, each after the layouts that preceded it. */
+    function applyEdits() {
+        for (; editIndex < edits.length && edits[editIndex][0] === position; editIndex += 1) {
+            const [, layoutCount, edit] = edits[editIndex]
+            applyLayouts(layoutCount)
+            applyEdit(simulation, edit)
+        }
+    }
+
+    function runStep() {
+        applyEdits()
+        let count = layoutIndex
+        while (count < layouts.length && layouts[count][0] <= position) count += 1
+        applyLayouts(count)
+        simulation.step(decodeStep(steps[position]))
+        position += 1
+        // Edits made after the last step still belong to the final state.
+        if (position === steps.length) applyEdits()
+    }
+
+    function seek(step: number) {
+        const target = Math.max(0, Math.min(recording.steps.length, Math.floor(step)))
+        if (target < position) rewind()
+        while (position < target) runStep()
+        pending = 0
+    }
+
+    function advance(ticks: number) {
+        pending += Math.max(0, ticks)
+        while (pending >= 1) {
+            pending -= 1
+            if (position >= recording.steps.length) {
+                if (!loop || recording.steps.length === 0) return false
+                rewind()
+            }
+            runStep()
+        }
+        return loop || position < recording.steps.length
+    }
+
+    rewind()
+
+    return {
+        simulation,
+        length: recording.steps.length,
+        position: () => position,
+        seek,
+        advance,
+        setLoop: (next) => {
+            loop = next
+        }
+    }
+}
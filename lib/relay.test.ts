@@ -0,0 +1,271 @@
+import { HELIOS_PALETTE } from "@/lib/palette"
+import { createLocalSocket, createRelay, PEER_COLORS } from "@/lib/relay"
+import { localRuntime } from "@/lib/remote"
+import { createGridRuntime, type GridRuntime, type RuntimeOptions } from "@/lib/runtime"
+import {
+    applyFoldDelta,
+    createSessionClient,
+    FOLD_STEPS_PER_PX,
+    type RelayMessage,
+    type SessionPeer
+} from "@/lib/session"
+import { createSimulation, type StepInput } from "@/lib/simulation"
+import { describe, expect, test } from "vitest"
+
+const OPTIONS: RuntimeOptions = { width: 320, height: 200, seed: 6, geometry: "rectangular", palette: HELIOS_PALETTE }
+const REPORT = { stats: false, flips: false }
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+function drag(x: number, y: number): StepInput {
+    return { pointers: [{ id: 1, x, y, pressed: true, touch: false }], tool: "pull" }
+}
+
+function join(relay: ReturnType<typeof createRelay>, options: Partial<RuntimeOptions> = {}) {
+    const runtime = createGridRuntime({ ...OPTIONS, ...options })
+    let peers: SessionPeer[] = []
+    const client = createSessionClient(createLocalSocket(relay), localRuntime(runtime), {
+        onPeers: (next) => {
+            peers = next
+        }
+    })
+    return { runtime, client, peers: () => peers }
+}
+
+/** Largest gap between two lattices' rest positions, in pixels. */
+function restGap(a: GridRuntime, b: GridRuntime) {
+    const first = a.snapshot()
+    const second = b.snapshot()
+    expect(second.bx).toHaveLength(first.bx.length)
+    return Math.max(...first.bx.map((value, i) => Math.abs(value - second.bx[i])))
+}
+
+/** A raw participant that keeps every message the relay sends it. */
+function listen(relay: ReturnType<typeof createRelay>) {
+    const received: RelayMessage[] = []
+    const connection = relay.connect({ send: (data) => received.push(JSON.parse(data) as RelayMessage) })
+    return { received, connection }
+}
+
+describe("lattice relay", () => {
+    test("merges concurrent folds so every participant converges on the same sheet", async () => {
+        const relay = createRelay()
+        const first = join(relay)
+        await settle()
+        // The second participant's own lattice is replaced by the shared one.
+        const second = join(relay, { width: 500, height: 300, geometry: "hexagonal" })
+        await settle()
+        expect(first.client.joined() && second.client.joined()).toBe(true)
+        expect(second.runtime.snapshot().geometry).toBe("rectangular")
+        const flat = first.runtime.snapshot().bx
+
+        for (let frame = 0; frame < 30; frame += 1) {
+            first.runtime.tick(20, drag(100 + frame * 3, 90), REPORT)
+            second.runtime.tick(20, drag(220 - frame * 2, 120), REPORT)
+            if (frame % 5 === 0) await Promise.all([first.client.sync(), second.client.sync()])
+            await settle()
+        }
+        first.runtime.tick(20, { pointers: [] }, REPORT)
+        second.runtime.tick(20, { pointers: [] }, REPORT)
+        await Promise.all([first.client.sync(), second.client.sync()])
+        await settle()
+
+        const state = relay.state()
+        const shared = first.runtime.snapshot().bx
+        expect(state).not.toBeNull()
+        expect(Math.max(...shared.map((value, i) => Math.abs(value - flat[i])))).toBeGreaterThan(1)
+        expect(restGap(first.runtime, second.runtime)).toBeLessThanOrEqual(1 / FOLD_STEPS_PER_PX)
+        const drift = Math.max(...state!.bx.map((value, i) => Math.abs(value - shared[i])))
+        expect(drift).toBeLessThan(1 / FOLD_STEPS_PER_PX)
+
+        const late = join(relay, { width: 800, height: 600 })
+        await settle()
+        expect(late.runtime.snapshot().bx).toEqual(state!.bx)
+        expect(late.peers().map((peer) => peer.color)).toEqual([PEER_COLORS[0], PEER_COLORS[1]])
+    })
+
+    test("shares pins and cuts, including with late joiners", async () => {
+        const relay = createRelay()
+        const first = join(relay)
+        await settle()
+        const second = join(relay)
+        await settle()
+        const press = { id: 1, x: 160, y: 100, pressed: true, touch: false }
+        first.runtime.tick(20, { pointers: [press], tool: "pin" }, REPORT)
+        first.runtime.tick(20, { pointers: [] }, REPORT)
+        first.runtime.tick(20, { pointers: [{ ...press, x: 40, y: 60 }], tool: "tear" }, REPORT)
+        first.runtime.tick(20, { pointers: [{ ...press, x: 280, y: 60 }], tool: "tear" }, REPORT)
+        first.runtime.tick(20, { pointers: [] }, REPORT)
+        await first.client.sync()
+        await settle()
+
+        const { pinned, broken } = first.runtime.snapshot()
+        expect(pinned.length).toBeGreaterThan(0)
+        expect(broken.length).toBeGreaterThan(0)
+        expect(second.runtime.snapshot()).toMatchObject({ pinned, broken })
+        expect(relay.state()).toMatchObject({ pinned, broken })
+
+        first.runtime.undo()
+        await first.client.sync()
+        await settle()
+        expect(second.runtime.snapshot().broken).toEqual([])
+        const late = join(relay)
+        await settle()
+        expect(late.runtime.snapshot()).toMatchObject({ pinned, broken: [] })
+    })
+
+    test("settles conflicting pins in the order the relay merged them", async () => {
+        const relay = createRelay()
+        const first = join(relay)
+        await settle()
+        const second = join(relay)
+        await settle()
+        const { connection } = listen(relay)
+        connection.receive(JSON.stringify({ type: "join", snapshot: first.runtime.snapshot() }))
+        await settle()
+        const unpin = (indices: number[]) => JSON.stringify({
+            type: "fold",
+            delta: { indices: [], dx: [], dy: [], unpinned: indices }
+        })
+
+        const press = { id: 1, x: 160, y: 100, pressed: true, touch: false }
+        first.runtime.tick(20, { pointers: [press], tool: "pin" }, REPORT)
+        first.runtime.tick(20, { pointers: [] }, REPORT)
+        const { pinned } = first.runtime.snapshot()
+        expect(pinned.length).toBeGreaterThan(0)
+
+        // The unpin reaches the relay after the first participant sent its pins but before they arrive.
+        const syncing = first.client.sync()
+        connection.receive(unpin(pinned))
+        await syncing
+        await settle()
+        expect(relay.state()!.pinned).toEqual(pinned)
+        expect(first.runtime.snapshot().pinned).toEqual(pinned)
+        expect(second.runtime.snapshot().pinned).toEqual(pinned)
+
+        // An unpin merged after the pins wins everywhere.
+        connection.receive(unpin(pinned))
+        await settle()
+        expect(relay.state()!.pinned).toEqual([])
+        expect(first.runtime.snapshot().pinned).toEqual([])
+        expect(second.runtime.snapshot().pinned).toEqual([])
+
+        // Pins not sent yet reach the relay after a remote unpin, so they are kept.
+        first.runtime.tick(20, { pointers: [press], tool: "pin" }, REPORT)
+        first.runtime.tick(20, { pointers: [] }, REPORT)
+        connection.receive(unpin(pinned))
+        await settle()
+        expect(first.runtime.snapshot().pinned).toEqual(pinned)
+        await first.client.sync()
+        await settle()
+        expect(relay.state()!.pinned).toEqual(pinned)
+        expect(second.runtime.snapshot().pinned).toEqual(pinned)
+    })
+
+    test("keeps healing local and undo to the participant's own strokes", async () => {
+        const relay = createRelay()
+        const first = join(relay)
+        await settle()
+        const second = join(relay)
+        await settle()
+        const flat = first.runtime.snapshot().bx
+        const { received, connection } = listen(relay)
+        connection.receive(JSON.stringify({ type: "join", snapshot: first.runtime.snapshot() }))
+        await settle()
+
+        // The second participant folds while the first is still mid-stroke.
+        first.runtime.tick(20, drag(100, 90), REPORT)
+        for (let frame = 0; frame < 10; frame += 1) second.runtime.tick(20, drag(220 - frame * 4, 120), REPORT)
+        second.runtime.tick(20, { pointers: [] }, REPORT)
+        await second.client.sync()
+        await settle()
+        for (let frame = 1; frame < 10; frame += 1) first.runtime.tick(20, drag(100 + frame * 4, 90), REPORT)
+        first.runtime.tick(20, { pointers: [] }, REPORT)
+
+        first.runtime.undo()
+        await first.client.sync()
+        await settle()
+        expect(restGap(first.runtime, second.runtime)).toBeLessThanOrEqual(1 / FOLD_STEPS_PER_PX)
+        const folded = second.runtime.snapshot().bx.map((value, i) => Math.abs(value - flat[i]))
+        expect(Math.max(...folded)).toBeGreaterThan(1)
+
+        // Each participant heals on its own, so healing is never sent as a fold.
+        const folds = received.filter((message) => message.type === "fold").length
+        first.runtime.setHealing(true)
+        second.runtime.setHealing(true)
+        for (let frame = 0; frame < 20; frame += 1) {
+            first.runtime.tick(20, { pointers: [] }, REPORT)
+            second.runtime.tick(20, { pointers: [] }, REPORT)
+        }
+        await Promise.all([first.client.sync(), second.client.sync()])
+        await settle()
+        expect(received.filter((message) => message.type === "fold")).toHaveLength(folds)
+        expect(restGap(first.runtime, second.runtime)).toBeLessThanOrEqual(1 / FOLD_STEPS_PER_PX)
+    })
+
+    test("relays pointers with a colour per participant and announces arrivals and departures", async () => {
+        const relay = createRelay()
+        const host = join(relay)
+        await settle()
+        const { received, connection } = listen(relay)
+        connection.receive(JSON.stringify({ type: "join", snapshot: host.runtime.snapshot() }))
+        await settle()
+
+        expect(received[0]).toMatchObject({ type: "welcome", peer: 2, color: PEER_COLORS[1] })
+        expect(host.peers()).toEqual([{ peer: 2, color: PEER_COLORS[1], pointers: [] }])
+
+        connection.receive(JSON.stringify({ type: "pointers", pointers: [{ id: 4, x: 10, y: -20, pressed: true }] }))
+        await settle()
+        expect(host.peers()[0].pointers).toEqual([{ id: 4, x: 10, y: -20, pressed: true, touch: false }])
+
+        host.client.sendPointers([{ id: 1, x: 5, y: 5, pressed: false, touch: false }])
+        // Unchanged pointers are not sent again.
+        host.client.sendPointers([{ id: 1, x: 5, y: 5, pressed: false, touch: false }])
+        await settle()
+        expect(received.filter((message) => message.type === "pointers")).toHaveLength(1)
+
+        connection.close()
+        await settle()
+        expect(host.peers()).toEqual([])
+        expect(relay.peers()).toBe(1)
+    })
+
+    test("drops malformed messages and folds for nodes the sheet does not have", async () => {
+        const relay = createRelay()
+        const host = join(relay)
+        await settle()
+        const before = relay.state()
+        const { received, connection } = listen(relay)
+
+        connection.receive(JSON.stringify({ type: "fold", delta: { indices: [0], dx: [256], dy: [0] } }))
+        connection.receive("not json")
+        connection.receive(JSON.stringify({ type: "join", snapshot: { version: 1 } }))
+        expect(received).toEqual([])
+
+        connection.receive(JSON.stringify({ type: "join", snapshot: host.runtime.snapshot() }))
+        connection.receive(JSON.stringify({ type: "fold", delta: { indices: [0], dx: [0.5], dy: [0] } }))
+        connection.receive(JSON.stringify({ type: "fold", delta: { indices: [1e9], dx: [1], dy: [1] } }))
+        connection.receive(JSON.stringify({ type: "fold", delta: { indices: [0], dx: [256], dy: [0], cut: [2 ** 31] } }))
+        expect(relay.state()).toEqual(before)
+
+        connection.receive(JSON.stringify({ type: "fold", delta: { indices: [0], dx: [256], dy: [-512] } }))
+        expect(relay.state()!.bx[0]).toBe(before!.bx[0] + 1)
+        expect(relay.state()!.by[0]).toBe(before!.by[0] - 2)
+        await settle()
+        expect(host.runtime.snapshot().bx[0]).toBeCloseTo(before!.bx[0] + 1)
+    })
+
+    test("ignores a whole fold that names edges or nodes the client's lattice does not have", () => {
+        const simulation = createSimulation({ width: 320, height: 200, seed: 6 })
+        const { edges, nodes } = simulation.frame()
+        const before = simulation.snapshot()
+
+        applyFoldDelta(simulation, { indices: [0], dx: [256], dy: [0], cut: [0, edges.length] })
+        applyFoldDelta(simulation, { indices: [0], dx: [256], dy: [0], pinned: [nodes.count] })
+        expect(simulation.snapshot()).toEqual(before)
+
+        applyFoldDelta(simulation, { indices: [0], dx: [256], dy: [0], cut: [edges.length - 1] })
+        expect(simulation.snapshot().broken).toEqual([edges.length - 1])
+        expect(simulation.snapshot().bx[0]).toBeCloseTo(before.bx[0] + 1)
+    })
+})
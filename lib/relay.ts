@@ -0,0 +1,271 @@
+import { buildLattice } from "@/lib/lattices"
+import type { Rgb } from "@/lib/palette"
+import {
+    FOLD_STEPS_PER_PX,
+    type ClientMessage,
+    type FoldDelta,
+    type RelayMessage,
+    type SessionPeer,
+    type SessionSocket
+} from "@/lib/session"
+import type { PointerInput } from "@/lib/simulation"
+import { parseSnapshot, type LatticeSnapshot } from "@/lib/snapshot"
+
+/** Cursor ring colours, handed out to participants in the order they join. */
+export const PEER_COLORS: readonly Rgb[] = [
+    [255, 193, 120],
+    [120, 200, 255],
+    [170, 240, 140],
+    [250, 130, 190],
+    [200, 160, 255],
+    [255, 236, 120]
+]
+
+/** Pointers kept per participant; more than this is not a person's hands. */
+const MAX_POINTERS = 10
+/** Largest fold step accepted in one delta, a few thousand pixels. */
+const MAX_FOLD_STEP = 2 ** 20
+
+/** One connection as the relay sees it: somewhere to send messages. */
+export type RelayPeer = {
+    send: (data: string) => void
+}
+
+export type RelayConnection = {
+    /** Handles a message the participant sent. */
+    receive: (data: string) => void
+    close: () => void
+}
+
+export type Relay = {
+    connect: (peer: RelayPeer) => RelayConnection
+    /** The shared lattice with every fold merged so far, or null until someone joins. */
+    state: () => LatticeSnapshot | null
+    /** Participants that have joined and are still connected. */
+    peers: () => number
+}
+
+type Participant = SessionPeer & {
+    send: (message: RelayMessage) => void
+    joined: boolean
+}
+
+const isInteger = (value: unknown) => Number.isInteger(value) && Math.abs(value as number) <= MAX_FOLD_STEP
+const isIndex = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) < 2 ** 32
+/** Pin and cut lists a fold may carry, each optional. */
+const FLAG_LISTS = ["pinned", "unpinned", "cut", "mended"] as const
+
+function parsePointers(input: unknown): PointerInput[] | null {
+    if (!Array.isArray(input)) return null
+    const pointers: PointerInput[] = []
+    for (const item of input.slice(0, MAX_POINTERS)) {
+        const { id, x, y, pressed, touch, contact, zoom } = (item ?? {}) as Record<string, unknown>
+        if (![id, x, y].every((value) => typeof value === "number" && Number.isFinite(value))) return null
+        pointers.push({
+            id: id as number,
+            x: x as number,
+            y: y as number,
+            pressed: pressed === true,
+            touch: touch === true,
+            ...(typeof contact === "number" && Number.isFinite(contact) ? { contact } : {}),
+            ...(typeof zoom === "number" && zoom > 0 && Number.isFinite(zoom) ? { zoom } : {})
+        })
+    }
+    return pointers
+}
+
+/** Validates a participant's message; anything malformed is dropped. */
+function parseMessage(data: string): ClientMessage | null {
+    let input: Record<string, unknown>
+    try {
+        input = JSON.parse(data) as Record<string, unknown>
+    } catch {
+        return null
+    }
+    switch (input?.type) {
+        case "join": {
+            try {
+                return { type: "join", snapshot: parseSnapshot(input.snapshot) }
+            } catch {
+                return null
+            }
+        }
+        case "pointers": {
+            const pointers = parsePointers(input.pointers)
+            return pointers && { type: "pointers", pointers }
+        }
+        case "fold": {
+            const { indices, dx, dy } = (input.delta ?? {}) as Record<string, unknown>
+            if (!Array.isArray(indices) || !Array.isArray(dx) || !Array.isArray(dy)) return null
+            if (dx.length !== indices.length || dy.length !== indices.length) return null
+            if (![indices, dx, dy].every((values) => values.every(isInteger))) return null
+            if (indices.some((index) => index < 0)) return null
+            const delta: FoldDelta = { indices, dx, dy }
+            for (const key of FLAG_LISTS) {
+                const list = (input.delta as Record<string, unknown>)[key]
+                if (list === undefined) continue
+                if (!Array.isArray(list) || !list.every(isIndex)) return null
+                delta[key] = list
+            }
+            return { type: "fold", delta }
+        }
+        default:
+            return null
+    }
+}
+
+/**
+ * The shared side of a multi-user session, independent of transport. The
+ * first participant to join supplies the lattice; later ones receive it with
+ * every fold merged so far. Folds are summed as integer steps on top of that
+ * first lattice, so the merged state does not depend on arrival order.
+ */
+export function createRelay(): Relay {
+    const participants = new Map<number, Participant>()
+    let nextPeer = 1
+    let base: LatticeSnapshot | null = null
+    let stepsX = new Float64Array(0)
+    let stepsY = new Float64Array(0)
+    let pinned = new Set<number>()
+    let broken = new Set<number>()
+    let edgeCount = 0
+
+    const others = (peer: number) => [...participants.values()].filter((other) => other.joined && other.peer !== peer)
+
+    function state(): LatticeSnapshot | null {
+        if (!base) return null
+        const bx = base.bx.map((value, i) => value + stepsX[i] / FOLD_STEPS_PER_PX)
+        const by = base.by.map((value, i) => value + stepsY[i] / FOLD_STEPS_PER_PX)
+        const sorted = (indices: Set<number>) => [...indices].sort((a, b) => a - b)
+        // Late joiners start at rest on the merged folds.
+        return {
+            ...base,
+            bx,
+            by,
+            x: bx,
+            y: by,
+            vx: bx.map(() => 0),
+            vy: by.map(() => 0),
+            pinned: sorted(pinned),
+            broken: sorted(broken)
+        }
+    }
+
+    function receive(participant: Participant, message: ClientMessage) {
+        switch (message.type) {
+            case "join": {
+                if (participant.joined) return
+                if (!base) {
+                    base = message.snapshot
+                    stepsX = new Float64Array(base.bx.length)
+                    stepsY = new Float64Array(base.by.length)
+                    pinned = new Set(base.pinned)
+                    broken = new Set(base.broken)
+                    edgeCount = buildLattice(base.geometry, base.width, base.height).edges.length
+                }
+                const { peer, color } = participant
+                participant.send({
+                    type: "welcome",
+                    peer,
+                    color,
+                    snapshot: state() as LatticeSnapshot,
+                    peers: others(peer).map((other) => ({
+                        peer: other.peer,
+                        color: other.color,
+                        pointers: other.pointers
+                    }))
+                })
+                for (const other of others(peer)) other.send({ type: "peer", peer, color })
+                participant.joined = true
+                return
+            }
+            case "pointers": {
+                if (!participant.joined) return
+                participant.pointers = message.pointers
+                const { peer, pointers } = participant
+                for (const other of others(peer)) other.send({ type: "pointers", peer, pointers })
+                return
+            }
+            case "fold": {
+                if (!participant.joined) return
+                // Every fold is acknowledged, merged or not, so the sender knows which relayed changes came after it.
+                participant.send({ type: "ack" })
+                const { indices, dx, dy } = message.delta
+                const nodes = [...indices, ...(message.delta.pinned ?? []), ...(message.delta.unpinned ?? [])]
+                const cuts = [...(message.delta.cut ?? []), ...(message.delta.mended ?? [])]
+                if (nodes.some((index) => index >= stepsX.length) || cuts.some((index) => index >= edgeCount)) return
+                indices.forEach((index, k) => {
+                    stepsX[index] += dx[k]
+                    stepsY[index] += dy[k]
+                })
+                // Pins and cuts go to whoever changed them last, in the order the relay sees them.
+                for (const index of message.delta.pinned ?? []) pinned.add(index)
+                for (const index of message.delta.unpinned ?? []) pinned.delete(index)
+                for (const index of message.delta.cut ?? []) broken.add(index)
+                for (const index of message.delta.mended ?? []) broken.delete(index)
+                const { peer } = participant
+                for (const other of others(peer)) other.send({ type: "fold", peer, delta: message.delta })
+            }
+        }
+    }
+
+    return {
+        connect: (peer) => {
+            const participant: Participant = {
+                peer: nextPeer,
+                color: PEER_COLORS[(nextPeer - 1) % PEER_COLORS.length],
+                pointers: [],
+                send: (message) => peer.send(JSON.stringify(message)),
+                joined: false
+            }
+            nextPeer += 1
+            participants.set(participant.peer, participant)
+            return {
+                receive: (data) => {
+                    const message = parseMessage(data)
+                    if (message) receive(participant, message)
+                },
+                close: () => {
+                    if (!participants.delete(participant.peer) || !participant.joined) return
+                    for (const other of others(participant.peer)) other.send({ type: "leave", peer: participant.peer })
+                }
+            }
+        },
+        state,
+        peers: () => others(0).length
+    }
+}
+
+/**
+ * An in-process stand-in for a WebSocket to the relay, for tests and for
+ * sharing a lattice between views on one page. Messages are delivered on
+ * later microtasks, like a network would, and in order.
+ */
+export function createLocalSocket(relay: Relay): SessionSocket {
+    type Listener = (event: MessageEvent<string>) => void
+    const listeners: Record<"open" | "message" | "close", Listener[]> = { open: [], message: [], close: [] }
+    let open = false
+    const emit = (type: keyof typeof listeners, data = "") => {
+        for (const listener of listeners[type]) listener(new MessageEvent(type, { data }))
+    }
+    const connection = relay.connect({
+        send: (data) => queueMicrotask(() => open && emit("message", data))
+    })
+    queueMicrotask(() => {
+        open = true
+        emit("open")
+    })
+
+    return {
+        send: (data) => queueMicrotask(() => open && connection.receive(data)),
+        close: () => {
+            if (!open) return
+            open = false
+            connection.close()
+            queueMicrotask(() => emit("close"))
+        },
+        addEventListener: (type, listener) => {
+            listeners[type].push(listener)
+        }
+    }
+}
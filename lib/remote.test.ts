@@ -0,0 +1,159 @@
+import { HOME_VIEW } from "@/lib/camera"
+import { HELIOS_PALETTE } from "@/lib/palette"
+import { connectWorker, localRuntime, type WorkerPort, type WorkerReply, type WorkerRequest } from "@/lib/remote"
+import { createGridRuntime, type RuntimeOptions } from "@/lib/runtime"
+import type { StepInput } from "@/lib/simulation"
+import { serveRuntime } from "@/lib/worker"
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest"
+
+const OPTIONS: RuntimeOptions = { width: 320, height: 200, seed: 3, geometry: "rectangular", palette: HELIOS_PALETTE }
+const REPORT = { stats: true, flips: false }
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+/** Enough of a 2D context for the batched renderer to paint into. */
+const paintContext = () => ({ setTransform: vi.fn(), fillRect: vi.fn(), fill: vi.fn(), stroke: vi.fn() })
+
+/** A worker served in-process; messages are cloned and delivered asynchronously like the real thing. */
+function fakeWorker(getContext: () => unknown = paintContext) {
+    const toHost: ((event: MessageEvent<WorkerReply>) => void)[] = []
+    const toWorker: ((event: MessageEvent<WorkerRequest>) => void)[] = []
+    const sent: WorkerRequest[] = []
+    const deliver = <T,>(listeners: ((event: MessageEvent<T>) => void)[], data: T) =>
+        setTimeout(() => {
+            for (const listener of listeners) listener({ data } as MessageEvent<T>)
+        }, 0)
+
+    serveRuntime({
+        postMessage: (message) => deliver(toHost, structuredClone(message)),
+        addEventListener: (_type, listener) => toWorker.push(listener)
+    })
+    const port: WorkerPort = {
+        postMessage: (message) => {
+            // The canvas is transferred rather than cloned.
+            const data = message.type === "init" ? message : structuredClone(message)
+            sent.push(message)
+            deliver(toWorker, data)
+        },
+        addEventListener: (type, listener) => {
+            if (type === "message") toHost.push(listener)
+        },
+        terminate: vi.fn()
+    }
+    const canvas = { width: 0, height: 0, getContext } as unknown as OffscreenCanvas
+    return { port, sent, canvas }
+}
+
+beforeEach(() => {
+    vi.stubGlobal(
+        "Path2D",
+        class {
+            moveTo() {}
+            lineTo() {}
+            closePath() {}
+            rect() {}
+        }
+    )
+})
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe("worker runtime", () => {
+    test("answers calls with the same results as an in-thread runtime", async () => {
+        const { port, canvas } = fakeWorker()
+        const link = connectWorker(port, canvas, OPTIONS, { onFrame: vi.fn(), onError: vi.fn() })
+        const local = localRuntime(createGridRuntime(OPTIONS))
+
+        await Promise.all([link.runtime.impulse(160, 100, 4), local.impulse(160, 100, 4)])
+        expect(await link.runtime.snapshot()).toEqual(await local.snapshot())
+        expect(await link.runtime.startRecording()).toBe(true)
+        expect(await link.runtime.stopRecording()).toEqual(expect.objectContaining({ seed: 3 }))
+
+        link.resize(400, 240)
+        await settle()
+        expect([canvas.width, canvas.height]).toEqual([400, 240])
+    })
+
+    test("holds elapsed time back while a frame is still being drawn", async () => {
+        const { port, sent, canvas } = fakeWorker()
+        const onFrame = vi.fn()
+        const link = connectWorker(port, canvas, OPTIONS, { onFrame, onError: vi.fn() })
+
+        link.frame(20, { pointers: [] }, REPORT, HOME_VIEW)
+        link.frame(20, { pointers: [] }, REPORT, HOME_VIEW)
+        link.frame(20, { pointers: [] }, REPORT, HOME_VIEW)
+        await settle()
+        await settle()
+        expect(onFrame).toHaveBeenCalledTimes(1)
+        expect(onFrame).toHaveBeenCalledWith(expect.objectContaining({ energy: expect.any(Number) }), [], null)
+
+        link.frame(20, { pointers: [] }, REPORT, HOME_VIEW)
+        const frames = sent.filter((message) => message.type === "frame")
+        expect(frames.map((message) => message.type === "frame" && message.deltaMs)).toEqual([20, 60])
+    })
+
+    test("reports a frame that throws and keeps sending frames", async () => {
+        const { port, sent, canvas } = fakeWorker()
+        const onFrame = vi.fn()
+        const onError = vi.fn()
+        const link = connectWorker(port, canvas, OPTIONS, { onFrame, onError })
+
+        link.frame(20, { pointers: null } as unknown as StepInput, REPORT, HOME_VIEW)
+        await settle()
+        await settle()
+        expect(onError).toHaveBeenCalledWith(expect.any(Error))
+        expect(onFrame).not.toHaveBeenCalled()
+
+        link.frame(20, { pointers: [] }, REPORT, HOME_VIEW)
+        await settle()
+        await settle()
+        expect(sent.filter((message) => message.type === "frame")).toHaveLength(2)
+        expect(onFrame).toHaveBeenCalledTimes(1)
+    })
+
+    const lostCanvas = () => {
+        throw new Error("Canvas lost")
+    }
+
+    test.each([
+        ["has no 2D context", () => null],
+        ["throws while starting", lostCanvas]
+    ])("reports every frame as failed when the canvas %s, so the host can fall back", async (_, getContext) => {
+        const { port, sent, canvas } = fakeWorker(getContext)
+        const onFrame = vi.fn()
+        const onError = vi.fn()
+        const link = connectWorker(port, canvas, OPTIONS, { onFrame, onError })
+        await settle()
+        await settle()
+        expect(onError).toHaveBeenCalledTimes(1)
+
+        link.frame(20, { pointers: [] }, REPORT, HOME_VIEW)
+        await settle()
+        await settle()
+        link.frame(20, { pointers: [] }, REPORT, HOME_VIEW)
+        await settle()
+        await settle()
+        expect(sent.filter((message) => message.type === "frame")).toHaveLength(2)
+        expect(onError).toHaveBeenCalledTimes(3)
+        expect(onFrame).not.toHaveBeenCalled()
+        await expect(link.runtime.snapshot()).rejects.toThrow(/2D context|Canvas lost/)
+    })
+
+    test("rejects fields it cannot send and every call after disposal", async () => {
+        const { port, canvas } = fakeWorker()
+        const link = connectWorker(port, canvas, OPTIONS, { onFrame: vi.fn(), onError: vi.fn() })
+
+        await expect(
+            link.runtime.setField("pulse", { kind: "attractor", x: 0, y: 0, strength: 1, modulate: Math.sin })
+        ).rejects.toThrow("setField")
+        await link.runtime.setField("pull", { kind: "attractor", x: 0, y: 0, radius: 40, strength: 1 })
+
+        const pending = link.runtime.snapshot()
+        link.dispose()
+        await expect(pending).rejects.toThrow("stopped")
+        await expect(link.runtime.reset()).rejects.toThrow("stopped")
+        expect(port.terminate).toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,195 @@
+import type { CameraView } from "@/lib/camera"
+import type { DiagnosticsReport } from "@/lib/diagnostics"
+import type { FrameReport, GridFacetFlip, GridRuntime, RuntimeOptions } from "@/lib/runtime"
+import type { SimulationStats, StepInput } from "@/lib/simulation"
+
+/**
+ * Runtime methods a host may call. `tick` and `resize` have their own
+ * messages, since the worker also paints and sizes its canvas for them.
+ */
+export const RUNTIME_METHODS = [
+    "setGeometry",
+    "setHealing",
+    "configure",
+    "setPalette",
+    "setAttract",
+    "setDiagnostics",
+    "impulse",
+    "reset",
+    "pause",
+    "resume",
+    "setField",
+    "removeField",
+    "morphTo",
+    "undo",
+    "redo",
+    "snapshot",
+    "restore",
+    "joinSession",
+    "leaveSession",
+    "takeFold",
+    "applyFold",
+    "startRecording",
+    "stopRecording",
+    "startCapture",
+    "stopCapture",
+    "play",
+    "stopPlayback",
+    "seek",
+    "setSpeed",
+    "setLoop",
+    "playback",
+    "exportSvg",
+    "exportPngSequence"
+] as const satisfies readonly Exclude<keyof GridRuntime, "tick" | "resize">[]
+
+export type RuntimeMethod = (typeof RUNTIME_METHODS)[number]
+
+/**
+ * A runtime reached through messages. Calls run in the order they are made
+ * and resolve once the runtime has handled them.
+ */
+export type RemoteRuntime = {
+    [K in RuntimeMethod]: (...args: Parameters<GridRuntime[K]>) => Promise<Awaited<ReturnType<GridRuntime[K]>>>
+}
+
+export type WorkerRequest =
+    | { type: "init"; canvas: OffscreenCanvas; options: RuntimeOptions }
+    | { type: "resize"; width: number; height: number }
+    | { type: "frame"; deltaMs: number; input: StepInput; report: FrameReport; camera: CameraView }
+    | { type: "call"; id: number; method: RuntimeMethod; args: unknown[] }
+
+export type WorkerReply =
+    | { type: "frame"; stats: SimulationStats | null; flips: GridFacetFlip[]; diagnostics: DiagnosticsReport | null }
+    /**
+     * Answers a frame request whose tick or paint threw, or that the worker
+     * cannot paint at all, so the host can send the next one or fall back.
+     * A failed init sends one too.
+     */
+    | { type: "frameError"; error: string }
+    | { type: "result"; id: number; value?: unknown; error?: string }
+
+/** The parts of `Worker` the link uses, so tests can stand in for one. */
+export type WorkerPort = {
+    postMessage: (message: WorkerRequest, options?: StructuredSerializeOptions) => void
+    addEventListener: (type: "message" | "error", listener: (event: MessageEvent<WorkerReply>) => void) => void
+    terminate: () => void
+}
+
+export type WorkerLink = {
+    runtime: RemoteRuntime
+    resize: (width: number, height: number) => void
+    /**
+     * Asks the worker to advance and paint. While the previous frame is still
+     * being drawn the elapsed time is held back and sent with the next one.
+     * The worker paints through `camera`; pointers are already mapped by it.
+     */
+    frame: (deltaMs: number, input: StepInput, report: FrameReport, camera: CameraView) => void
+    dispose: () => void
+}
+
+export type WorkerLinkCallbacks = {
+    onFrame: (stats: SimulationStats | null, flips: GridFacetFlip[], diagnostics: DiagnosticsReport | null) => void
+    /** The worker failed to load, a frame threw, or it threw outside a call. */
+    onError: (error: unknown) => void
+}
+
+/** True where both Web Workers and canvas transfer to OffscreenCanvas exist. */
+export function supportsWorkerRendering() {
+    return (
+        typeof Worker !== "undefined" &&
+        typeof OffscreenCanvas !== "undefined" &&
+        typeof HTMLCanvasElement !== "undefined" &&
+        "transferControlToOffscreen" in HTMLCanvasElement.prototype
+    )
+}
+
+/** Wraps an in-thread runtime in the same promise-based shape as a worker's. */
+export function localRuntime(runtime: GridRuntime): RemoteRuntime {
+    const methods: Record<string, (...args: unknown[]) => Promise<unknown>> = {}
+    for (const method of RUNTIME_METHODS) {
+        const call = runtime[method] as (...args: unknown[]) => unknown
+        methods[method] = async (...args) => call(...args)
+    }
+    return methods as RemoteRuntime
+}
+
+/**
+ * Hands `canvas` to a worker running `serveRuntime` and returns the host's
+ * side of the conversation.
+ */
+export function connectWorker(
+    worker: WorkerPort,
+    canvas: OffscreenCanvas,
+    options: RuntimeOptions,
+    callbacks: WorkerLinkCallbacks
+): WorkerLink {
+    const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>()
+    let nextId = 1
+    let inFlight = false
+    let heldMs = 0
+    let disposed = false
+
+    worker.addEventListener("message", (event) => {
+        const reply = event.data
+        if (reply.type === "frame") {
+            inFlight = false
+            callbacks.onFrame(reply.stats, reply.flips, reply.diagnostics)
+            return
+        }
+        if (reply.type === "frameError") {
+            inFlight = false
+            callbacks.onError(new Error(reply.error))
+            return
+        }
+        const call = pending.get(reply.id)
+        if (!call) return
+        pending.delete(reply.id)
+        if (reply.error !== undefined) call.reject(new Error(reply.error))
+        else call.resolve(reply.value)
+    })
+    worker.addEventListener("error", (event) => callbacks.onError(event))
+
+    worker.postMessage({ type: "init", canvas, options }, { transfer: [canvas] })
+
+    const methods: Record<string, (...args: unknown[]) => Promise<unknown>> = {}
+    for (const method of RUNTIME_METHODS) {
+        methods[method] = (...args) =>
+            new Promise((resolve, reject) => {
+                if (disposed) {
+                    reject(new Error("The grid worker has been stopped"))
+                    return
+                }
+                const id = nextId
+                nextId += 1
+                pending.set(id, { resolve, reject })
+                try {
+                    worker.postMessage({ type: "call", id, method, args })
+                } catch (error) {
+                    // Functions, such as a field's `modulate`, cannot be cloned into a worker.
+                    pending.delete(id)
+                    reject(new Error(`Could not send ${method} to the grid worker: ${String(error)}`))
+                }
+            })
+    }
+
+    return {
+        runtime: methods as RemoteRuntime,
+        resize: (width, height) => {
+            if (!disposed) worker.postMessage({ type: "resize", width, height })
+        },
+        frame: (deltaMs, input, report, camera) => {
+            heldMs += deltaMs
+            if (inFlight || disposed) return
+            inFlight = true
+            worker.postMessage({ type: "frame", deltaMs: heldMs, input, report, camera })
+            heldMs = 0
+        },
+        dispose: () => {
+            disposed = true
+            worker.terminate()
+            for (const call of pending.values()) call.reject(new Error("The grid worker has been stopped"))
+            pending.clear()
+        }
+    }
+}
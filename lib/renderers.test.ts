@@ -0,0 +1,151 @@
+import type p5 from "p5"
+import { HELIOS_PALETTE } from "@/lib/palette"
+import { createCanvasRenderer, createP5Renderer } from "@/lib/renderers"
+import { buildScene, type Scene } from "@/lib/scene"
+import { createSimulation } from "@/lib/simulation"
+import { afterEach, describe, expect, test, vi } from "vitest"
+
+type Op = [string, ...number[]]
+
+class RecordingPath {
+    ops: Op[] = []
+    moveTo(x: number, y: number) {
+        this.ops.push(["moveTo", x, y])
+    }
+    lineTo(x: number, y: number) {
+        this.ops.push(["lineTo", x, y])
+    }
+    closePath() {
+        this.ops.push(["closePath"])
+    }
+    rect(x: number, y: number, width: number, height: number) {
+        this.ops.push(["rect", x, y, width, height])
+    }
+}
+
+/** What a backend was asked to draw, in a renderer-independent, order-free form. */
+type Drawn = { facets: number[][]; lines: number[][]; squares: number[][] }
+
+const sorted = (items: number[][]) => items.map((item) => item.join(",")).sort()
+
+function foldedScene(): Scene {
+    const simulation = createSimulation({ width: 320, height: 200, seed: 8 })
+    for (let i = 0; i < 40; i += 1) {
+        simulation.step({
+            pointers: [{ id: 1, x: Math.cos(i * 0.2) * 60, y: Math.sin(i * 0.2) * 40, pressed: true, touch: false }]
+        })
+    }
+    return buildScene(simulation.frame(), 0.5, HELIOS_PALETTE)
+}
+
+function expected(scene: Scene): Drawn {
+    return {
+        facets: scene.facets.map((facet) => facet.points),
+        lines: scene.lines.map((line) => [line.x1, line.y1, line.x2, line.y2]),
+        squares: scene.squares.map((square) => [square.x, square.y, square.size])
+    }
+}
+
+function drawWithP5(scene: Scene): Drawn {
+    const drawn: Drawn = { facets: [], lines: [], squares: [] }
+    let shape: number[] = []
+    const p = {
+        width: scene.width,
+        height: scene.height,
+        CLOSE: "close",
+        background: vi.fn(),
+        translate: vi.fn(),
+        scale: vi.fn(),
+        noStroke: vi.fn(),
+        fill: vi.fn(),
+        stroke: vi.fn(),
+        strokeWeight: vi.fn(),
+        quad: (...points: number[]) => drawn.facets.push(points),
+        triangle: (...points: number[]) => drawn.facets.push(points),
+        beginShape: () => {
+            shape = []
+        },
+        vertex: (x: number, y: number) => shape.push(x, y),
+        endShape: () => drawn.facets.push(shape),
+        line: (...points: number[]) => drawn.lines.push(points),
+        square: (x: number, y: number, size: number) => drawn.squares.push([x, y, size])
+    }
+    createP5Renderer(p as unknown as p5).draw(scene)
+    return drawn
+}
+
+function drawWithCanvas(scene: Scene) {
+    vi.stubGlobal("Path2D", RecordingPath)
+    const drawn: Drawn = { facets: [], lines: [], squares: [] }
+    const fills: RecordingPath[] = []
+    const strokes: RecordingPath[] = []
+    const context = {
+        setTransform: vi.fn(),
+        fillRect: vi.fn(),
+        fill: (path: RecordingPath) => fills.push(path),
+        stroke: (path: RecordingPath) => strokes.push(path)
+    }
+    createCanvasRenderer(context as unknown as CanvasRenderingContext2D).draw(scene)
+
+    for (const path of fills) {
+        let polygon: number[] = []
+        for (const [name, ...args] of path.ops) {
+            if (name === "rect") drawn.squares.push(args.slice(0, 3))
+            else if (name === "moveTo") polygon = [...args]
+            else if (name === "lineTo") polygon.push(...args)
+            else drawn.facets.push(polygon)
+        }
+    }
+    for (const path of strokes) {
+        for (let k = 0; k < path.ops.length; k += 2) {
+            const [, x1, y1] = path.ops[k]
+            const [, x2, y2] = path.ops[k + 1]
+            drawn.lines.push([x1, y1, x2, y2])
+        }
+    }
+    return { drawn, fills: fills.length, strokes: strokes.length }
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe("scene renderers", () => {
+    test("hand the p5 and Canvas2D backends the same draw list", () => {
+        const scene = foldedScene()
+        const want = expected(scene)
+        const p5Drawn = drawWithP5(scene)
+        const { drawn: canvasDrawn } = drawWithCanvas(scene)
+
+        expect(scene.facets.length).toBeGreaterThan(0)
+        for (const drawn of [p5Drawn, canvasDrawn]) {
+            expect(sorted(drawn.facets)).toEqual(sorted(want.facets))
+            expect(sorted(drawn.lines)).toEqual(sorted(want.lines))
+            expect(sorted(drawn.squares)).toEqual(sorted(want.squares))
+        }
+    })
+
+    test("batches primitives by quantised colour and alpha", () => {
+        const scene = foldedScene()
+        const { fills, strokes } = drawWithCanvas(scene)
+        const lineAlphas = new Set(scene.lines.map((line) => Math.round(line.alpha / 8)))
+
+        expect(strokes).toBe(lineAlphas.size)
+        expect(strokes).toBeLessThan(scene.lines.length / 10)
+        expect(fills).toBeLessThan((scene.facets.length + scene.squares.length) / 4)
+    })
+
+    test("paints through a camera about the viewport centre", () => {
+        vi.stubGlobal("Path2D", RecordingPath)
+        const setTransform = vi.fn()
+        const context = { setTransform, fillRect: vi.fn(), fill: vi.fn(), stroke: vi.fn() }
+
+        createCanvasRenderer(context as unknown as CanvasRenderingContext2D).draw(foldedScene(), {
+            x: 10,
+            y: -5,
+            zoom: 2
+        })
+
+        expect(setTransform).toHaveBeenLastCalledWith(2, 0, 0, 2, 140, 110)
+    })
+})
@@ -0,0 +1,153 @@
+import type p5 from "p5"
+import { HOME_VIEW, type CameraView } from "@/lib/camera"
+import type { PaintContext } from "@/lib/export"
+import type { Rgb } from "@/lib/palette"
+import type { Scene } from "@/lib/scene"
+
+export type RendererKind = "p5" | "canvas"
+
+/** Paints scene draw lists onto one surface, replacing what was there, through a camera (home by default). */
+export type SceneRenderer = {
+    draw: (scene: Scene, camera?: CameraView) => void
+}
+
+/** Colour channels are rounded to this step before batching. */
+const COLOR_STEP = 8
+/** Alpha (0–255) is rounded to this step before batching. */
+const ALPHA_STEP = 8
+
+const quantize = (value: number, step: number) => Math.max(0, Math.min(255, Math.round(value / step) * step))
+
+type Batch = {
+    style: string
+    alpha: number
+    path: Path2D
+}
+
+/** Finds or opens the batch for a colour and alpha after quantising both. */
+function batchFor(batches: Map<number, Batch>, color: Rgb, alpha: number) {
+    const r = quantize(color[0], COLOR_STEP)
+    const g = quantize(color[1], COLOR_STEP)
+    const b = quantize(color[2], COLOR_STEP)
+    const a = quantize(alpha, ALPHA_STEP)
+    const key = ((r * 256 + g) * 256 + b) * 256 + a
+    let batch = batches.get(key)
+    if (!batch) {
+        batch = { style: `rgb(${r},${g},${b})`, alpha: a / 255, path: new Path2D() }
+        batches.set(key, batch)
+    }
+    return batch
+}
+
+/**
+ * Immediate-mode backend: one p5 call per primitive, with its own fill or
+ * stroke. Exact colours, but slow on dense lattices.
+ */
+export function createP5Renderer(p: p5): SceneRenderer {
+    return {
+        draw: (scene, camera = HOME_VIEW) => {
+            p.background(scene.background[0], scene.background[1], scene.background[2])
+            p.translate(p.width * 0.5, p.height * 0.5)
+            p.scale(camera.zoom)
+            p.translate(-camera.x, -camera.y)
+
+            p.noStroke()
+            for (const facet of scene.facets) {
+                const { points, color, alpha } = facet
+                p.fill(color[0], color[1], color[2], alpha)
+                if (points.length === 8) {
+                    p.quad(points[0], points[1], points[2], points[3], points[4], points[5], points[6], points[7])
+                } else if (points.length === 6) {
+                    p.triangle(points[0], points[1], points[2], points[3], points[4], points[5])
+                } else {
+                    p.beginShape()
+                    for (let k = 0; k < points.length; k += 2) p.vertex(points[k], points[k + 1])
+                    p.endShape(p.CLOSE)
+                }
+            }
+
+            const { lineColor } = scene
+            p.strokeWeight(scene.lineWidth)
+            for (const line of scene.lines) {
+                p.stroke(lineColor[0], lineColor[1], lineColor[2], line.alpha)
+                p.line(line.x1, line.y1, line.x2, line.y2)
+            }
+
+            p.noStroke()
+            for (const square of scene.squares) {
+                p.fill(square.color[0], square.color[1], square.color[2], square.alpha)
+                p.square(square.x, square.y, square.size)
+            }
+        }
+    }
+}
+
+/**
+ * Native Canvas2D backend. Primitives are grouped by quantised colour and
+ * alpha into one `Path2D` each, so a frame costs a few dozen fills and
+ * strokes instead of one per primitive. Overlapping shapes in the same
+ * batch are painted once rather than blended twice. `scale` maps CSS pixels
+ * to canvas pixels.
+ */
+export function createCanvasRenderer(context: PaintContext, options: { scale?: number } = {}): SceneRenderer {
+    const scale = options.scale ?? 1
+
+    function paint(batches: Map<number, Batch>, mode: "fill" | "stroke") {
+        for (const batch of batches.values()) {
+            context.globalAlpha = batch.alpha
+            if (mode === "fill") {
+                context.fillStyle = batch.style
+                context.fill(batch.path)
+            } else {
+                context.strokeStyle = batch.style
+                context.stroke(batch.path)
+            }
+        }
+    }
+
+    return {
+        draw: (scene, camera = HOME_VIEW) => {
+            context.setTransform(scale, 0, 0, scale, scene.width * 0.5 * scale, scene.height * 0.5 * scale)
+            context.globalAlpha = 1
+            const [r, g, b] = scene.background
+            context.fillStyle = `rgb(${Math.round(r)},${Math.round(g)},${Math.round(b)})`
+            context.fillRect(-scene.width * 0.5, -scene.height * 0.5, scene.width, scene.height)
+            const zoom = camera.zoom * scale
+            context.setTransform(
+                zoom,
+                0,
+                0,
+                zoom,
+                (scene.width * 0.5 - camera.x * camera.zoom) * scale,
+                (scene.height * 0.5 - camera.y * camera.zoom) * scale
+            )
+
+            const facets = new Map<number, Batch>()
+            for (const facet of scene.facets) {
+                const { points } = facet
+                const { path } = batchFor(facets, facet.color, facet.alpha)
+                path.moveTo(points[0], points[1])
+                for (let k = 2; k < points.length; k += 2) path.lineTo(points[k], points[k + 1])
+                path.closePath()
+            }
+            paint(facets, "fill")
+
+            const lines = new Map<number, Batch>()
+            for (const line of scene.lines) {
+                const { path } = batchFor(lines, scene.lineColor, line.alpha)
+                path.moveTo(line.x1, line.y1)
+                path.lineTo(line.x2, line.y2)
+            }
+            context.lineWidth = scene.lineWidth
+            context.lineCap = "round"
+            paint(lines, "stroke")
+
+            const squares = new Map<number, Batch>()
+            for (const square of scene.squares) {
+                batchFor(squares, square.color, square.alpha).path.rect(square.x, square.y, square.size, square.size)
+            }
+            paint(squares, "fill")
+            context.globalAlpha = 1
+        }
+    }
+}
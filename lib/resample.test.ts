@@ -0,0 +1,28 @@
+import { createSampledField } from "@/lib/resample"
+import { describe, expect, test } from "vitest"
+
+describe("sampled field", () => {
+    const points = new Float64Array([0, 0, 10, 0, 0, 10])
+    const values = new Float64Array([1, -1, 3, -3, 5, -5])
+    const field = createSampledField(points, values, 2, 12)
+    const out = new Float64Array(2)
+
+    test("returns source values exactly at source points", () => {
+        expect(field.sample(10, 0, out)).toBe(true)
+        expect(out[0]).toBeCloseTo(3, 6)
+        expect(out[1]).toBeCloseTo(-3, 6)
+    })
+
+    test("blends nearby sources by inverse distance", () => {
+        field.sample(5, 0, out)
+
+        expect(out[0]).toBeGreaterThan(1)
+        expect(out[0]).toBeLessThan(3)
+        expect(out[1]).toBeCloseTo(-out[0], 9)
+    })
+
+    test("reports points outside every source's reach", () => {
+        expect(field.sample(100, 100, out)).toBe(false)
+        expect(Array.from(out)).toEqual([0, 0])
+    })
+})
@@ -0,0 +1,56 @@
+export type SampledField = {
+    /**
+     * Writes the inverse-distance-weighted value at (x, y) into `out` and
+     * returns false when no source point lies within reach.
+     */
+    sample: (x: number, y: number, out: Float64Array) => boolean
+}
+
+/**
+ * Scattered-data field over arbitrary 2D points, bucketed into a uniform
+ * grid so each sample only visits nearby sources. Works for any lattice
+ * geometry because it never relies on grid indices.
+ */
+export function createSampledField(
+    points: Float64Array,
+    values: Float64Array,
+    channels: number,
+    reach: number
+): SampledField {
+    const count = points.length / 2
+    const cell = Math.max(1e-6, reach)
+    const buckets = new Map<number, number[]>()
+    const keyOf = (cx: number, cy: number) => cx * 73856093 + cy * 19349663
+
+    for (let i = 0; i < count; i += 1) {
+        const key = keyOf(Math.floor(points[i * 2] / cell), Math.floor(points[i * 2 + 1] / cell))
+        const bucket = buckets.get(key)
+        if (bucket) bucket.push(i)
+        else buckets.set(key, [i])
+    }
+
+    function sample(x: number, y: number, out: Float64Array) {
+        out.fill(0, 0, channels)
+        const cx = Math.floor(x / cell)
+        const cy = Math.floor(y / cell)
+        let total = 0
+        for (let dy = -1; dy <= 1; dy += 1) {
+            for (let dx = -1; dx <= 1; dx += 1) {
+                const bucket = buckets.get(keyOf(cx + dx, cy + dy))
+                if (!bucket) continue
+                for (const i of bucket) {
+                    const distance = Math.hypot(points[i * 2] - x, points[i * 2 + 1] - y)
+                    if (distance > reach) continue
+                    const weight = 1 / (distance * distance + 1e-6)
+                    for (let k = 0; k < channels; k += 1) out[k] += values[i * channels + k] * weight
+                    total += weight
+                }
+            }
+        }
+        if (total === 0) return false
+        for (let k = 0; k < channels; k += 1) out[k] /= total
+        return true
+    }
+
+    return { sample }
+}
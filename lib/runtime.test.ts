@@ -0,0 +1,92 @@
+import { HELIOS_PALETTE } from "@/lib/palette"
+import { createPlayer, parseRecording } from "@/lib/recording"
+import { ATTRACT_IDLE_MS, createGridRuntime, THEME_FADE_MS, type RuntimeOptions } from "@/lib/runtime"
+import { createSimulation, type StepInput } from "@/lib/simulation"
+import { createFixedTimestep } from "@/lib/timestep"
+import { describe, expect, test } from "vitest"
+
+const FRAME_MS = 20
+const REPORT = { stats: true, flips: true }
+const OPTIONS: RuntimeOptions = { width: 320, height: 200, seed: 1, geometry: "rectangular", palette: HELIOS_PALETTE }
+
+function press(x: number, y: number, pressed = true): StepInput {
+    return { pointers: [{ id: 1, x, y, pressed, touch: false }], tool: "pull" }
+}
+
+describe("grid runtime", () => {
+    test("steps the lattice from host-pixel input like a bare simulation", () => {
+        const runtime = createGridRuntime({ ...OPTIONS, seed: 9 })
+        const simulation = createSimulation({ width: 320, height: 200, seed: 9, geometry: "rectangular" })
+        const timestep = createFixedTimestep()
+
+        for (let frame = 0; frame < 30; frame += 1) {
+            const x = 160 + frame * 2
+            const result = runtime.tick(FRAME_MS, press(x, 120), REPORT)
+            timestep.advance(FRAME_MS, () => simulation.step(press(x - 160, 20)))
+            expect(result.stats).toEqual(simulation.stats())
+        }
+
+        expect(runtime.snapshot()).toEqual(simulation.snapshot())
+        expect(runtime.tick(FRAME_MS, press(0, 0), { stats: false, flips: false }).stats).toBeNull()
+    })
+
+    test("fades to a new palette instead of switching at once", () => {
+        const runtime = createGridRuntime({ ...OPTIONS, seed: 2 })
+        const night = { ...HELIOS_PALETTE, background: [9, 8, 7] as const }
+        runtime.setPalette(night)
+
+        const midway = runtime.tick(THEME_FADE_MS / 2, { pointers: [] }, REPORT).scene.background
+        expect(midway).not.toEqual(HELIOS_PALETTE.background)
+        expect(midway).not.toEqual(night.background)
+
+        const settled = runtime.tick(THEME_FADE_MS, { pointers: [] }, REPORT).scene.background
+        expect(settled).toEqual(night.background)
+    })
+
+    test("loops the attract recording while idle and hands control back on input", () => {
+        const runtime = createGridRuntime({ ...OPTIONS, seed: 5 })
+        expect(runtime.startRecording()).toBe(true)
+        for (let frame = 0; frame < 20; frame += 1) runtime.tick(FRAME_MS, press(100 + frame * 4, 80), REPORT)
+        const recording = runtime.stopRecording()
+        expect(recording?.steps.length).toBeGreaterThan(0)
+
+        runtime.setAttract(recording)
+        for (let idle = 0; idle <= ATTRACT_IDLE_MS; idle += 500) runtime.tick(500, { pointers: [] }, REPORT)
+        // Attract playback is not reported as playback and blocks recording.
+        expect(runtime.playback()).toBeNull()
+        expect(runtime.startRecording()).toBe(false)
+
+        runtime.tick(FRAME_MS, press(40, 40), REPORT)
+        expect(runtime.startRecording()).toBe(true)
+    })
+
+    test("records edits made between steps so the replay ends where the live lattice did", () => {
+        const runtime = createGridRuntime({ ...OPTIONS, seed: 7 })
+        const saved = createGridRuntime({ ...OPTIONS, width: 400, seed: 7 })
+        saved.tick(FRAME_MS * 10, press(200, 100), REPORT)
+        const drag = (from: number) => {
+            for (let frame = 0; frame < 10; frame += 1) runtime.tick(FRAME_MS, press(from + frame * 5, 90), REPORT)
+            runtime.tick(FRAME_MS, press(from + 50, 90, false), REPORT)
+        }
+        expect(runtime.startRecording()).toBe(true)
+
+        drag(60)
+        runtime.configure({ damping: 0.3 })
+        runtime.setHealing(true)
+        runtime.setField("breeze", { kind: "wind", x: 160, y: 100, strength: 0.05, angle: 1, plastic: true })
+        runtime.impulse(100, 60, 4)
+        drag(140)
+        expect(runtime.undo()).toBe(true)
+        runtime.resize(360, 220)
+        runtime.removeField("breeze")
+        runtime.restore(saved.snapshot())
+        drag(100)
+        runtime.undo()
+        const recording = parseRecording(JSON.stringify(runtime.stopRecording()))
+        const player = createPlayer(recording)
+        player.advance(recording.steps.length)
+
+        expect(recording.edits?.map(([, , edit]) => edit.type)).toContain("restore")
+        expect(player.simulation.snapshot()).toEqual(runtime.snapshot())
+    })
+})
@@ -0,0 +1,439 @@
+import { createCapture, type Capture, type CaptureOptions } from "@/lib/capture"
+import { inspectNode, signalHistogram, type DiagnosticsReport } from "@/lib/diagnostics"
+import { renderPngSequence, sceneToSvg } from "@/lib/export"
+import type { ForceField } from "@/lib/fields"
+import type { LatticeGeometry } from "@/lib/lattices"
+import { mixPalette, type GridPalette } from "@/lib/palette"
+import { createPlayer, createRecorder, type Player, type Recorder, type Recording } from "@/lib/recording"
+import { createSceneBuilder, type Scene } from "@/lib/scene"
+import type { ShapeMask, ShapeOptions } from "@/lib/shapes"
+import {
+    createSimulation,
+    DEFAULT_HEAL_RATE,
+    type FacetFlip,
+    type LatticeSimulation,
+    type PhysicsConfig,
+    type SimulationFrame,
+    type SimulationStats,
+    type StepInput
+} from "@/lib/simulation"
+import { createFoldTracker, type FoldDelta, type FoldTracker } from "@/lib/session"
+import type { LatticeSnapshot } from "@/lib/snapshot"
+import { createFixedTimestep, FIXED_STEP_MS } from "@/lib/timestep"
+
+export const THEME_FADE_MS = 900
+/** Pointer-free time after which an attract recording starts playing. */
+export const ATTRACT_IDLE_MS = 15000
+
+/** A facet flip with its centre in host pixels. */
+export type GridFacetFlip = FacetFlip & {
+    x: number
+    y: number
+}
+
+export type PlaybackState = {
+    position: number
+    length: number
+}
+
+export type RuntimeOptions = {
+    width: number
+    height: number
+    seed: number
+    geometry: LatticeGeometry
+    physics?: Partial<PhysicsConfig>
+    palette: GridPalette
+}
+
+/** Which per-frame extras the host wants; both cost a pass over the lattice. */
+export type FrameReport = {
+    stats: boolean
+    flips: boolean
+}
+
+export type RuntimeFrame = {
+    scene: Scene
+    /** Whole-lattice measures, or null when not requested. */
+    stats: SimulationStats | null
+    /** Facets that flipped during the ticks this frame ran. */
+    flips: GridFacetFlip[]
+    /** Measures for the diagnostics overlay, or null while it is off. */
+    diagnostics: DiagnosticsReport | null
+}
+
+/**
+ * Everything the grid does per frame, independent of where it is drawn: the
+ * live simulation, fixed timestep, recording, playback, the attract loop and
+ * theme fades. Coordinates are host pixels from the top-left corner.
+ */
+export type GridRuntime = {
+    /**
+     * Advances by `deltaMs` of wall time with the given input and returns the
+     * scene to draw. Pointer positions are host pixels.
+     */
+    tick: (deltaMs: number, input: StepInput, report: FrameReport) => RuntimeFrame
+    resize: (width: number, height: number) => void
+    setGeometry: (geometry: LatticeGeometry) => void
+    setHealing: (healing: boolean) => void
+    configure: (physics: Partial<PhysicsConfig>) => void
+    /** Fades from the palette on screen to `palette`. */
+    setPalette: (palette: GridPalette) => void
+    /** Recording looped while nobody touches the lattice; null turns it off. */
+    setAttract: (recording: Recording | null) => void
+    /**
+     * Turns the diagnostics report on or off. While on, facets are drawn as
+     * a strain and shear heatmap and the first pointer inspects the node
+     * under it.
+     */
+    setDiagnostics: (enabled: boolean) => void
+    impulse: (x: number, y: number, strength: number) => void
+    reset: () => void
+    pause: () => void
+    resume: () => void
+    setField: (name: string, field: ForceField) => void
+    removeField: (name: string) => void
+    morphTo: (mask: ShapeMask | null, options?: ShapeOptions) => void
+    undo: () => boolean
+    redo: () => boolean
+    snapshot: () => LatticeSnapshot
+    /** Loads a snapshot onto the current viewport and returns its geometry. */
+    restore: (snapshot: LatticeSnapshot) => LatticeGeometry
+    /**
+     * Loads a relay session's shared lattice and keeps it at the session's
+     * size, centred in the host, until `leaveSession`. Geometry switches and
+     * snapshot loads are ignored meanwhile, since they would rebuild the mesh.
+     */
+    joinSession: (snapshot: LatticeSnapshot) => void
+    /** Fits the lattice back to the host, keeping the shared folds. */
+    leaveSession: () => void
+    /** Folds made here since the last call, for the relay; null outside a session or when nothing moved. */
+    takeFold: () => FoldDelta | null
+    /** Applies a fold another participant made. */
+    applyFold: (delta: FoldDelta) => void
+    /**
+     * Returns false while a recording is playing, which cannot be recorded.
+     * Edits made while recording (physics, healing, fields, impulses, undo,
+     * morphs, snapshot loads and session folds) are recorded with the steps.
+     */
+    startRecording: () => boolean
+    stopRecording: () => Recording | null
+    /** Starts sampling the live lattice into a data file, replacing any running capture. */
+    startCapture: (options: CaptureOptions) => void
+    /** Ends the capture and returns its file, or null when none was running. */
+    stopCapture: () => Blob | null
+    play: (recording: Recording, loop: boolean) => PlaybackState
+    stopPlayback: () => void
+    seek: (step: number) => PlaybackState | null
+    setSpeed: (speed: number) => void
+    setLoop: (loop: boolean) => void
+    /** Position of an explicitly started playback; attract loops report null. */
+    playback: () => PlaybackState | null
+    exportSvg: () => string | null
+    exportPngSequence: (options: { frames: number; width: number; stepsPerFrame?: number }) => Promise<Blob[]>
+}
+
+export function createGridRuntime(options: RuntimeOptions): GridRuntime {
+    let width = Math.max(1, options.width)
+    let height = Math.max(1, options.height)
+    const simulation = createSimulation({
+        width,
+        height,
+        seed: options.seed,
+        geometry: options.geometry,
+        physics: options.physics
+    })
+    const timestep = createFixedTimestep()
+    // Fields in host pixels; re-placed whenever the lattice origin moves.
+    const fields = new Map<string, ForceField>()
+    let paused = false
+    let speed = 1
+    let loop = false
+    let recorder: Recorder | null = null
+    let capture: Capture | null = null
+    let session: FoldTracker | null = null
+    let player: Player | null = null
+    let attract: Recording | null = null
+    let attracting = false
+    let idleMs = 0
+    let lastInput = ""
+    const scenes = createSceneBuilder()
+    // The builder reuses this scene; it is only read before the next frame is built.
+    let lastScene: Scene | null = null
+    let diagnosing = false
+    let frameMs = FIXED_STEP_MS
+    // Theme changes fade from whatever is on screen to the new palette.
+    let shownPalette = options.palette
+    let fade = { from: shownPalette, to: shownPalette, elapsed: THEME_FADE_MS }
+
+    function currentPalette(deltaMs: number) {
+        fade.elapsed = Math.min(THEME_FADE_MS, fade.elapsed + deltaMs)
+        const progress = fade.elapsed / THEME_FADE_MS
+        shownPalette =
+            progress >= 1 ? fade.to : mixPalette(fade.from, fade.to, progress * progress * (3 - 2 * progress))
+        return shownPalette
+    }
+
+    /** Registers a field given in host pixels at its lattice-space position. */
+    function placeField(name: string, field: ForceField) {
+        const placed = { ...field, x: field.x - width * 0.5, y: field.y - height * 0.5 }
+        recorder?.note({ type: "setField", name, field: placed })
+        simulation.setField(name, placed)
+    }
+
+    function toLattice(input: StepInput): StepInput {
+        return {
+            pointers: input.pointers.map((pointer) => ({
+                ...pointer,
+                x: pointer.x - width * 0.5,
+                y: pointer.y - height * 0.5
+            })),
+            tool: input.tool
+        }
+    }
+
+    function collectFlips(frame: SimulationFrame, out: GridFacetFlip[]) {
+        for (const flip of frame.facetFlips) {
+            const { corners } = frame.facets[flip.facet]
+            let x = 0
+            let y = 0
+            for (const index of corners) {
+                x += frame.nodes.x[index] / corners.length
+                y += frame.nodes.y[index] / corners.length
+            }
+            out.push({ ...flip, x: x + frame.width * 0.5, y: y + frame.height * 0.5 })
+        }
+    }
+
+    function diagnose(
+        shown: LatticeSimulation,
+        input: StepInput,
+        deltaMs: number,
+        timings: { lines: number; nodes: number }
+    ): DiagnosticsReport {
+        // Smoothed over roughly the last second of frames.
+        if (deltaMs > 0) frameMs += (deltaMs - frameMs) * 0.05
+        const frame = shown.frame()
+        const measures = shown.diagnostics()
+        const pointer = input.pointers[0]
+        return {
+            ...measures,
+            fps: 1000 / frameMs,
+            passMs: { ...measures.passMs, ...timings },
+            signalHistogram: signalHistogram(frame),
+            inspected: pointer
+                ? inspectNode(frame, pointer.x, pointer.y, Math.max(frame.spacingX, frame.spacingY))
+                : null
+        }
+    }
+
+    /** Starts the attract loop after a quiet spell and stops it on any input. */
+    function updateAttract(input: StepInput, deltaMs: number) {
+        const signature = JSON.stringify(input.pointers)
+        const active = signature !== lastInput || input.pointers.some((pointer) => pointer.pressed)
+        lastInput = signature
+        idleMs = active ? 0 : idleMs + deltaMs
+        if (attracting && active) {
+            player = null
+            attracting = false
+            return
+        }
+        if (!attract || player || recorder || idleMs < ATTRACT_IDLE_MS) return
+        player = createPlayer(attract, { loop: true })
+        attracting = true
+    }
+
+    function tick(deltaMs: number, hostInput: StepInput, report: FrameReport): RuntimeFrame {
+        const input = toLattice(hostInput)
+        updateAttract(input, deltaMs)
+        const active = player
+        const shown = active?.simulation ?? simulation
+        const flips: GridFacetFlip[] = []
+        let blend = 1
+        if (paused) {
+            // Drop the paused time so resuming does not fast-forward.
+            timestep.reset()
+        } else if (active) {
+            blend = timestep.advance(deltaMs, () => {
+                active.advance(speed)
+                if (report.flips) collectFlips(shown.frame(), flips)
+            })
+        } else {
+            blend = timestep.advance(deltaMs, () => {
+                recorder?.record(input)
+                simulation.step(input)
+                capture?.record()
+                if (report.flips) collectFlips(simulation.frame(), flips)
+            })
+        }
+        const timings = { lines: 0, nodes: 0 }
+        const scene = scenes.build(shown.frame(), blend, currentPalette(deltaMs), { heatmap: diagnosing, timings })
+        lastScene = scene
+        return {
+            scene,
+            stats: report.stats ? shown.stats() : null,
+            flips,
+            diagnostics: diagnosing ? diagnose(shown, input, deltaMs, timings) : null
+        }
+    }
+
+    function resize(nextWidth: number, nextHeight: number) {
+        width = Math.max(1, nextWidth)
+        height = Math.max(1, nextHeight)
+        // A shared lattice keeps the session's size; only its origin moves.
+        if (!session) simulation.resize(width, height)
+        for (const [name, field] of fields) placeField(name, field)
+    }
+
+    function restore(snapshot: LatticeSnapshot) {
+        if (session) return simulation.frame().geometry
+        recorder?.note({ type: "restore", snapshot, fit: true })
+        simulation.restore(snapshot)
+        // Snapshots saved at another viewport size are remapped onto this one.
+        resize(width, height)
+        return snapshot.geometry
+    }
+
+    function stopRecording() {
+        const finished = recorder?.finish() ?? null
+        recorder = null
+        return finished
+    }
+
+    function playback() {
+        return player && !attracting ? { position: player.position(), length: player.length } : null
+    }
+
+    function play(recording: Recording, nextLoop: boolean) {
+        recorder = null
+        attracting = false
+        loop = nextLoop
+        player = createPlayer(recording, { loop })
+        return { position: 0, length: player.length }
+    }
+
+    return {
+        tick,
+        resize,
+        setGeometry: (geometry) => {
+            if (!session) simulation.setGeometry(geometry)
+        },
+        setHealing: (healing) => {
+            const rate = healing ? DEFAULT_HEAL_RATE : 0
+            recorder?.note({ type: "heal", rate })
+            simulation.setHealRate(rate)
+        },
+        configure: (physics) => {
+            recorder?.note({ type: "configure", physics })
+            simulation.configure(physics)
+        },
+        setPalette: (palette) => {
+            if (palette !== fade.to) fade = { from: shownPalette, to: palette, elapsed: 0 }
+        },
+        setAttract: (recording) => {
+            attract = recording
+            if (!recording && attracting) {
+                player = null
+                attracting = false
+            }
+        },
+        setDiagnostics: (enabled) => {
+            diagnosing = enabled
+        },
+        impulse: (x, y, strength) => {
+            const edit = { type: "impulse", x: x - width * 0.5, y: y - height * 0.5, strength } as const
+            recorder?.note(edit)
+            simulation.impulse(edit.x, edit.y, strength)
+        },
+        reset: () => {
+            recorder?.note({ type: "reset" })
+            simulation.reset()
+        },
+        pause: () => {
+            paused = true
+        },
+        resume: () => {
+            paused = false
+        },
+        setField: (name, field) => {
+            fields.set(name, field)
+            placeField(name, field)
+        },
+        removeField: (name) => {
+            fields.delete(name)
+            recorder?.note({ type: "removeField", name })
+            simulation.removeField(name)
+        },
+        morphTo: (mask, shapeOptions) => {
+            if (recorder) {
+                const recorded = mask && { width: mask.width, height: mask.height, data: Array.from(mask.data) }
+                recorder.note({ type: "morph", mask: recorded, options: shapeOptions })
+            }
+            simulation.morphTo(mask, shapeOptions)
+        },
+        undo: () => {
+            recorder?.note({ type: "undo" })
+            return simulation.undo()
+        },
+        redo: () => {
+            recorder?.note({ type: "redo" })
+            return simulation.redo()
+        },
+        snapshot: () => simulation.snapshot(),
+        restore,
+        startRecording: () => {
+            if (player) return false
+            recorder = createRecorder(simulation)
+            return true
+        },
+        joinSession: (snapshot) => {
+            session = null
+            recorder?.note({ type: "restore", snapshot, fit: false })
+            simulation.restore(snapshot)
+            session = createFoldTracker(simulation)
+        },
+        leaveSession: () => {
+            session = null
+            resize(width, height)
+        },
+        takeFold: () => session?.take() ?? null,
+        applyFold: (delta) => {
+            if (!session) return
+            // A fold leaves the layout alone, so it can be noted once the tracker has kept what it applied.
+            const applied = session.apply(delta)
+            recorder?.note({ type: "fold", delta: applied })
+        },
+        stopRecording,
+        startCapture: (captureOptions) => {
+            capture = createCapture(simulation, captureOptions)
+        },
+        stopCapture: () => {
+            const finished = capture?.finish() ?? null
+            capture = null
+            return finished
+        },
+        play,
+        stopPlayback: () => {
+            player = null
+            attracting = false
+        },
+        seek: (step) => {
+            player?.seek(step)
+            return playback()
+        },
+        setSpeed: (next) => {
+            speed = next
+        },
+        setLoop: (next) => {
+            loop = next
+            if (!attracting) player?.setLoop(next)
+        },
+        playback,
+        exportSvg: () => (lastScene ? sceneToSvg(lastScene) : null),
+        exportPngSequence: (exportOptions) =>
+            renderPngSequence(simulation.snapshot(), {
+                ...exportOptions,
+                palette: fade.to,
+                replay: simulation.replayState()
+            })
+    }
+}
@@ -0,0 +1,285 @@
+import { heatColor } from "@/lib/diagnostics"
+import { facetColor, mixRgb, type GridPalette, type Rgb, type RgbOut } from "@/lib/palette"
+import type { SimulationFrame } from "@/lib/simulation"
+
+/** Filled polygon; `points` holds x/y pairs. Alpha runs 0–255 like p5. */
+export type ScenePolygon = {
+    points: number[]
+    color: Rgb
+    alpha: number
+}
+
+export type SceneLine = {
+    x1: number
+    y1: number
+    x2: number
+    y2: number
+    alpha: number
+}
+
+/** Axis-aligned square with its top-left corner at (x, y). */
+export type SceneSquare = {
+    x: number
+    y: number
+    size: number
+    color: Rgb
+    alpha: number
+}
+
+/**
+ * Renderer-agnostic draw list for one frame, in lattice space (origin at the
+ * viewport centre, CSS pixel units). Every backend paints it the same way:
+ * background, facets, lines, then node squares.
+ */
+export type Scene = {
+    width: number
+    height: number
+    background: Rgb
+    facets: ScenePolygon[]
+    lineColor: Rgb
+    lineWidth: number
+    lines: SceneLine[]
+    squares: SceneSquare[]
+}
+
+export type SceneOptions = {
+    /** Colours every intact facet by its strain and shear instead of the glow. */
+    heatmap?: boolean
+    /** Filled with the milliseconds spent building line and node primitives. */
+    timings?: { lines: number; nodes: number }
+}
+
+/** Heatmap facets are drawn at this fixed alpha so calm areas stay visible. */
+const HEATMAP_ALPHA = 150
+
+/**
+ * Blends each node between its position at the start and end of the last
+ * fixed tick so motion stays smooth at any display refresh rate. Writes
+ * x/y pairs into `points`.
+ */
+function interpolateNodes(frame: SimulationFrame, blend: number, points: Float64Array) {
+    const { count, px, py, x, y } = frame.nodes
+    for (let i = 0; i < count; i += 1) {
+        points[i * 2] = px[i] + (x[i] - px[i]) * blend
+        points[i * 2 + 1] = py[i] + (y[i] - py[i]) * blend
+    }
+}
+
+type PooledPolygon = ScenePolygon & { color: RgbOut }
+type PooledSquare = SceneSquare & { color: RgbOut }
+
+/** The structural edges, the ones drawn as lines, unpacked into flat arrays. */
+function createStructuralEdges(edges: SimulationFrame["edges"]) {
+    const indices = Uint32Array.from(edges.flatMap((edge, e) => (edge.kind === "structural" ? [e] : [])))
+    return {
+        edges,
+        indices,
+        from: indices.map((e) => edges[e].a),
+        to: indices.map((e) => edges[e].b),
+        rest: Float64Array.from(indices, (e) => edges[e].rest)
+    }
+}
+
+/**
+ * Sine and cosine of each node's fixed animation phases, so a frame turns
+ * them into waves by angle addition instead of a sine per node and edge.
+ */
+type NodeWaves = {
+    nodes: SimulationFrame["nodes"]
+    /** The node's phase, for the size pulse. */
+    pulseSin: Float64Array
+    pulseCos: Float64Array
+    /** Three quarters of the phase, for the cool/warm colour mix. */
+    warmSin: Float64Array
+    warmCos: Float64Array
+    /** The phase plus a drift across the rest grid, for line glow. */
+    glowSin: Float64Array
+    glowCos: Float64Array
+}
+
+function describeWaves(frame: SimulationFrame): NodeWaves {
+    const { spacingX, spacingY, nodes } = frame
+    const { ox, oy, phase } = nodes
+    const glow = phase.map((value, i) => value + (oy[i] / spacingY) * 0.14 + (ox[i] / spacingX) * 0.09)
+    const warm = phase.map((value) => value * 0.75)
+    return {
+        nodes,
+        pulseSin: phase.map(Math.sin),
+        pulseCos: phase.map(Math.cos),
+        warmSin: warm.map(Math.sin),
+        warmCos: warm.map(Math.cos),
+        glowSin: glow.map(Math.sin),
+        glowCos: glow.map(Math.cos)
+    }
+}
+
+export type SceneBuilder = {
+    /**
+     * Builds the draw list for a frame into the same scene object, arrays
+     * and primitive records as the last call, so steady frames allocate
+     * nothing. The previous scene is overwritten.
+     */
+    build: (frame: SimulationFrame, blend: number, palette: GridPalette, options?: SceneOptions) => Scene
+}
+
+export function createSceneBuilder(): SceneBuilder {
+    let points = new Float64Array(0)
+    let stretch = new Float32Array(0)
+    // Both are rebuilt only when the simulation rebuilds its mesh.
+    let waves: NodeWaves | null = null
+    let structural = createStructuralEdges([])
+    const polygonPool: PooledPolygon[] = []
+    const linePool: SceneLine[] = []
+    const squarePool: PooledSquare[] = []
+    const scene: Scene = {
+        width: 1,
+        height: 1,
+        background: [0, 0, 0],
+        facets: [],
+        lineColor: [0, 0, 0],
+        lineWidth: 0.9,
+        lines: [],
+        squares: []
+    }
+
+    function polygonAt(k: number) {
+        polygonPool[k] ??= { points: [], color: [0, 0, 0], alpha: 0 }
+        return polygonPool[k]
+    }
+
+    function lineAt(k: number) {
+        linePool[k] ??= { x1: 0, y1: 0, x2: 0, y2: 0, alpha: 0 }
+        return linePool[k]
+    }
+
+    function squareAt(k: number) {
+        squarePool[k] ??= { x: 0, y: 0, size: 0, color: [0, 0, 0], alpha: 0 }
+        return squarePool[k]
+    }
+
+    /** Points `list` at the first `used` records of `pool`; it already holds a prefix of them. */
+    function fill<T>(list: T[], pool: T[], used: number) {
+        for (let k = list.length; k < used; k += 1) list[k] = pool[k]
+        list.length = used
+    }
+
+    function build(frame: SimulationFrame, blend: number, palette: GridPalette, options: SceneOptions = {}): Scene {
+        const { spacingX, spacingY, edges, edgeLengths, facets, facetSignal, facetGlow } = frame
+        const { count, vx, vy, pinned } = frame.nodes
+        if (points.length !== count * 2) points = new Float64Array(count * 2)
+        if (stretch.length !== count) stretch = new Float32Array(count)
+        if (waves?.nodes !== frame.nodes || waves.pulseSin.length !== count) waves = describeWaves(frame)
+        if (structural.edges !== edges) structural = createStructuralEdges(edges)
+        const { pulseSin, pulseCos, warmSin, warmCos, glowSin, glowCos } = waves
+        const { indices, from, to, rest } = structural
+        const { edgeBroken } = frame
+        interpolateNodes(frame, blend, points)
+        const t = frame.time
+
+        let polygons = 0
+        for (let f = 0; f < facets.length; f += 1) {
+            const glow = facetGlow[f]
+            if (facets[f].orphaned || (!options.heatmap && glow < 0.05)) continue
+
+            const polygon = polygonAt(polygons)
+            polygons += 1
+            const { corners } = facets[f]
+            polygon.points.length = corners.length * 2
+            for (let k = 0; k < corners.length; k += 1) {
+                polygon.points[k * 2] = points[corners[k] * 2]
+                polygon.points[k * 2 + 1] = points[corners[k] * 2 + 1]
+            }
+            if (options.heatmap) {
+                heatColor(frame, f, polygon.color)
+                polygon.alpha = HEATMAP_ALPHA
+            } else {
+                facetColor(palette, facetSignal[f], glow, polygon.color)
+                polygon.alpha = 4 + glow * 58
+            }
+        }
+
+        const linesStarted = performance.now()
+
+        // Strain uses the simulation's cached end-of-tick lengths.
+        stretch.fill(0)
+        for (let k = 0; k < indices.length; k += 1) {
+            const e = indices[k]
+            if (edgeBroken[e]) continue
+            stretch[from[k]] += Math.abs(edgeLengths[e] - rest[k])
+        }
+
+        let lines = 0
+        const strainScale = 1 / (Math.min(spacingX, spacingY) * 0.35)
+        const glowSinT = Math.sin(t * 1.2)
+        const glowCosT = Math.cos(t * 1.2)
+        for (let k = 0; k < indices.length; k += 1) {
+            if (edgeBroken[indices[k]]) continue
+            const a = from[k]
+            const b = to[k]
+
+            const glow = 0.5 + 0.5 * (glowSinT * glowCos[a] + glowCosT * glowSin[a])
+            const strain = Math.min(1, stretch[a] * strainScale)
+            const line = lineAt(lines)
+            lines += 1
+            line.x1 = points[a * 2]
+            line.y1 = points[a * 2 + 1]
+            line.x2 = points[b * 2]
+            line.y2 = points[b * 2 + 1]
+            line.alpha = 14 + glow * 22 + strain * 42
+        }
+
+        const nodesStarted = performance.now()
+        const pulseSinT = Math.sin(t * 2.2)
+        const pulseCosT = Math.cos(t * 2.2)
+        const warmSinT = Math.sin(t * 0.7)
+        const warmCosT = Math.cos(t * 0.7)
+        for (let i = 0; i < count; i += 1) {
+            const x = points[i * 2]
+            const y = points[i * 2 + 1]
+            const square = squareAt(i)
+            if (pinned[i]) {
+                square.x = x - 1.6
+                square.y = y - 1.6
+                square.size = 3.2
+                mixRgb(palette.pin, palette.pin, 0, square.color)
+                square.alpha = 220
+                continue
+            }
+            const velocity = Math.min(1, Math.sqrt(vx[i] * vx[i] + vy[i] * vy[i]) / 3.2)
+            const pulse = 0.5 + 0.5 * (pulseSinT * pulseCos[i] + pulseCosT * pulseSin[i])
+            const warmMix = 0.5 + 0.5 * (warmSinT * warmCos[i] + warmCosT * warmSin[i])
+            const size = 0.95 + pulse * 1.25 + velocity * 1.7
+            square.x = x - size * 0.5
+            square.y = y - size * 0.5
+            square.size = size
+            mixRgb(palette.bodyCool, palette.bodyWarm, warmMix, square.color)
+            square.alpha = 42 + pulse * 60 + velocity * 90
+        }
+
+        if (options.timings) {
+            options.timings.lines = nodesStarted - linesStarted
+            options.timings.nodes = performance.now() - nodesStarted
+        }
+
+        scene.width = frame.width
+        scene.height = frame.height
+        scene.background = palette.background
+        scene.lineColor = palette.line
+        fill(scene.facets, polygonPool, polygons)
+        fill(scene.lines, linePool, lines)
+        fill(scene.squares, squarePool, count)
+        return scene
+    }
+
+    return { build }
+}
+
+/** Builds one standalone scene; per-frame callers should keep a `createSceneBuilder` instead. */
+export function buildScene(
+    frame: SimulationFrame,
+    blend: number,
+    palette: GridPalette,
+    options: SceneOptions = {}
+): Scene {
+    return createSceneBuilder().build(frame, blend, palette, options)
+}
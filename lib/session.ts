@@ -0,0 +1,327 @@
+import type { Rgb } from "@/lib/palette"
+import type { RemoteRuntime } from "@/lib/remote"
+import type { LatticeSimulation, PointerInput } from "@/lib/simulation"
+import type { LatticeSnapshot } from "@/lib/snapshot"
+
+/**
+ * Shared folds travel as whole steps of 1/FOLD_STEPS_PER_PX pixels. Integer
+ * sums do not depend on the order they are added in, so every client and the
+ * relay end up with the same rest positions whatever order deltas arrive in.
+ */
+export const FOLD_STEPS_PER_PX = 256
+
+/** How often a client sends its cursors and folds, in milliseconds. */
+export const SESSION_SYNC_MS = 50
+
+/** Rest-position changes for the listed nodes, in fold steps, plus pins and cuts made since the last delta. */
+export type FoldDelta = {
+    indices: number[]
+    dx: number[]
+    dy: number[]
+    pinned?: number[]
+    unpinned?: number[]
+    /** Edge indices. */
+    cut?: number[]
+    mended?: number[]
+}
+
+/** One other participant, with pointers in lattice space. */
+export type SessionPeer = {
+    peer: number
+    color: Rgb
+    pointers: PointerInput[]
+}
+
+export type ClientMessage =
+    /** Offers the sender's lattice, which starts the session when it is empty. */
+    | { type: "join"; snapshot: LatticeSnapshot }
+    | { type: "pointers"; pointers: PointerInput[] }
+    | { type: "fold"; delta: FoldDelta }
+
+export type RelayMessage =
+    /** The shared lattice as it stands, for the client that just joined. */
+    | { type: "welcome"; peer: number; color: Rgb; snapshot: LatticeSnapshot; peers: SessionPeer[] }
+    | { type: "peer"; peer: number; color: Rgb }
+    | { type: "pointers"; peer: number; pointers: PointerInput[] }
+    | { type: "fold"; peer: number; delta: FoldDelta }
+    /** The relay has merged the oldest fold this client sent and not yet seen acknowledged. */
+    | { type: "ack" }
+    | { type: "leave"; peer: number }
+
+/** The parts of `WebSocket` a session uses, so the relay can stand in for one. */
+export type SessionSocket = {
+    send: (data: string) => void
+    close: () => void
+    addEventListener: (type: "open" | "message" | "close", listener: (event: MessageEvent<string>) => void) => void
+}
+
+export type FoldTracker = {
+    /** Quantises this lattice's own edits since the last call, or null when there are none. */
+    take: () => FoldDelta | null
+    /**
+     * Adds another client's delta to the lattice without sending it back, and
+     * returns the part it applied: pins and cuts this lattice changed but has
+     * not sent yet are kept.
+     */
+    apply: (delta: FoldDelta) => FoldDelta
+}
+
+/**
+ * Lists the indices where `flags` differs from `shared`, split by which way
+ * they changed, and brings `shared` up to date.
+ */
+function diffFlags(flags: Uint8Array, shared: Uint8Array) {
+    const set: number[] = []
+    const cleared: number[] = []
+    for (let i = 0; i < shared.length; i += 1) {
+        if (flags[i] === shared[i]) continue
+        shared[i] = flags[i]
+        if (flags[i]) set.push(i)
+        else cleared.push(i)
+    }
+    return { set, cleared }
+}
+
+/**
+ * Applies another participant's fold, or a recorded one, to `simulation`. A
+ * delta naming a node or edge this lattice does not have belongs to another
+ * lattice and is ignored whole.
+ */
+export function applyFoldDelta(simulation: LatticeSimulation, delta: FoldDelta) {
+    const { nodes, edges } = simulation.frame()
+    const nodeIndices = [...delta.indices, ...(delta.pinned ?? []), ...(delta.unpinned ?? [])]
+    const edgeIndices = [...(delta.cut ?? []), ...(delta.mended ?? [])]
+    if (nodeIndices.some((i) => i >= nodes.count) || edgeIndices.some((e) => e >= edges.length)) return
+    const dx = delta.dx.map((step) => step / FOLD_STEPS_PER_PX)
+    const dy = delta.dy.map((step) => step / FOLD_STEPS_PER_PX)
+    simulation.displaceRest(delta.indices, dx, dy)
+    simulation.setPins(delta.pinned ?? [], true)
+    simulation.setPins(delta.unpinned ?? [], false)
+    simulation.setCuts(delta.cut ?? [], true)
+    simulation.setCuts(delta.mended ?? [], false)
+}
+
+/**
+ * Tracks which part of a lattice's own edits has already been shared.
+ * Healing and other clients' folds are left out, since every client applies
+ * those itself. Whatever is left below one step carries over to the next
+ * `take`.
+ */
+export function createFoldTracker(simulation: LatticeSimulation): FoldTracker {
+    const { nodes, edgeBroken } = simulation.frame()
+    const { count } = nodes
+    const drift = simulation.restDrift()
+    const localX = (i: number) => nodes.bx[i] - nodes.ox[i] - drift.x[i]
+    const localY = (i: number) => nodes.by[i] - nodes.oy[i] - drift.y[i]
+    const sharedX = new Float64Array(count)
+    const sharedY = new Float64Array(count)
+    for (let i = 0; i < count; i += 1) {
+        sharedX[i] = localX(i)
+        sharedY[i] = localY(i)
+    }
+    const sharedPins = nodes.pinned.slice()
+    const sharedCuts = edgeBroken.slice()
+
+    return {
+        take: () => {
+            // A rebuilt mesh, as after leaving the session, has nothing left to share.
+            if (simulation.frame().nodes !== nodes) return null
+            const delta: FoldDelta = { indices: [], dx: [], dy: [] }
+            for (let i = 0; i < count; i += 1) {
+                const stepX = Math.round((localX(i) - sharedX[i]) * FOLD_STEPS_PER_PX)
+                const stepY = Math.round((localY(i) - sharedY[i]) * FOLD_STEPS_PER_PX)
+                if (stepX === 0 && stepY === 0) continue
+                sharedX[i] += stepX / FOLD_STEPS_PER_PX
+                sharedY[i] += stepY / FOLD_STEPS_PER_PX
+                delta.indices.push(i)
+                delta.dx.push(stepX)
+                delta.dy.push(stepY)
+            }
+            const pins = diffFlags(nodes.pinned, sharedPins)
+            const cuts = diffFlags(edgeBroken, sharedCuts)
+            if (pins.set.length > 0) delta.pinned = pins.set
+            if (pins.cleared.length > 0) delta.unpinned = pins.cleared
+            if (cuts.set.length > 0) delta.cut = cuts.set
+            if (cuts.cleared.length > 0) delta.mended = cuts.cleared
+            const changes = delta.indices.length + pins.set.length + pins.cleared.length
+            return changes + cuts.set.length + cuts.cleared.length > 0 ? delta : null
+        },
+        apply: (delta) => {
+            // A pin or cut changed here but not sent yet reaches the relay after this delta, so it wins.
+            const unsentPin = (i: number) => nodes.pinned[i] !== sharedPins[i]
+            const unsentCut = (e: number) => edgeBroken[e] !== sharedCuts[e]
+            const merged: FoldDelta = {
+                ...delta,
+                pinned: delta.pinned?.filter((i) => !unsentPin(i)),
+                unpinned: delta.unpinned?.filter((i) => !unsentPin(i)),
+                cut: delta.cut?.filter((e) => !unsentCut(e)),
+                mended: delta.mended?.filter((e) => !unsentCut(e))
+            }
+            applyFoldDelta(simulation, merged)
+            for (const i of [...(merged.pinned ?? []), ...(merged.unpinned ?? [])]) {
+                if (i < count) sharedPins[i] = nodes.pinned[i]
+            }
+            for (const e of [...(merged.cut ?? []), ...(merged.mended ?? [])]) {
+                if (e < sharedCuts.length) sharedCuts[e] = edgeBroken[e]
+            }
+            return merged
+        }
+    }
+}
+
+/** Pin and cut indices of a fold this client sent that the relay has not acknowledged yet. */
+type PendingFlags = {
+    pins: Set<number>
+    cuts: Set<number>
+}
+
+/**
+ * Drops the pins and cuts a remote delta shares with this client's
+ * unacknowledged folds. The relay merged the remote delta first, so this
+ * client's later change is the one everyone ends up with.
+ */
+function withoutPending(delta: FoldDelta, pending: readonly PendingFlags[]): FoldDelta {
+    if (pending.length === 0) return delta
+    const pinKept = (i: number) => !pending.some((flags) => flags.pins.has(i))
+    const cutKept = (e: number) => !pending.some((flags) => flags.cuts.has(e))
+    return {
+        ...delta,
+        pinned: delta.pinned?.filter(pinKept),
+        unpinned: delta.unpinned?.filter(pinKept),
+        cut: delta.cut?.filter(cutKept),
+        mended: delta.mended?.filter(cutKept)
+    }
+}
+
+export type SessionCallbacks = {
+    /** Other participants changed: one joined, left or moved a pointer. */
+    onPeers: (peers: SessionPeer[]) => void
+    /** The shared lattice has been loaded; `snapshot` gives its size and geometry. */
+    onJoin?: (snapshot: LatticeSnapshot) => void
+    onClose?: () => void
+}
+
+export type SessionClient = {
+    /** Sends this client's pointers, in lattice space, when they changed. */
+    sendPointers: (pointers: readonly PointerInput[]) => void
+    /** Sends the folds made locally since the last sync. */
+    sync: () => Promise<void>
+    joined: () => boolean
+    close: () => void
+}
+
+/**
+ * Joins a relay session over `socket`: offers the local lattice, loads the
+ * shared one the relay answers with, then trades pointers and fold deltas.
+ * Relay messages are handled one at a time, in order, so a delta never
+ * lands before the snapshot it applies to. Pins and cuts end up in the order
+ * the relay merged them: until the relay acknowledges a fold, remote changes
+ * to the same pins and cuts were merged before it and are not applied.
+ */
+export function createSessionClient(
+    socket: SessionSocket,
+    runtime: Pick<RemoteRuntime, "snapshot" | "joinSession" | "takeFold" | "applyFold">,
+    callbacks: SessionCallbacks
+): SessionClient {
+    const peers = new Map<number, SessionPeer>()
+    let joined = false
+    let closed = false
+    let lastPointers = ""
+    const pending: PendingFlags[] = []
+    let queue: Promise<unknown> = Promise.resolve()
+
+    const send = (message: ClientMessage) => {
+        if (!closed) socket.send(JSON.stringify(message))
+    }
+    const publishPeers = () => callbacks.onPeers([...peers.values()])
+
+    async function handle(message: RelayMessage) {
+        switch (message.type) {
+            case "welcome": {
+                await runtime.joinSession(message.snapshot)
+                joined = true
+                pending.length = 0
+                peers.clear()
+                for (const peer of message.peers) peers.set(peer.peer, peer)
+                callbacks.onJoin?.(message.snapshot)
+                publishPeers()
+                return
+            }
+            case "peer": {
+                peers.set(message.peer, { peer: message.peer, color: message.color, pointers: [] })
+                publishPeers()
+                return
+            }
+            case "pointers": {
+                const peer = peers.get(message.peer)
+                if (!peer) return
+                peer.pointers = message.pointers
+                publishPeers()
+                return
+            }
+            case "fold": {
+                if (joined) await runtime.applyFold(withoutPending(message.delta, pending))
+                return
+            }
+            case "ack": {
+                pending.shift()
+                return
+            }
+            case "leave": {
+                peers.delete(message.peer)
+                publishPeers()
+            }
+        }
+    }
+
+    socket.addEventListener("open", () => {
+        queue = queue.then(async () => send({ type: "join", snapshot: await runtime.snapshot() }))
+    })
+    socket.addEventListener("message", (event) => {
+        let message: RelayMessage
+        try {
+            message = JSON.parse(event.data) as RelayMessage
+        } catch (error) {
+            console.error(error)
+            return
+        }
+        queue = queue.then(() => handle(message)).catch((error) => console.error(error))
+    })
+    socket.addEventListener("close", () => {
+        closed = true
+        joined = false
+        peers.clear()
+        publishPeers()
+        callbacks.onClose?.()
+    })
+
+    return {
+        sendPointers: (pointers) => {
+            const signature = JSON.stringify(pointers)
+            if (!joined || signature === lastPointers) return
+            lastPointers = signature
+            send({ type: "pointers", pointers: [...pointers] })
+        },
+        sync: async () => {
+            if (!joined) return
+            // Queued with relay messages, so no remote fold lands between taking a delta and marking it pending.
+            queue = queue
+                .then(async () => {
+                    const delta = joined ? await runtime.takeFold() : null
+                    if (!delta || closed) return
+                    send({ type: "fold", delta })
+                    pending.push({
+                        pins: new Set([...(delta.pinned ?? []), ...(delta.unpinned ?? [])]),
+                        cuts: new Set([...(delta.cut ?? []), ...(delta.mended ?? [])])
+                    })
+                })
+                .catch((error) => console.error(error))
+            await queue
+        },
+        joined: () => joined,
+        close: () => {
+            closed = true
+            socket.close()
+        }
+    }
+}
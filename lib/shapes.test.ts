@@ -0,0 +1,48 @@
+import { shapeTarget, type ShapeMask } from "@/lib/shapes"
+import { describe, expect, test } from "vitest"
+
+/** 20 × 20 mask with a filled 10 × 10 square in the middle. */
+function squareMask(): ShapeMask {
+    const data = new Float32Array(400)
+    for (let y = 5; y < 15; y += 1) {
+        for (let x = 5; x < 15; x += 1) data[y * 20 + x] = 1
+    }
+    return { width: 20, height: 20, data }
+}
+
+/** Rest positions of a 21 × 21 grid with 10 px spacing around the origin. */
+function gridRest() {
+    const rest = new Float64Array(21 * 21 * 2)
+    for (let i = 0; i < 21 * 21; i += 1) {
+        rest[i * 2] = ((i % 21) - 10) * 10
+        rest[i * 2 + 1] = (Math.floor(i / 21) - 10) * 10
+    }
+    return rest
+}
+
+const viewport = { width: 200, height: 200, reach: 12 }
+
+describe("shape targets", () => {
+    test("gathers nearby nodes onto the outline and anchors them harder", () => {
+        const target = shapeTarget(squareMask(), gridRest(), viewport, { fit: 1 })
+        const held = Array.from(target.anchor).filter((anchor) => anchor > 1).length
+        const onOutline = Array.from(target.anchor, (anchor, i) => ({ anchor, x: target.bx[i], y: target.by[i] }))
+            .filter(({ anchor }) => anchor > 1)
+            .every(({ x, y }) => Math.abs(Math.abs(x) - 45) < 1 || Math.abs(Math.abs(y) - 45) < 1)
+
+        expect(held).toBeGreaterThan(20)
+        expect(onOutline).toBe(true)
+        expect(target.anchor[0]).toBe(1)
+        expect(target.bx[0]).toBe(-100)
+    })
+
+    test("lifts rest positions by brightness in relief mode", () => {
+        const rest = gridRest()
+        const target = shapeTarget(squareMask(), rest, viewport, { fit: 1, mode: "relief", depth: 8 })
+        const centre = 10 * 21 + 10
+
+        expect(target.by[centre]).toBeCloseTo(rest[centre * 2 + 1] - 8, 6)
+        expect(target.by[0]).toBe(rest[1])
+        expect(Array.from(target.anchor).every((anchor) => anchor === 1)).toBe(true)
+    })
+})
@@ -0,0 +1,223 @@
+/**
+ * Greyscale coverage grid that a lattice can morph toward. Values run from
+ * 0 (empty) to 1 (full) in row-major order.
+ */
+export type ShapeMask = {
+    width: number
+    height: number
+    data: Float32Array
+}
+
+export type ShapeMode = "relief" | "contour"
+
+export type ShapeOptions = {
+    /**
+     * "relief" lifts rest positions by the mask's brightness like terrain;
+     * "contour" gathers nodes onto the mask's outline and anchors them there.
+     */
+    mode?: ShapeMode
+    /** Seconds the morph takes. */
+    duration?: number
+    /** Share of the shorter viewport side the mask is fitted into. */
+    fit?: number
+    /** Relief height in pixels for full brightness. */
+    depth?: number
+    /** Anchor stiffness multiplier for nodes held on a contour. */
+    strength?: number
+}
+
+/** Per-node rest positions and anchor stiffness the lattice morphs toward. */
+export type ShapeTarget = {
+    bx: Float64Array
+    by: Float64Array
+    anchor: Float32Array
+}
+
+type Placement = {
+    left: number
+    top: number
+    /** Lattice pixels per mask cell. */
+    scale: number
+}
+
+const MASK_THRESHOLD = 0.5
+const DEFAULT_MASK_RESOLUTION = 256
+
+/** Centres the mask in the viewport, scaled to `fit` of its shorter side. */
+function place(mask: ShapeMask, width: number, height: number, fit: number): Placement {
+    const scale = (Math.min(width, height) * fit) / Math.max(mask.width, mask.height)
+    return {
+        left: -mask.width * scale * 0.5,
+        top: -mask.height * scale * 0.5,
+        scale
+    }
+}
+
+/** Bilinear coverage at a lattice-space point; 0 outside the mask. */
+function coverageAt(mask: ShapeMask, placement: Placement, x: number, y: number) {
+    const u = (x - placement.left) / placement.scale - 0.5
+    const v = (y - placement.top) / placement.scale - 0.5
+    if (u < -0.5 || v < -0.5 || u > mask.width - 0.5 || v > mask.height - 0.5) return 0
+    const cell = (cx: number, cy: number) =>
+        cx < 0 || cy < 0 || cx >= mask.width || cy >= mask.height ? 0 : mask.data[cy * mask.width + cx]
+    const x0 = Math.floor(u)
+    const y0 = Math.floor(v)
+    const fx = u - x0
+    const fy = v - y0
+    const top = cell(x0, y0) + (cell(x0 + 1, y0) - cell(x0, y0)) * fx
+    const bottom = cell(x0, y0 + 1) + (cell(x0 + 1, y0 + 1) - cell(x0, y0 + 1)) * fx
+    return top + (bottom - top) * fy
+}
+
+/** Lattice-space centres of mask cells on the edge of the filled area. */
+function outline(mask: ShapeMask, placement: Placement) {
+    const filled = (cx: number, cy: number) =>
+        cx >= 0 && cy >= 0 && cx < mask.width && cy < mask.height && mask.data[cy * mask.width + cx] >= MASK_THRESHOLD
+    const points: number[] = []
+    for (let cy = 0; cy < mask.height; cy += 1) {
+        for (let cx = 0; cx < mask.width; cx += 1) {
+            if (!filled(cx, cy)) continue
+            if (filled(cx - 1, cy) && filled(cx + 1, cy) && filled(cx, cy - 1) && filled(cx, cy + 1)) continue
+            points.push(placement.left + (cx + 0.5) * placement.scale, placement.top + (cy + 0.5) * placement.scale)
+        }
+    }
+    return points
+}
+
+/**
+ * Works out where each node should rest to show the mask. `rest` holds the
+ * nodes' regular lattice positions as x/y pairs; `reach` is how far a node
+ * may travel to join a contour.
+ */
+export function shapeTarget(
+    mask: ShapeMask,
+    rest: Float64Array,
+    viewport: { width: number; height: number; reach: number },
+    options: ShapeOptions = {}
+): ShapeTarget {
+    const count = rest.length / 2
+    const placement = place(mask, viewport.width, viewport.height, options.fit ?? 0.7)
+    const bx = new Float64Array(count)
+    const by = new Float64Array(count)
+    const anchor = new Float32Array(count).fill(1)
+    for (let i = 0; i < count; i += 1) {
+        bx[i] = rest[i * 2]
+        by[i] = rest[i * 2 + 1]
+    }
+
+    if ((options.mode ?? "contour") === "relief") {
+        const depth = options.depth ?? viewport.reach * 2
+        for (let i = 0; i < count; i += 1) by[i] -= coverageAt(mask, placement, bx[i], by[i]) * depth
+        return { bx, by, anchor }
+    }
+
+    const points = outline(mask, placement)
+    const cell = Math.max(1e-6, viewport.reach)
+    const buckets = new Map<string, number[]>()
+    for (let k = 0; k < points.length; k += 2) {
+        const key = `${Math.floor(points[k] / cell)}:${Math.floor(points[k + 1] / cell)}`
+        const bucket = buckets.get(key)
+        if (bucket) bucket.push(k)
+        else buckets.set(key, [k])
+    }
+
+    const strength = options.strength ?? 4
+    for (let i = 0; i < count; i += 1) {
+        const x = bx[i]
+        const y = by[i]
+        const cx = Math.floor(x / cell)
+        const cy = Math.floor(y / cell)
+        let best = -1
+        let bestDistance = viewport.reach
+        for (let dy = -1; dy <= 1; dy += 1) {
+            for (let dx = -1; dx <= 1; dx += 1) {
+                for (const k of buckets.get(`${cx + dx}:${cy + dy}`) ?? []) {
+                    const distance = Math.hypot(points[k] - x, points[k + 1] - y)
+                    if (distance < bestDistance) {
+                        bestDistance = distance
+                        best = k
+                    }
+                }
+            }
+        }
+        if (best < 0) continue
+        bx[i] = points[best]
+        by[i] = points[best + 1]
+        anchor[i] = strength
+    }
+    return { bx, by, anchor }
+}
+
+function createCanvas(width: number, height: number) {
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext("2d")
+    if (!context) throw new Error("Canvas 2D is not available")
+    return context
+}
+
+function maskFromContext(context: CanvasRenderingContext2D, invert: boolean): ShapeMask {
+    const { width, height } = context.canvas
+    const pixels = context.getImageData(0, 0, width, height).data
+    const data = new Float32Array(width * height)
+    for (let i = 0; i < data.length; i += 1) {
+        const luminance =
+            (pixels[i * 4] * 0.2126 + pixels[i * 4 + 1] * 0.7152 + pixels[i * 4 + 2] * 0.0722) / 255
+        const alpha = pixels[i * 4 + 3] / 255
+        data[i] = (invert ? 1 - luminance : luminance) * alpha
+    }
+    return { width, height, data }
+}
+
+/**
+ * Rasterises an image into a mask; bright pixels count as filled unless
+ * `invert` is set (e.g. for dark letters on a white page).
+ */
+export function maskFromImage(
+    image: CanvasImageSource & { width: number; height: number },
+    options: { resolution?: number; invert?: boolean } = {}
+): ShapeMask {
+    const resolution = options.resolution ?? DEFAULT_MASK_RESOLUTION
+    const scale = resolution / Math.max(image.width, image.height, 1)
+    const context = createCanvas(
+        Math.max(1, Math.round(image.width * scale)),
+        Math.max(1, Math.round(image.height * scale))
+    )
+    context.drawImage(image, 0, 0, context.canvas.width, context.canvas.height)
+    return maskFromContext(context, options.invert ?? false)
+}
+
+/** Fills an SVG path (`d` attribute) drawn in a `width` × `height` view box. */
+export function maskFromSvgPath(
+    d: string,
+    viewBox: { width: number; height: number },
+    resolution = DEFAULT_MASK_RESOLUTION
+): ShapeMask {
+    const scale = resolution / Math.max(viewBox.width, viewBox.height, 1)
+    const context = createCanvas(
+        Math.max(1, Math.round(viewBox.width * scale)),
+        Math.max(1, Math.round(viewBox.height * scale))
+    )
+    context.scale(scale, scale)
+    context.fillStyle = "#fff"
+    context.fill(new Path2D(d))
+    return maskFromContext(context, false)
+}
+
+/** Loads an image or SVG file and rasterises it; dark-on-light art is inverted. */
+export async function maskFromFile(file: File, resolution = DEFAULT_MASK_RESOLUTION) {
+    const url = URL.createObjectURL(file)
+    try {
+        const image = new Image()
+        image.src = url
+        await image.decode()
+        const mask = maskFromImage(image, { resolution })
+        let total = 0
+        for (const value of mask.data) total += value
+        // Mostly-bright art is a dark shape on a light page.
+        return total / mask.data.length > 0.5 ? maskFromImage(image, { resolution, invert: true }) : mask
+    } finally {
+        URL.revokeObjectURL(url)
+    }
+}
@@ -0,0 +1,519 @@
+import { HELIOS_PALETTE } from "@/lib/palette"
+import { createSceneBuilder } from "@/lib/scene"
+import { createSimulation, DEFAULT_PHYSICS, influenceRadius, readNodes, type StepInput } from "@/lib/simulation"
+import type { Tool } from "@/lib/tools"
+import { describe, expect, test } from "vitest"
+
+function scriptedInput(frame: number): StepInput {
+    const angle = frame * 0.05
+    return {
+        pointers: [
+            {
+                id: 1,
+                x: Math.cos(angle) * 180,
+                y: Math.sin(angle) * 120,
+                pressed: frame % 90 < 60,
+                touch: false
+            }
+        ]
+    }
+}
+
+function run(seed: number, steps: number) {
+    const simulation = createSimulation({ width: 640, height: 400, seed })
+    for (let i = 0; i < steps; i += 1) simulation.step(scriptedInput(i))
+    return simulation.frame()
+}
+
+describe("lattice simulation core", () => {
+    test("runs headless and exposes plain grid data", () => {
+        const frame = createSimulation({ width: 640, height: 400, seed: 1 }).frame()
+
+        expect(frame.nodes.count).toBe(frame.cols * frame.rows)
+        expect(frame.facetGlow).toHaveLength((frame.cols - 1) * (frame.rows - 1))
+        expect(frame.nodes.x[0]).toBe(frame.nodes.bx[0])
+    })
+
+    test("replays bit-identical node positions for the same seed and inputs", () => {
+        const first = run(7, 180)
+        const second = run(7, 180)
+
+        expect(readNodes(second.nodes).map((node) => [node.x, node.y, node.bx, node.by])).toEqual(
+            readNodes(first.nodes).map((node) => [node.x, node.y, node.bx, node.by])
+        )
+        expect(Array.from(second.facetGlow)).toEqual(Array.from(first.facetGlow))
+    })
+
+    test("derives node phases from the seed", () => {
+        const a = createSimulation({ width: 640, height: 400, seed: 1 }).frame()
+        const b = createSimulation({ width: 640, height: 400, seed: 2 }).frame()
+
+        expect(readNodes(a.nodes).map((node) => node.phase)).not.toEqual(readNodes(b.nodes).map((node) => node.phase))
+    })
+
+    test("folds rest positions plastically while the pointer is pressed", () => {
+        const frame = run(3, 120)
+        const moved = readNodes(frame.nodes).some(
+            (node, i) =>
+                Math.abs(node.bx - (i % frame.cols) * frame.spacingX - frame.nodes.bx[0]) > 0.5
+        )
+
+        expect(moved).toBe(true)
+    })
+
+    test("substeps fast pointer sweeps instead of tunnelling through the mesh", () => {
+        const simulation = createSimulation({ width: 640, height: 400, seed: 5 })
+        simulation.step({ pointers: [{ id: 1, x: -300, y: 0, pressed: true, touch: false }] })
+        expect(simulation.frame().substeps).toBe(1)
+
+        simulation.step({ pointers: [{ id: 1, x: 300, y: 0, pressed: true, touch: false }] })
+        const frame = simulation.frame()
+
+        expect(frame.substeps).toBeGreaterThan(1)
+        for (const node of readNodes(frame.nodes)) {
+            expect(Number.isFinite(node.x) && Number.isFinite(node.y)).toBe(true)
+        }
+    })
+
+    test("tracks each pointer on its own so two hands fold independently", () => {
+        const simulation = createSimulation({ width: 640, height: 400, seed: 9 })
+        const rest = readNodes(simulation.frame().nodes).map((node) => ({ bx: node.bx, by: node.by }))
+        for (let i = 0; i < 40; i += 1) {
+            simulation.step({
+                pointers: [
+                    { id: 1, x: -200 - i, y: 0, pressed: true, touch: true },
+                    { id: 2, x: 200 + i, y: 0, pressed: true, touch: true }
+                ]
+            })
+        }
+        const frame = simulation.frame()
+        const shift = (side: number) => {
+            let total = 0
+            readNodes(frame.nodes).forEach((node, i) => {
+                if (Math.sign(node.x) === side) total += node.bx - rest[i].bx
+            })
+            return total
+        }
+
+        expect(shift(-1)).toBeLessThan(0)
+        expect(shift(1)).toBeGreaterThan(0)
+    })
+
+    test("shrinks a pointer's influence by its camera zoom so the brush keeps its size on screen", () => {
+        const mouse = { id: 1, x: 0, y: 0, pressed: true, touch: false }
+        const touch = { ...mouse, touch: true, contact: 40 }
+
+        expect(influenceRadius({ ...mouse, zoom: 2 }, 640, 400)).toBeCloseTo(influenceRadius(mouse, 640, 400) / 2)
+        expect(influenceRadius({ ...touch, zoom: 4 }, 640, 400)).toBeCloseTo(influenceRadius(touch, 640, 400) / 4)
+    })
+
+    describe("tools", () => {
+        const press = (x: number, y: number, tool: Tool): StepInput => ({
+            pointers: [{ id: 1, x, y, pressed: true, touch: false }],
+            tool
+        })
+
+        test("push repels nodes that pull would attract", () => {
+            const pulled = createSimulation({ width: 640, height: 400, seed: 4 })
+            const pushed = createSimulation({ width: 640, height: 400, seed: 4 })
+            for (let i = 0; i < 30; i += 1) {
+                pulled.step(press(0, 0, "pull"))
+                pushed.step(press(0, 0, "push"))
+            }
+            const near = (frame: ReturnType<typeof pulled.frame>) =>
+                readNodes(frame.nodes).reduce((sum, node) => sum + Math.hypot(node.x, node.y), 0)
+
+            expect(near(pushed.frame())).toBeGreaterThan(near(pulled.frame()))
+        })
+
+        test("pin freezes nodes under the cursor", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 4 })
+            simulation.step(press(0, 0, "pin"))
+            const pinned = readNodes(simulation.frame().nodes).filter((node) => node.pinned)
+            const before = pinned.map((node) => [node.x, node.y])
+            for (let i = 0; i < 30; i += 1) simulation.step(press(i * 3, 0, "pull"))
+
+            expect(pinned.length).toBeGreaterThan(0)
+            expect(pinned.map((node) => [node.x, node.y])).toEqual(before)
+        })
+
+        test("smooth relaxes rest positions back toward the lattice", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 4 })
+            for (let i = 0; i < 60; i += 1) simulation.step(press(i * 2, 0, "pull"))
+            const offset = () =>
+                readNodes(simulation.frame().nodes).reduce(
+                    (sum, node) => sum + Math.hypot(node.bx - node.ox, node.by - node.oy),
+                    0
+                )
+            const folded = offset()
+            for (let i = 0; i < 120; i += 1) simulation.step(press((i % 60) * 2, 0, "smooth"))
+
+            expect(offset()).toBeLessThan(folded * 0.5)
+        })
+
+        test("tear cuts edges along the stroke", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 4 })
+            const intact = () => simulation.frame().edges.filter((edge) => !edge.broken).length
+            const before = intact()
+            simulation.step(press(0, -150, "tear"))
+            simulation.step(press(0, 150, "tear"))
+
+            expect(intact()).toBeLessThan(before)
+            expect(simulation.frame().facets.some((facet) => facet.orphaned)).toBe(true)
+        })
+    })
+
+    describe("edge model", () => {
+        test("builds an explicit edge list with per-edge rest lengths", () => {
+            const frame = createSimulation({ width: 640, height: 400, seed: 1 }).frame()
+            const structural = frame.edges.filter((edge) => edge.kind === "structural")
+            const shear = frame.edges.filter((edge) => edge.kind === "shear")
+
+            expect(structural).toHaveLength(
+                (frame.cols - 1) * frame.rows + frame.cols * (frame.rows - 1)
+            )
+            expect(shear).toHaveLength(2 * (frame.cols - 1) * (frame.rows - 1))
+            expect(shear.every((edge) => edge.stiffness === 0)).toBe(true)
+            expect(frame.facets).toHaveLength(frame.facetGlow.length)
+        })
+
+        test("never breaks edges unless a breaking strain is configured", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 2 })
+            for (let i = 0; i < 90; i += 1) simulation.step(scriptedInput(i * 4))
+
+            expect(simulation.frame().edges.some((edge) => edge.broken)).toBe(false)
+        })
+
+        test("snaps overstretched edges for good", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 2, breakStrain: 0.2 })
+            for (let i = 0; i < 90; i += 1) simulation.step(scriptedInput(i * 4))
+            const broken = simulation.frame().edges.filter((edge) => edge.broken).length
+            for (let i = 0; i < 120; i += 1) simulation.step({ pointers: [] })
+
+            expect(broken).toBeGreaterThan(0)
+            expect(simulation.frame().edges.filter((edge) => edge.broken).length).toBeGreaterThanOrEqual(
+                broken
+            )
+        })
+    })
+    describe("resize", () => {
+        const displacement = (node: { bx: number; by: number; ox: number; oy: number }) =>
+            Math.hypot(node.bx - node.ox, node.by - node.oy)
+
+        test("remaps the folded shape onto the rebuilt lattice", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 3 })
+            for (let i = 0; i < 120; i += 1) simulation.step(scriptedInput(i))
+            const before = readNodes(simulation.frame().nodes).map((node) => ({ ...node }))
+            const deepest = before.reduce((best, node) => (displacement(node) > displacement(best) ? node : best))
+
+            simulation.resize(420, 760)
+            const after = simulation.frame()
+            const nearest = readNodes(after.nodes).reduce((best, node) =>
+                Math.hypot(node.ox - deepest.ox, node.oy - deepest.oy) <
+                Math.hypot(best.ox - deepest.ox, best.oy - deepest.oy)
+                    ? node
+                    : best
+            )
+
+            expect(after.spacingX).not.toBe(before[1].ox - before[0].ox)
+            expect(displacement(deepest)).toBeGreaterThan(2)
+            expect(Math.abs(nearest.bx - nearest.ox - (deepest.bx - deepest.ox))).toBeLessThan(
+                displacement(deepest) * 0.5
+            )
+            expect(Math.abs(nearest.by - nearest.oy - (deepest.by - deepest.oy))).toBeLessThan(
+                displacement(deepest) * 0.5
+            )
+            expect(nearest.x).toBe(nearest.bx)
+        })
+
+        test("carries pins and cuts across a resize", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 2, breakStrain: 0.2 })
+            simulation.step({ pointers: [{ id: 1, x: 0, y: 0, pressed: true, touch: false }], tool: "pin" })
+            for (let i = 0; i < 90; i += 1) simulation.step(scriptedInput(i * 4))
+
+            simulation.resize(720, 480)
+            const frame = simulation.frame()
+
+            expect(
+                readNodes(frame.nodes).some((node) => node.pinned && Math.hypot(node.ox, node.oy) < frame.spacingX)
+            ).toBe(true)
+            expect(frame.edges.some((edge) => edge.broken)).toBe(true)
+        })
+
+        test("ignores a resize to the current size", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 4 })
+            for (let i = 0; i < 60; i += 1) simulation.step(scriptedInput(i))
+            const before = readNodes(simulation.frame().nodes).map((node) => [node.x, node.vx])
+
+            simulation.resize(640, 400)
+
+            expect(readNodes(simulation.frame().nodes).map((node) => [node.x, node.vx])).toEqual(before)
+        })
+    })
+    describe("history and healing", () => {
+        const restShape = (simulation: ReturnType<typeof createSimulation>) =>
+            readNodes(simulation.frame().nodes).map((node) => [node.bx, node.by])
+        const stroke = (simulation: ReturnType<typeof createSimulation>, from: number) => {
+            for (let i = from; i < from + 60; i += 1) simulation.step(scriptedInput(i))
+            simulation.step({ pointers: [] })
+        }
+
+        test("undoes and redoes whole press-to-release strokes", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 5 })
+            const flat = restShape(simulation)
+            stroke(simulation, 0)
+            const first = restShape(simulation)
+            stroke(simulation, 90)
+            const second = restShape(simulation)
+
+            expect(second).not.toEqual(first)
+            expect(simulation.undo()).toBe(true)
+            expect(restShape(simulation)).toEqual(first)
+            expect(simulation.undo()).toBe(true)
+            expect(restShape(simulation)).toEqual(flat)
+            expect(simulation.undo()).toBe(false)
+            expect(simulation.redo()).toBe(true)
+            expect(simulation.redo()).toBe(true)
+            expect(restShape(simulation)).toEqual(second)
+        })
+
+        test("undoes pins and cuts made by a stroke", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 5 })
+            const press = { id: 1, x: 0, y: 0, pressed: true, touch: false }
+            simulation.step({ pointers: [press], tool: "pin" })
+            simulation.step({ pointers: [] })
+            simulation.step({ pointers: [{ ...press, x: -200 }], tool: "tear" })
+            simulation.step({ pointers: [{ ...press, x: 200 }], tool: "tear" })
+            simulation.step({ pointers: [] })
+            const broken = () => simulation.frame().edges.filter((edge) => edge.broken).length
+
+            expect(broken()).toBeGreaterThan(0)
+            simulation.undo()
+            expect(broken()).toBe(0)
+            expect(simulation.frame().facets.some((facet) => facet.orphaned)).toBe(false)
+            expect(readNodes(simulation.frame().nodes).some((node) => node.pinned)).toBe(true)
+            simulation.undo()
+            expect(readNodes(simulation.frame().nodes).some((node) => node.pinned)).toBe(false)
+        })
+
+        test("heals folds back toward the regular lattice when enabled", () => {
+            const offset = (simulation: ReturnType<typeof createSimulation>) =>
+                readNodes(simulation.frame().nodes).reduce(
+                    (sum, node) => sum + Math.hypot(node.bx - node.ox, node.by - node.oy),
+                    0
+                )
+            const permanent = createSimulation({ width: 640, height: 400, seed: 5 })
+            const healing = createSimulation({ width: 640, height: 400, seed: 5 })
+            stroke(permanent, 0)
+            stroke(healing, 0)
+            healing.setHealRate(0.5)
+            const folded = offset(healing)
+            for (let i = 0; i < 120; i += 1) {
+                permanent.step({ pointers: [] })
+                healing.step({ pointers: [] })
+            }
+
+            expect(offset(permanent)).toBeCloseTo(folded, 6)
+            expect(offset(healing)).toBeLessThan(folded * 0.3)
+        })
+    })
+    describe("physics config", () => {
+        test("defaults reproduce the original edge limits", () => {
+            const edge = createSimulation({ width: 640, height: 400, seed: 1 })
+                .frame()
+                .edges.find((candidate) => candidate.kind === "structural")
+
+            expect(edge?.stiffness).toBe(DEFAULT_PHYSICS.structuralK)
+            expect(edge?.minLength).toBeCloseTo((edge?.rest ?? 0) * 0.68, 9)
+            expect(edge?.maxLength).toBeCloseTo((edge?.rest ?? 0) * 1.52, 9)
+        })
+
+        test("retunes the running lattice without rebuilding it", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 1 })
+            for (let i = 0; i < 30; i += 1) simulation.step(scriptedInput(i))
+            const nodes = simulation.frame().nodes
+
+            simulation.configure({ structuralK: 0.2, structuralMaxRatio: 1.1 })
+            const edge = simulation.frame().edges.find((candidate) => candidate.kind === "structural")
+
+            expect(simulation.frame().nodes).toBe(nodes)
+            expect(edge?.stiffness).toBe(0.2)
+            expect(edge?.maxLength).toBeCloseTo((edge?.rest ?? 0) * 1.1, 9)
+        })
+
+        test("changes the motion when constants differ", () => {
+            const soft = createSimulation({ width: 640, height: 400, seed: 1 })
+            const stiff = createSimulation({ width: 640, height: 400, seed: 1, physics: { anchorK: 0.1 } })
+            for (let i = 0; i < 60; i += 1) {
+                soft.step(scriptedInput(i))
+                stiff.step(scriptedInput(i))
+            }
+
+            expect(readNodes(stiff.frame().nodes).map((node) => node.x)).not.toEqual(
+                readNodes(soft.frame().nodes).map((node) => node.x)
+            )
+        })
+    })
+    describe("host controls", () => {
+        test("impulses push nearby nodes outward and raise the energy", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 1 })
+            const calm = simulation.stats().energy
+            simulation.impulse(0, 0, 3)
+            const moving = readNodes(simulation.frame().nodes).filter((node) => node.vx !== 0)
+
+            expect(simulation.stats().energy).toBeGreaterThan(calm)
+            expect(moving.length).toBeGreaterThan(0)
+            expect(moving.every((node) => Math.sign(node.vx) === Math.sign(node.x))).toBe(true)
+        })
+
+        test("reports facet flips and strain while the lattice moves", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 1 })
+            let flips = 0
+            for (let i = 0; i < 150; i += 1) {
+                simulation.step(scriptedInput(i * 3))
+                flips += simulation.frame().facetFlips.length
+            }
+
+            expect(flips).toBeGreaterThan(0)
+            expect(simulation.stats().maxStrain).toBeGreaterThan(0)
+        })
+
+        test("reset flattens the lattice and forgets its history", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 1 })
+            for (let i = 0; i < 60; i += 1) simulation.step(scriptedInput(i))
+            simulation.step({ pointers: [] })
+
+            simulation.reset()
+
+            expect(
+                readNodes(simulation.frame().nodes).every((node) => node.bx === node.ox && node.x === node.ox)
+            ).toBe(true)
+            expect(simulation.undo()).toBe(false)
+        })
+    })
+    describe("force fields", () => {
+        const restOffset = (simulation: ReturnType<typeof createSimulation>) =>
+            readNodes(simulation.frame().nodes).reduce(
+                (sum, node) => sum + Math.hypot(node.bx - node.ox, node.by - node.oy),
+                0
+            )
+
+        test("elastic fields move nodes without bending their rest positions", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 1 })
+            simulation.setField("well", { kind: "attractor", x: 0, y: 0, radius: 160, strength: 0.6 })
+            for (let i = 0; i < 60; i += 1) simulation.step({ pointers: [] })
+
+            expect(simulation.stats().maxStrain).toBeGreaterThan(0.01)
+            expect(restOffset(simulation)).toBe(0)
+        })
+
+        test("plastic fields deform the lattice for good", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 1 })
+            simulation.setField("swirl", {
+                kind: "vortex",
+                x: 0,
+                y: 0,
+                radius: 160,
+                strength: 0.6,
+                plastic: true
+            })
+            for (let i = 0; i < 60; i += 1) simulation.step({ pointers: [] })
+            simulation.removeField("swirl")
+            const bent = restOffset(simulation)
+            for (let i = 0; i < 60; i += 1) simulation.step({ pointers: [] })
+
+            expect(bent).toBeGreaterThan(1)
+            expect(restOffset(simulation)).toBe(bent)
+        })
+    })
+    describe("shape morphing", () => {
+        const mask = { width: 4, height: 4, data: new Float32Array(16).fill(1) }
+
+        test("eases rest positions into a shape over the requested duration", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 1 })
+            simulation.morphTo(mask, { mode: "relief", depth: 30, duration: 1 })
+            const lift = () => Math.max(...readNodes(simulation.frame().nodes).map((node) => node.oy - node.by))
+
+            for (let i = 0; i < 30; i += 1) simulation.step({ pointers: [] })
+            const halfway = lift()
+            for (let i = 0; i < 40; i += 1) simulation.step({ pointers: [] })
+
+            expect(halfway).toBeGreaterThan(5)
+            expect(halfway).toBeLessThan(25)
+            expect(lift()).toBeCloseTo(30, 6)
+        })
+
+        test("morphs back to the regular lattice for a null shape", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 1 })
+            simulation.morphTo(mask, { duration: 0 })
+            expect(readNodes(simulation.frame().nodes).some((node) => node.bx !== node.ox)).toBe(true)
+
+            simulation.morphTo(null, { duration: 0 })
+
+            expect(
+                readNodes(simulation.frame().nodes).every((node) => node.bx === node.ox && node.by === node.oy)
+            ).toBe(true)
+        })
+    })
+    describe("large grids", () => {
+        /** Best per-frame milliseconds of stepping and drawing `width`×`height`, plus the reused draw lists. */
+        function timeFrames(width: number, height: number) {
+            const simulation = createSimulation({ width, height, seed: 1 })
+            const scenes = createSceneBuilder()
+            const drag = (i: number): StepInput => ({
+                pointers: [{
+                    id: 1,
+                    x: Math.cos(i * 0.05) * width * 0.23,
+                    y: Math.sin(i * 0.05) * height * 0.23,
+                    pressed: true,
+                    touch: false
+                }]
+            })
+            const frame = (i: number) => {
+                simulation.step(drag(i))
+                return scenes.build(simulation.frame(), 1, HELIOS_PALETTE)
+            }
+            const first = frame(0)
+            for (let i = 1; i < 10; i += 1) frame(i)
+
+            // Best of several short batches, so a busy machine does not skew the ratio.
+            let perFrame = Infinity
+            for (let batch = 0; batch < 20; batch += 1) {
+                const start = performance.now()
+                for (let i = 0; i < 5; i += 1) frame(10 + batch * 5 + i)
+                perFrame = Math.min(perFrame, (performance.now() - start) / 5)
+            }
+            return { simulation, perFrame, first, last: frame(110) }
+        }
+
+        test("keeps the node store, edge lengths and flip list across steps", () => {
+            const simulation = createSimulation({ width: 640, height: 400, seed: 1 })
+            const { nodes, edgeLengths, facetFlips } = simulation.frame()
+            for (let i = 0; i < 30; i += 1) simulation.step(scriptedInput(i))
+
+            expect(simulation.frame().nodes.x).toBe(nodes.x)
+            expect(simulation.frame().edgeLengths).toBe(edgeLengths)
+            expect(simulation.frame().facetFlips).toBe(facetFlips)
+            const edge = simulation.frame().edges[0]
+            expect(edgeLengths[0]).toBeCloseTo(
+                Math.hypot(nodes.x[edge.b] - nodes.x[edge.a], nodes.y[edge.b] - nodes.y[edge.a]),
+                9
+            )
+        })
+
+        test("steps and draws a 4K lattice with 45% overscan at the per-node cost of a 1080p one", () => {
+            const small = timeFrames(1920, 1080)
+            const large = timeFrames(3840, 2160)
+            const smallNodes = small.simulation.frame().nodes.count
+            const largeNodes = large.simulation.frame().nodes.count
+
+            expect(largeNodes).toBeGreaterThan(20000)
+            // Steady frames reuse the draw list and its records.
+            expect(large.last).toBe(large.first)
+            expect(large.last.squares[0]).toBe(large.first.squares[0])
+            // Linear work scales with the node count; allocation or cache churn shows up as a steeper curve.
+            const ratio = (large.perFrame / largeNodes) / (small.perFrame / smallNodes)
+            expect(ratio, `${large.perFrame.toFixed(1)} ms vs ${small.perFrame.toFixed(1)} ms`).toBeLessThan(2)
+        }, 60000)
+    })
+})
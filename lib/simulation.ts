@@ -0,0 +1,1716 @@
+import { sampleField, type ForceField } from "@/lib/fields"
+import { createHistory, type HistoryEntry } from "@/lib/history"
+import { createNoise } from "@/lib/noise"
+import { buildLattice, DEFAULT_GEOMETRY, type LatticeGeometry } from "@/lib/lattices"
+import { createSampledField } from "@/lib/resample"
+import { shapeTarget, type ShapeMask, type ShapeOptions } from "@/lib/shapes"
+import { SNAPSHOT_VERSION, type LatticeSnapshot } from "@/lib/snapshot"
+import { FIXED_STEP_MS } from "@/lib/timestep"
+import { DEFAULT_TOOL, type Tool } from "@/lib/tools"
+
+/** Plain copy of one node, as returned by `readNodes`. */
+export type GridNode = {
+    /** Regular lattice position the node was built at. */
+    ox: number
+    oy: number
+    bx: number
+    by: number
+    x: number
+    y: number
+    /** Position at the start of the last tick, for render interpolation. */
+    px: number
+    py: number
+    vx: number
+    vy: number
+    phase: number
+    pinned: boolean
+}
+
+/**
+ * Node state as parallel typed arrays indexed by node, with the same fields
+ * as `GridNode`. Allocated once per mesh build so stepping never allocates.
+ */
+export type NodeStore = {
+    count: number
+    ox: Float64Array
+    oy: Float64Array
+    bx: Float64Array
+    by: Float64Array
+    x: Float64Array
+    y: Float64Array
+    px: Float64Array
+    py: Float64Array
+    vx: Float64Array
+    vy: Float64Array
+    phase: Float64Array
+    /** 1 for pinned nodes, 0 otherwise. */
+    pinned: Uint8Array
+}
+
+export type EdgeKind = "structural" | "shear"
+
+/**
+ * One spring/constraint between two nodes. Structural edges are the drawn
+ * lattice lines and carry spring force; shear edges are the cell diagonals
+ * that only bound deformation.
+ */
+export type LatticeEdge = {
+    a: number
+    b: number
+    kind: EdgeKind
+    rest: number
+    /** Spring stiffness per tick; 0 for constraint-only edges. */
+    stiffness: number
+    minLength: number
+    maxLength: number
+    /** Relative stretch (length / rest - 1) past which the edge snaps for good. */
+    breakStrain: number
+    broken: boolean
+}
+
+export type LatticeFacet = {
+    /** Corner node indices in winding order. */
+    corners: number[]
+    /** Boundary edge indices; edge `k` joins corner `k` to corner `k + 1`. */
+    edges: number[]
+    /** Set once any boundary edge has broken; orphaned facets stop glowing. */
+    orphaned: boolean
+}
+
+export type PointerInput = {
+    /** Stable id for the lifetime of the pointer (e.g. `PointerEvent.pointerId`). */
+    id: number
+    /** Pointer position in lattice space (origin at the viewport centre). */
+    x: number
+    y: number
+    pressed: boolean
+    touch: boolean
+    /** Contact diameter in CSS pixels for touch and pen input, when known. */
+    contact?: number
+    /** Camera zoom the pointer was placed at; the influence radius shrinks by it to keep its size on screen. */
+    zoom?: number
+}
+
+export type StepInput = {
+    pointers: readonly PointerInput[]
+    /** Tool applied by pressed pointers; hovering always pulls gently. */
+    tool?: Tool
+}
+
+type TrackedPointer = {
+    x: number
+    y: number
+}
+
+/** Per-tick view of one pointer, resolved before substepping. */
+type ActivePointer = {
+    fromX: number
+    fromY: number
+    rawMoveX: number
+    rawMoveY: number
+    moveX: number
+    moveY: number
+    pressed: boolean
+    tool: Tool
+    radius: number
+    plasticRadius: number
+}
+
+function blankPointer(): ActivePointer {
+    return {
+        fromX: 0,
+        fromY: 0,
+        rawMoveX: 0,
+        rawMoveY: 0,
+        moveX: 0,
+        moveY: 0,
+        pressed: false,
+        tool: DEFAULT_TOOL,
+        radius: 0,
+        plasticRadius: 0
+    }
+}
+
+/**
+ * Tunable physics constants. Stiffness and rates are per tick; the length
+ * ratios bound each edge relative to its rest length.
+ */
+export type PhysicsConfig = {
+    /** Spring stiffness of structural edges. */
+    structuralK: number
+    /** Damping of relative motion along each spring. */
+    springFriction: number
+    /** Pull of every node toward its rest position. */
+    anchorK: number
+    /** Drag on absolute node velocity. */
+    damping: number
+    /** Amplitude of the idle breathing motion. */
+    idleWave: number
+    structuralMinRatio: number
+    structuralMaxRatio: number
+    shearMinRatio: number
+    shearMaxRatio: number
+    /** Share of velocity kept after each constraint pass. */
+    velocityRetention: number
+}
+
+export const DEFAULT_PHYSICS: Readonly<PhysicsConfig> = {
+    structuralK: 0.09,
+    springFriction: 0.095,
+    anchorK: 0.024,
+    damping: 0.205,
+    idleWave: 0.06,
+    structuralMinRatio: 0.68,
+    structuralMaxRatio: 1.52,
+    shearMinRatio: 0.76,
+    shearMaxRatio: 1.5,
+    velocityRetention: 0.86
+}
+
+export type SimulationOptions = {
+    width: number
+    height: number
+    seed?: number
+    geometry?: LatticeGeometry
+    /** Breaking strain applied to every edge; edges never break by default. */
+    breakStrain?: number
+    /** Overrides for the default physics constants. */
+    physics?: Partial<PhysicsConfig>
+    /** Memory the undo history may hold, in bytes. */
+    historyBudget?: number
+    /**
+     * Fraction of the remaining rest displacement that heals back to the
+     * regular lattice each second; 0 (the default) keeps folds permanent.
+     */
+    healRate?: number
+}
+
+/** A facet whose signal changed sign during the last tick. */
+export type FacetFlip = {
+    facet: number
+    /** Flip strength in [0, 1], the same value that drives the glow. */
+    strength: number
+}
+
+/** Whole-lattice measures for hosts that react to the motion. */
+export type SimulationStats = {
+    /** Kinetic energy, as the sum of squared node speeds per tick over two. */
+    energy: number
+    /** Largest relative stretch or compression of any intact edge. */
+    maxStrain: number
+}
+
+/** Where the last tick's time and corrections went, for tuning the physics. */
+export type SimulationDiagnostics = {
+    /** Milliseconds per pass during the last tick, summed over its substeps. */
+    passMs: {
+        /** Forces, integration and plastic settling. */
+        forces: number
+        /** Breaking and the edge length constraints. */
+        constraints: number
+        facets: number
+    }
+    /** Total distance the constraint pass moved edge ends during the last tick. */
+    constraintCorrection: number
+    /** Kinetic energy, the same measure as `SimulationStats.energy`. */
+    kineticEnergy: number
+    /** Energy held in intact springs, half stiffness times extension squared. */
+    springEnergy: number
+}
+
+/**
+ * Plain-data view of the lattice that renderers read after each step. The
+ * arrays are owned by the simulation and must be treated as read-only.
+ */
+export type SimulationFrame = {
+    width: number
+    height: number
+    geometry: LatticeGeometry
+    /** Generator grid size: rows × columns, or rings × outer-ring spokes for radial meshes. */
+    cols: number
+    rows: number
+    spacingX: number
+    spacingY: number
+    time: number
+    /** Substeps the last tick was split into to stay stable. */
+    substeps: number
+    nodes: NodeStore
+    edges: readonly LatticeEdge[]
+    /** Length of every edge at the end of the last tick, indexed like `edges`. */
+    edgeLengths: Float64Array
+    /** 1 for every broken edge, indexed like `edges`; mirrors `LatticeEdge.broken` for tight loops. */
+    edgeBroken: Uint8Array
+    facets: readonly LatticeFacet[]
+    /** Per-facet shear/strain signal, indexed like `facets`. */
+    facetSignal: Float32Array
+    /**
+     * Relative perimeter change of each facet, the strain part of its signal;
+     * the rest (`signal - strain * FACET_STRAIN_WEIGHT`) is shear.
+     */
+    facetStrain: Float32Array
+    facetGlow: Float32Array
+    /** Facets that flipped during the last tick; the list and its records are reused, so copy to keep. */
+    facetFlips: readonly FacetFlip[]
+}
+
+/**
+ * What a snapshot leaves out but a faithful replay needs: the settings and
+ * the in-flight progress that shape the next steps. Arrays are plain so it
+ * stays JSON-safe; a field's `modulate` function does not survive JSON.
+ */
+export type ReplayState = {
+    physics: PhysicsConfig
+    healRate: number
+    fields: [string, ForceField][]
+    /** Simulated seconds, the clock force fields are modulated by. */
+    seconds: number
+    anchorScale: number[]
+    morph: {
+        fromX: number[]
+        fromY: number[]
+        fromAnchor: number[]
+        toX: number[]
+        toY: number[]
+        toAnchor: number[]
+        elapsed: number
+        duration: number
+    } | null
+    /** Last position of every tracked pointer as `[id, x, y]`, so a stroke in progress carries on. */
+    pointers: [number, number, number][]
+}
+
+export type LatticeSimulation = {
+    readonly seed: number
+    resize: (width: number, height: number) => void
+    /** Rebuilds the mesh with another lattice generator. */
+    setGeometry: (geometry: LatticeGeometry) => void
+    /** Advances the lattice by one fixed tick (1/60 s), substepping as needed. */
+    step: (input: StepInput) => void
+    frame: () => SimulationFrame
+    stats: () => SimulationStats
+    diagnostics: () => SimulationDiagnostics
+    /**
+     * Kicks nodes within `radius` of (x, y) in lattice space: positive
+     * strength pushes them outward, negative pulls them in.
+     */
+    impulse: (x: number, y: number, strength: number, radius?: number) => void
+    /** Rebuilds a flat, unpinned and uncut lattice at the current size. */
+    reset: () => void
+    /** Adds a named force field, replacing any field with the same name. */
+    setField: (name: string, field: ForceField) => void
+    removeField: (name: string) => void
+    /**
+     * Morphs rest positions (and anchor stiffness) toward a mask over the
+     * option's duration; null morphs back to the regular lattice.
+     */
+    morphTo: (mask: ShapeMask | null, options?: ShapeOptions) => void
+    /** Copies the full lattice state into a versioned, JSON-safe document. */
+    snapshot: () => LatticeSnapshot
+    /** Settings and progress to pass to `restore` along with a snapshot for an exact replay. */
+    replayState: () => ReplayState
+    /**
+     * Rebuilds the lattice a snapshot was taken on and loads its state, plus
+     * a replay state when given. Throws when the snapshot does not fit the
+     * rebuilt mesh.
+     */
+    restore: (snapshot: LatticeSnapshot, replay?: ReplayState) => void
+    /**
+     * Moves the rest positions of the listed nodes by (dx, dy) pixels; the
+     * nodes themselves follow through their anchors.
+     */
+    displaceRest: (indices: ArrayLike<number>, dx: ArrayLike<number>, dy: ArrayLike<number>) => void
+    /** Pins or unpins the listed nodes on someone else's behalf; undo leaves them alone. */
+    setPins: (indices: ArrayLike<number>, pinned: boolean) => void
+    /** Cuts or mends the listed edges on someone else's behalf; undo leaves them alone. */
+    setCuts: (indices: ArrayLike<number>, cut: boolean) => void
+    /**
+     * How far healing and `displaceRest` have moved each rest position since
+     * the mesh was built. The rest of `bx - ox` is this lattice's own fold,
+     * from its tools, fields, morphs and undo.
+     */
+    restDrift: () => { x: Float64Array; y: Float64Array }
+    /**
+     * Reverts the last press-to-release stroke; returns false when there is
+     * none. Rest positions moved since by healing or `displaceRest` keep
+     * that movement.
+     */
+    undo: () => boolean
+    /** Reapplies the last undone stroke; returns false when there is none. */
+    redo: () => boolean
+    setHealRate: (rate: number) => void
+    /**
+     * Replaces the physics constants without rebuilding the mesh; fields left
+     * out fall back to their defaults.
+     */
+    configure: (physics: Partial<PhysicsConfig>) => void
+    /** A copy of the physics constants in effect, defaults included. */
+    physics: () => PhysicsConfig
+}
+
+/**
+ * What one stroke changed: rest positions of the nodes it moved (before and
+ * after, as x/y pairs), the nodes it pinned and the edges it cut.
+ */
+type StrokeChange = HistoryEntry & {
+    moved: Uint32Array
+    before: Float64Array
+    after: Float64Array
+    pinned: Uint32Array
+    cut: Uint32Array
+}
+
+/**
+ * Flat copy of the edge fields the per-tick passes read, kept in step with
+ * the `LatticeEdge` objects so those passes stay on typed arrays.
+ */
+type EdgeTable = {
+    a: Uint32Array
+    b: Uint32Array
+    rest: Float64Array
+    stiffness: Float64Array
+    minLength: Float64Array
+    maxLength: Float64Array
+    /** Squared length limits, widened by the constraint tolerance, so in-range edges skip the root. */
+    lowSq: Float64Array
+    highSq: Float64Array
+    broken: Uint8Array
+}
+
+/** A running morph of rest positions and anchor stiffness. */
+type Morph = {
+    fromX: Float64Array
+    fromY: Float64Array
+    fromAnchor: Float32Array
+    toX: Float64Array
+    toY: Float64Array
+    toAnchor: Float32Array
+    elapsed: number
+    duration: number
+}
+
+/** Lattice state captured when a stroke starts, to diff against on release. */
+type StrokeStart = {
+    bx: Float64Array
+    by: Float64Array
+    /** `restDrift` at the start, so the stroke's own change can be told apart. */
+    driftX: Float64Array
+    driftY: Float64Array
+    pinned: Uint8Array
+    broken: Uint8Array
+}
+
+export const DEFAULT_SEED = 0x41b7e
+/** Heal rate used when healing is switched on without a specific rate. */
+export const DEFAULT_HEAL_RATE = 0.08
+/** How much facet strain counts toward the facet signal, next to shear. */
+export const FACET_STRAIN_WEIGHT = 0.42
+export const DEFAULT_HISTORY_BUDGET = 8 * 1024 * 1024
+
+const TICKS_PER_SECOND = 1000 / FIXED_STEP_MS
+
+/** Largest fraction of a cell the pointer may sweep in one substep. */
+const POINTER_STABLE_FRACTION = 0.5
+/** Largest fraction of a cell a node may travel in one substep. */
+const VELOCITY_STABLE_FRACTION = 0.35
+const MAX_SUBSTEPS = 8
+/** Float64 slots per facet in the rest-shape table (perimeter + shape terms). */
+const FACET_SHAPE_STRIDE = 4
+/** Pinning reaches a tighter patch than the pull radius. */
+const PIN_RADIUS_FRACTION = 0.3
+
+/**
+ * Which way a pointer's radial force points: +1 attracts, -1 repels and 0
+ * means the pointer's tool edits state instead of applying a force.
+ */
+function pointerDirection(pointer: ActivePointer) {
+    if (!pointer.pressed) return 1
+    if (pointer.tool === "pull") return 1
+    if (pointer.tool === "push") return -1
+    return 0
+}
+
+function createEdgeTable(count: number): EdgeTable {
+    return {
+        a: new Uint32Array(count),
+        b: new Uint32Array(count),
+        rest: new Float64Array(count),
+        stiffness: new Float64Array(count),
+        minLength: new Float64Array(count),
+        maxLength: new Float64Array(count),
+        lowSq: new Float64Array(count),
+        highSq: new Float64Array(count),
+        broken: new Uint8Array(count)
+    }
+}
+
+function createNodeStore(count: number): NodeStore {
+    return {
+        count,
+        ox: new Float64Array(count),
+        oy: new Float64Array(count),
+        bx: new Float64Array(count),
+        by: new Float64Array(count),
+        x: new Float64Array(count),
+        y: new Float64Array(count),
+        px: new Float64Array(count),
+        py: new Float64Array(count),
+        vx: new Float64Array(count),
+        vy: new Float64Array(count),
+        phase: new Float64Array(count),
+        pinned: new Uint8Array(count)
+    }
+}
+
+/**
+ * Copies a node store into plain objects for tests and tooling. Allocates
+ * on every call, so keep it out of per-frame code.
+ */
+export function readNodes(store: NodeStore): GridNode[] {
+    const nodes: GridNode[] = []
+    for (let i = 0; i < store.count; i += 1) {
+        nodes.push({
+            ox: store.ox[i],
+            oy: store.oy[i],
+            bx: store.bx[i],
+            by: store.by[i],
+            x: store.x[i],
+            y: store.y[i],
+            px: store.px[i],
+            py: store.py[i],
+            vx: store.vx[i],
+            vy: store.vy[i],
+            phase: store.phase[i],
+            pinned: store.pinned[i] === 1
+        })
+    }
+    return nodes
+}
+
+/**
+ * Euclidean length for the per-tick passes. `Math.hypot` guards against
+ * overflow that lattice distances never reach and costs several times more.
+ */
+function length(dx: number, dy: number) {
+    return Math.sqrt(dx * dx + dy * dy)
+}
+
+function distanceToSegment(
+    px: number,
+    py: number,
+    ax: number,
+    ay: number,
+    bx: number,
+    by: number
+) {
+    const abx = bx - ax
+    const aby = by - ay
+    const lengthSq = abx * abx + aby * aby
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((px - ax) * abx + (py - ay) * aby) / lengthSq)) : 0
+    return Math.hypot(px - (ax + abx * t), py - (ay + aby * t))
+}
+
+/**
+ * Influence radius for one pointer on a lattice of the given size. Mouse
+ * keeps the original hover and press radii; touch scales with the viewport
+ * and the reported contact size so a fingertip covers a useful patch on
+ * phones and tablets alike. Both are screen sizes, divided by the pointer's
+ * camera zoom.
+ */
+export function influenceRadius(pointer: PointerInput, width: number, height: number) {
+    const unit = Math.min(width, height)
+    const zoom = pointer.zoom ?? 1
+    if (!pointer.touch) return (unit * (pointer.pressed ? 0.3 : 0.24)) / zoom
+    const viewportRadius = Math.max(48, Math.min(220, unit * 0.2))
+    return Math.max(viewportRadius, (pointer.contact ?? 0) * 1.5) / zoom
+}
+
+export function createSimulation(options: SimulationOptions): LatticeSimulation {
+    const seed = (options.seed ?? DEFAULT_SEED) >>> 0
+    const noise = createNoise(seed)
+    const breakStrain = options.breakStrain ?? Infinity
+    const history = createHistory<StrokeChange>(options.historyBudget ?? DEFAULT_HISTORY_BUDGET)
+
+    let width = 1
+    let height = 1
+    let cols = 0
+    let rows = 0
+    let spacingX = 0
+    let spacingY = 0
+    let geometry = options.geometry ?? DEFAULT_GEOMETRY
+    let nodes = createNodeStore(0)
+    let facetSignal = new Float32Array(0)
+    let facetStrain = new Float32Array(0)
+    let facetGlow = new Float32Array(0)
+    let edges: LatticeEdge[] = []
+    let table = createEdgeTable(0)
+    let edgeLength = new Float64Array(0)
+    /** Structural edges, the only ones with stiffness. */
+    let springs = new Uint32Array(0)
+    let facets: LatticeFacet[] = []
+    let facetShape = new Float64Array(0)
+    // Facet corners and edges packed end to end; facet f owns [facetStart[f], facetStart[f + 1]).
+    let facetStart = new Uint32Array(1)
+    let facetCorners = new Uint32Array(0)
+    let facetEdges = new Int32Array(0)
+    // Edges touching each node, packed the same way by node.
+    let nodeEdgeStart = new Uint32Array(1)
+    let nodeEdges = new Uint32Array(0)
+    let brokenSinceFacetScan = false
+    let drift = 0
+    let tracked = new Map<number, TrackedPointer>()
+    // Swapped with `tracked` each tick; the active list and flip records are pooled.
+    let spareTracked = new Map<number, TrackedPointer>()
+    const activePointers: ActivePointer[] = []
+    const activePool: ActivePointer[] = []
+    let lastSubsteps = 1
+    const passMs = { forces: 0, constraints: 0, facets: 0 }
+    let constraintCorrection = 0
+    let healRate = 0
+    let physics: PhysicsConfig = { ...DEFAULT_PHYSICS, ...options.physics }
+    let stroke: StrokeStart | null = null
+    const facetFlips: FacetFlip[] = []
+    const flipPool: FacetFlip[] = []
+    const fields = new Map<string, ForceField>()
+    /** Simulated seconds, the clock force fields are modulated by. */
+    let seconds = 0
+    /** Per-node multiplier on `anchorK`; shape contours raise it. */
+    let anchorScale = new Float32Array(0)
+    let morph: Morph | null = null
+    // Per-substep scratch, sized with the mesh so integration never allocates.
+    let accelX = new Float64Array(0)
+    let accelY = new Float64Array(0)
+    let startX = new Float64Array(0)
+    let startY = new Float64Array(0)
+    let fieldPlasticity = new Float32Array(0)
+    let correctedNodes = new Uint8Array(0)
+    let driftX = new Float64Array(0)
+    let driftY = new Float64Array(0)
+    let correctedList = new Uint32Array(0)
+    let revisitFlags = new Uint8Array(0)
+    // Sine and cosine of each node's phase, so the idle wave needs no sine per node.
+    let phaseSin = new Float64Array(0)
+    let phaseCos = new Float64Array(0)
+    const fieldForce = { x: 0, y: 0 }
+
+    function rebuildGrid(layout = buildLattice(geometry, width, height)) {
+        cols = layout.cols
+        rows = layout.rows
+        spacingX = layout.spacingX
+        spacingY = layout.spacingY
+
+        const count = layout.positions.length / 2
+        nodes = createNodeStore(count)
+        for (let i = 0; i < count; i += 1) {
+            const bx = layout.positions[i * 2]
+            const by = layout.positions[i * 2 + 1]
+            nodes.ox[i] = nodes.bx[i] = nodes.x[i] = nodes.px[i] = bx
+            nodes.oy[i] = nodes.by[i] = nodes.y[i] = nodes.py[i] = by
+            nodes.phase[i] = noise((by / spacingY) * 0.09, (bx / spacingX) * 0.09) * Math.PI * 2
+        }
+        accelX = new Float64Array(count)
+        accelY = new Float64Array(count)
+        startX = new Float64Array(count)
+        startY = new Float64Array(count)
+        fieldPlasticity = new Float32Array(count)
+        correctedNodes = new Uint8Array(count)
+        driftX = new Float64Array(count)
+        driftY = new Float64Array(count)
+        correctedList = new Uint32Array(count)
+        phaseSin = nodes.phase.map(Math.sin)
+        phaseCos = nodes.phase.map(Math.cos)
+
+        const edgeIndex = new Map<number, number>()
+        table = createEdgeTable(layout.edges.length)
+        edges = layout.edges.map(({ a, b, kind }, index) => {
+            const rest = length(nodes.ox[b] - nodes.ox[a], nodes.oy[b] - nodes.oy[a])
+            edgeIndex.set(Math.min(a, b) * count + Math.max(a, b), index)
+            const edge: LatticeEdge = {
+                a,
+                b,
+                kind,
+                rest,
+                stiffness: 0,
+                minLength: rest,
+                maxLength: rest,
+                breakStrain,
+                broken: false
+            }
+            table.a[index] = a
+            table.b[index] = b
+            table.rest[index] = rest
+            tuneEdge(edge, index)
+            return edge
+        })
+
+        facets = layout.facets.map((corners) => ({
+            corners,
+            edges: corners.map((a, k) => {
+                const b = corners[(k + 1) % corners.length]
+                return edgeIndex.get(Math.min(a, b) * count + Math.max(a, b)) ?? -1
+            }),
+            orphaned: false
+        }))
+
+        facetStart = new Uint32Array(facets.length + 1)
+        facets.forEach((facet, f) => (facetStart[f + 1] = facetStart[f] + facet.corners.length))
+        facetCorners = Uint32Array.from(facets.flatMap((facet) => facet.corners))
+        facetEdges = Int32Array.from(facets.flatMap((facet) => facet.edges))
+
+        facetShape = new Float64Array(facets.length * FACET_SHAPE_STRIDE)
+        facets.forEach((facet, f) => describeRestShape(facet, facetShape, f * FACET_SHAPE_STRIDE))
+
+        facetSignal = new Float32Array(facets.length)
+        facetStrain = new Float32Array(facets.length)
+        facetGlow = new Float32Array(facets.length)
+        springs = Uint32Array.from(edges.flatMap((edge, e) => (edge.kind === "shear" ? [] : [e])))
+        nodeEdgeStart = new Uint32Array(count + 1)
+        for (const edge of edges) {
+            nodeEdgeStart[edge.a + 1] += 1
+            nodeEdgeStart[edge.b + 1] += 1
+        }
+        for (let i = 0; i < count; i += 1) nodeEdgeStart[i + 1] += nodeEdgeStart[i]
+        nodeEdges = new Uint32Array(edges.length * 2)
+        const filled = nodeEdgeStart.slice(0, count)
+        edges.forEach((edge, e) => {
+            nodeEdges[filled[edge.a]++] = e
+            nodeEdges[filled[edge.b]++] = e
+        })
+        revisitFlags = new Uint8Array(edges.length)
+        edgeLength = new Float64Array(edges.length)
+        measureEdges()
+
+        // Recorded strokes, flips and morphs index into the old mesh.
+        history.clear()
+        stroke = null
+        facetFlips.length = 0
+        anchorScale = new Float32Array(count).fill(1)
+        morph = null
+    }
+
+    /**
+     * Caches every edge's current length. Runs at the end of each tick and
+     * after anything else moves nodes, so facet strain, stats and renderers
+     * share one root per edge instead of each measuring it again.
+     */
+    function measureEdges() {
+        const { x, y } = nodes
+        const { a: from, b: to } = table
+        for (let e = 0; e < edges.length; e += 1) {
+            const a = from[e]
+            const b = to[e]
+            const dx = x[b] - x[a]
+            const dy = y[b] - y[a]
+            edgeLength[e] = Math.sqrt(dx * dx + dy * dy)
+        }
+    }
+
+    /** Derives an edge's stiffness and length limits from the physics config. */
+    function tuneEdge(edge: LatticeEdge, index: number) {
+        const shear = edge.kind === "shear"
+        edge.stiffness = table.stiffness[index] = shear ? 0 : physics.structuralK
+        edge.minLength = table.minLength[index] =
+            edge.rest * (shear ? physics.shearMinRatio : physics.structuralMinRatio)
+        edge.maxLength = table.maxLength[index] =
+            edge.rest * (shear ? physics.shearMaxRatio : physics.structuralMaxRatio)
+        table.lowSq[index] = Math.max(0, edge.minLength - 0.0001) ** 2
+        table.highSq[index] = (edge.maxLength + 0.0001) ** 2
+    }
+
+    function configure(next: Partial<PhysicsConfig>) {
+        physics = { ...DEFAULT_PHYSICS, ...next }
+        edges.forEach(tuneEdge)
+    }
+
+    /**
+     * Rest-state terms of a facet's strain and shear measures. Quads keep the
+     * diagonal comparison of the original grid; other polygons store the
+     * inverse second moment of their rest corners for an affine fit.
+     */
+    function describeRestShape(facet: LatticeFacet, out: Float64Array, offset: number) {
+        const { corners } = facet
+        let perimeter = 0
+        facet.edges.forEach((e) => (perimeter += edges[e]?.rest ?? 0))
+        out[offset] = perimeter
+
+        const { ox, oy } = nodes
+        if (corners.length === 4) {
+            const [a, b, c, d] = corners
+            out[offset + 1] = length(ox[c] - ox[a], oy[c] - oy[a])
+            out[offset + 2] = length(ox[d] - ox[b], oy[d] - oy[b])
+            return
+        }
+
+        let cx = 0
+        let cy = 0
+        for (const index of corners) {
+            cx += ox[index] / corners.length
+            cy += oy[index] / corners.length
+        }
+        let sxx = 0
+        let sxy = 0
+        let syy = 0
+        for (const index of corners) {
+            const X = ox[index] - cx
+            const Y = oy[index] - cy
+            sxx += X * X
+            sxy += X * Y
+            syy += Y * Y
+        }
+        const det = sxx * syy - sxy * sxy || 1
+        out[offset + 1] = syy / det
+        out[offset + 2] = -sxy / det
+        out[offset + 3] = sxx / det
+    }
+
+    /** Signed shear of one facet relative to its rest shape. */
+    function facetShear(f: number, offset: number) {
+        const { x, y } = nodes
+        const start = facetStart[f]
+        const count = facetStart[f + 1] - start
+        if (count === 4) {
+            const a = facetCorners[start]
+            const b = facetCorners[start + 1]
+            const c = facetCorners[start + 2]
+            const d = facetCorners[start + 3]
+            const restMain = facetShape[offset + 1]
+            const restCross = facetShape[offset + 2]
+            const diagMain = length(x[c] - x[a], y[c] - y[a]) - restMain
+            const diagCross = length(x[d] - x[b], y[d] - y[b]) - restCross
+            return (diagMain - diagCross) / Math.max(1, (restMain + restCross) * 0.5)
+        }
+        return polygonShear(start, count, offset)
+    }
+
+    /**
+     * Shear of a non-quad facet from an affine fit of its corners. Kept out
+     * of `facetShear` so the quad path stays small enough to inline, which
+     * saves boxing a number per facet per tick.
+     */
+    function polygonShear(start: number, count: number, offset: number) {
+        const { ox, oy, x, y } = nodes
+        let rcx = 0
+        let rcy = 0
+        let cx = 0
+        let cy = 0
+        for (let k = start; k < start + count; k += 1) {
+            const index = facetCorners[k]
+            rcx += ox[index] / count
+            rcy += oy[index] / count
+            cx += x[index] / count
+            cy += y[index] / count
+        }
+        let bxx = 0
+        let bxy = 0
+        let byx = 0
+        let byy = 0
+        for (let k = start; k < start + count; k += 1) {
+            const index = facetCorners[k]
+            const X = ox[index] - rcx
+            const Y = oy[index] - rcy
+            const dx = x[index] - cx
+            const dy = y[index] - cy
+            bxx += dx * X
+            bxy += dx * Y
+            byx += dy * X
+            byy += dy * Y
+        }
+        const ixx = facetShape[offset + 1]
+        const ixy = facetShape[offset + 2]
+        const iyy = facetShape[offset + 3]
+        const f01 = bxx * ixy + bxy * iyy
+        const f10 = byx * ixx + byy * ixy
+        return (f01 + f10) * 0.5
+    }
+
+    function resize(nextWidth: number, nextHeight: number) {
+        if (nodes.count > 0 && Math.max(1, nextWidth) === width && Math.max(1, nextHeight) === height) return
+        const previous = { nodes, edges, spacing: Math.max(spacingX, spacingY) }
+        width = Math.max(1, nextWidth)
+        height = Math.max(1, nextHeight)
+        rebuildGrid()
+        if (previous.nodes.count > 0) remapDeformation(previous.nodes, previous.edges, previous.spacing)
+    }
+
+    /**
+     * Carries sculpted work from a discarded lattice onto the freshly built
+     * one. Rest displacement and pins are resampled at each new node's rest
+     * position; a new edge breaks when it sits on a cut in the old mesh.
+     */
+    function remapDeformation(oldNodes: NodeStore, oldEdges: LatticeEdge[], oldSpacing: number) {
+        const points = new Float64Array(oldNodes.count * 2)
+        const values = new Float64Array(oldNodes.count * 3)
+        for (let i = 0; i < oldNodes.count; i += 1) {
+            points[i * 2] = oldNodes.ox[i]
+            points[i * 2 + 1] = oldNodes.oy[i]
+            values[i * 3] = oldNodes.bx[i] - oldNodes.ox[i]
+            values[i * 3 + 1] = oldNodes.by[i] - oldNodes.oy[i]
+            values[i * 3 + 2] = oldNodes.pinned[i]
+        }
+        const displacement = createSampledField(points, values, 3, oldSpacing * 1.5)
+        const sampled = new Float64Array(3)
+        for (let i = 0; i < nodes.count; i += 1) {
+            if (!displacement.sample(nodes.ox[i], nodes.oy[i], sampled)) continue
+            nodes.bx[i] = nodes.x[i] = nodes.px[i] = nodes.ox[i] + sampled[0]
+            nodes.by[i] = nodes.y[i] = nodes.py[i] = nodes.oy[i] + sampled[1]
+            nodes.pinned[i] = sampled[2] > 0.5 ? 1 : 0
+        }
+        measureEdges()
+
+        const cuts = oldEdges.filter((edge) => edge.broken)
+        if (cuts.length === 0) return
+        const midpoints = new Float64Array(cuts.length * 2)
+        cuts.forEach((edge, k) => {
+            midpoints[k * 2] = (oldNodes.ox[edge.a] + oldNodes.ox[edge.b]) * 0.5
+            midpoints[k * 2 + 1] = (oldNodes.oy[edge.a] + oldNodes.oy[edge.b]) * 0.5
+        })
+        const cutField = createSampledField(midpoints, new Float64Array(cuts.length).fill(1), 1, oldSpacing * 0.45)
+        edges.forEach((edge, e) => {
+            const mx = (nodes.ox[edge.a] + nodes.ox[edge.b]) * 0.5
+            const my = (nodes.oy[edge.a] + nodes.oy[edge.b]) * 0.5
+            if (cutField.sample(mx, my, sampled)) breakEdge(e)
+        })
+        updateFacets()
+    }
+
+    function setGeometry(next: LatticeGeometry) {
+        if (next === geometry) return
+        geometry = next
+        rebuildGrid()
+    }
+
+    /**
+     * Advances the mesh by `h` of a fixed tick. Forces are expressed per tick,
+     * so velocities and per-tick rates are scaled by `h` when substepping.
+     * Each pass is its own function so the engine optimizes them separately.
+     */
+    function integrate(h: number, progress: number, pointers: readonly ActivePointer[], last: boolean) {
+        const started = performance.now()
+        drift += 0.0055 * h
+        seconds += h / TICKS_PER_SECOND
+
+        accelX.fill(0)
+        accelY.fill(0)
+        const plastic = applyFields(accelX, accelY)
+        applyAnchors()
+        applySprings()
+        advanceNodes(h, progress, pointers)
+
+        const forcesDone = performance.now()
+        breakOverstretched()
+        solveConstraints()
+        // The spring pass measures its own edges, so only the tick's end needs the cache.
+        if (last) measureEdges()
+        const constraintsDone = performance.now()
+
+        settleNodes(h, progress, pointers, plastic)
+        passMs.forces += forcesDone - started + performance.now() - constraintsDone
+        passMs.constraints += constraintsDone - forcesDone
+    }
+
+    /** Pulls every node toward its rest position, damps it and adds the idle wave. */
+    function applyAnchors() {
+        const { count, bx, by, x, y, vx, vy } = nodes
+        const ax = accelX
+        const ay = accelY
+        const { anchorK, damping, idleWave } = physics
+        // sin(t·1.6 + phase) by angle addition.
+        const waveSin = Math.sin(drift * 1.6)
+        const waveCos = Math.cos(drift * 1.6)
+
+        for (let i = 0; i < count; i += 1) {
+            const restoreX = (bx[i] - x[i]) * anchorK * anchorScale[i]
+            const restoreY = (by[i] - y[i]) * anchorK * anchorScale[i]
+            const dragX = -vx[i] * damping
+            const dragY = -vy[i] * damping
+            const wave = waveSin * phaseCos[i] + waveCos * phaseSin[i]
+            ax[i] += restoreX + dragX + wave * idleWave * 0.08
+            ay[i] += restoreY + dragY + wave * idleWave
+        }
+    }
+
+    /** Adds the pull of every structural spring, damped along its length. */
+    function applySprings() {
+        const { x, y, vx, vy } = nodes
+        const ax = accelX
+        const ay = accelY
+        const { springFriction } = physics
+        const { a: from, b: to, rest, stiffness, broken } = table
+
+        for (let k = 0; k < springs.length; k += 1) {
+            const e = springs[k]
+            if (broken[e] || stiffness[e] <= 0) continue
+            const a = from[e]
+            const b = to[e]
+            const dx = x[b] - x[a]
+            const dy = y[b] - y[a]
+            const dist = Math.sqrt(dx * dx + dy * dy) || 1
+            const ux = dx / dist
+            const uy = dy / dist
+            const extension = dist - rest[e]
+            const relativeSpeed = (vx[b] - vx[a]) * ux + (vy[b] - vy[a]) * uy
+            const force = extension * stiffness[e] + relativeSpeed * springFriction
+            const fx = ux * force
+            const fy = uy * force
+            ax[a] += fx
+            ay[a] += fy
+            ax[b] -= fx
+            ay[b] -= fy
+        }
+    }
+
+    /** Adds pointer forces and moves every free node by its velocity. */
+    function advanceNodes(h: number, progress: number, pointers: readonly ActivePointer[]) {
+        const { count, x, y, vx, vy, pinned } = nodes
+        const ax = accelX
+        const ay = accelY
+
+        for (let i = 0; i < count; i += 1) {
+            startX[i] = x[i]
+            startY[i] = y[i]
+            if (pinned[i]) {
+                vx[i] = 0
+                vy[i] = 0
+                continue
+            }
+
+            for (let k = 0; k < pointers.length; k += 1) {
+                const pointer = pointers[k]
+                const direction = pointerDirection(pointer)
+                if (direction === 0) continue
+                const dx = x[i] - (pointer.fromX + pointer.rawMoveX * progress)
+                const dy = y[i] - (pointer.fromY + pointer.rawMoveY * progress)
+                // Most nodes are out of reach; compare squares to skip the root.
+                const distanceSq = dx * dx + dy * dy
+                if (distanceSq >= pointer.radius * pointer.radius) continue
+                const d = Math.sqrt(distanceSq) || 1
+                const influence = (1 - d / pointer.radius) ** 2
+                const dirX = (-dx / d) * direction
+                const dirY = (-dy / d) * direction
+                const pullForce = (pointer.pressed ? 1.2 : 0.24) * influence
+                const dragForce = (pointer.pressed ? 6.5 : 0.9) * influence
+                ax[i] += dirX * pullForce + pointer.moveX * dragForce
+                ay[i] += dirY * pullForce + pointer.moveY * dragForce
+            }
+
+            vx[i] += ax[i] * h
+            vy[i] += ay[i] * h
+            x[i] += vx[i] * h
+            y[i] += vy[i] * h
+        }
+    }
+
+    /**
+     * Pulls every edge back inside its length limits, in two passes. The
+     * second only revisits edges touching a node the first one moved; the
+     * rest still have the length they were checked at.
+     */
+    function solveConstraints() {
+        correctedNodes.fill(0)
+        const movedCount = constrainEdges(null)
+        if (movedCount === 0) return
+
+        revisitFlags.fill(0)
+        for (let k = 0; k < movedCount; k += 1) {
+            const node = correctedList[k]
+            for (let j = nodeEdgeStart[node]; j < nodeEdgeStart[node + 1]; j += 1) revisitFlags[nodeEdges[j]] = 1
+        }
+        constrainEdges(revisitFlags)
+    }
+
+    /**
+     * Corrects every edge, or only those flagged in `only`, in table order.
+     * Appends each node it moves for the first time to `correctedList` and
+     * returns how many that list now holds.
+     */
+    function constrainEdges(only: Uint8Array | null) {
+        const { x, y, pinned } = nodes
+        const { a: from, b: to, minLength, maxLength, lowSq, highSq, broken } = table
+        const moved = correctedNodes
+        const movedList = correctedList
+        let movedCount = 0
+        let corrected = 0
+        for (let e = 0; e < edges.length; e += 1) {
+            if (broken[e] || (only && !only[e])) continue
+            const a = from[e]
+            const b = to[e]
+            const dx = x[b] - x[a]
+            const dy = y[b] - y[a]
+            // Most edges sit inside their limits; compare squares to skip the root.
+            const lengthSq = dx * dx + dy * dy
+            if (lengthSq > lowSq[e] && lengthSq < highSq[e]) continue
+            const dist = Math.sqrt(lengthSq) || 1
+            const target = Math.min(maxLength[e], Math.max(minLength[e], dist))
+            if (Math.abs(target - dist) < 0.0001) continue
+
+            if (pinned[a] && pinned[b]) continue
+            const share = pinned[a] || pinned[b] ? 1 : 0.5
+            corrected += Math.abs(dist - target)
+            const correction = ((dist - target) / dist) * share
+            const offsetX = dx * correction
+            const offsetY = dy * correction
+            if (!pinned[a]) {
+                x[a] += offsetX
+                y[a] += offsetY
+                if (!moved[a]) movedList[movedCount++] = a
+                moved[a] = 1
+            }
+            if (!pinned[b]) {
+                x[b] -= offsetX
+                y[b] -= offsetY
+                if (!moved[b]) movedList[movedCount++] = b
+                moved[b] = 1
+            }
+        }
+        constraintCorrection += corrected
+        return movedCount
+    }
+
+    /**
+     * Derives velocities from the substep's motion, then lets healing,
+     * plastic fields and pressed tools move the rest positions.
+     */
+    function settleNodes(
+        h: number,
+        progress: number,
+        pointers: readonly ActivePointer[],
+        plastic: Float32Array | null
+    ) {
+        const { count, ox, oy, bx, by, x, y, vx, vy, pinned } = nodes
+        // Displacement over h, scaled by the velocity the substep retains.
+        const toVelocity = physics.velocityRetention ** h / h
+        const heal = healRate > 0 ? 1 - (1 - healRate) ** (h / TICKS_PER_SECOND) : 0
+        for (let i = 0; i < count; i += 1) {
+            vx[i] = (x[i] - startX[i]) * toVelocity
+            vy[i] = (y[i] - startY[i]) * toVelocity
+            if (heal > 0) {
+                const healX = (ox[i] - bx[i]) * heal
+                const healY = (oy[i] - by[i]) * heal
+                bx[i] += healX
+                by[i] += healY
+                driftX[i] += healX
+                driftY[i] += healY
+            }
+            if (plastic && plastic[i] > 0) {
+                const settle = 1 - (1 - 0.075 * plastic[i]) ** h
+                bx[i] += (x[i] - bx[i]) * settle
+                by[i] += (y[i] - by[i]) * settle
+            }
+
+            for (let k = 0; k < pointers.length; k += 1) {
+                const pointer = pointers[k]
+                if (!pointer.pressed || pointer.tool === "tear") continue
+                const dx = x[i] - (pointer.fromX + pointer.rawMoveX * progress)
+                const dy = y[i] - (pointer.fromY + pointer.rawMoveY * progress)
+                const distanceSq = dx * dx + dy * dy
+                if (pointer.tool === "pin") {
+                    const reach = pointer.radius * PIN_RADIUS_FRACTION
+                    if (distanceSq < reach * reach) pinned[i] = 1
+                    continue
+                }
+                if (distanceSq > pointer.plasticRadius * pointer.plasticRadius) continue
+                const d = Math.sqrt(distanceSq)
+                const influence = (1 - d / pointer.plasticRadius) ** 2
+                if (pointer.tool === "smooth") {
+                    const relax = 1 - (1 - 0.06 * influence) ** h
+                    bx[i] += (ox[i] - bx[i]) * relax
+                    by[i] += (oy[i] - by[i]) * relax
+                    continue
+                }
+                const settle = 1 - (1 - 0.075 * influence) ** h
+                bx[i] += (x[i] - bx[i]) * settle + pointer.moveX * 0.22 * influence * h
+                by[i] += (y[i] - by[i]) * settle + pointer.moveY * 0.22 * influence * h
+            }
+        }
+    }
+
+    /**
+     * Adds every registered force field to the accelerations. Returns the
+     * strongest plastic influence per node, or null when no field is plastic.
+     */
+    function applyFields(ax: Float64Array, ay: Float64Array) {
+        if (fields.size === 0) return null
+        let plasticity: Float32Array | null = null
+        const { count, x, y } = nodes
+        for (const field of fields.values()) {
+            if (field.plastic && !plasticity) {
+                plasticity = fieldPlasticity
+                plasticity.fill(0)
+            }
+            for (let i = 0; i < count; i += 1) {
+                const influence = sampleField(field, noise, x[i], y[i], seconds, fieldForce)
+                if (influence === 0) continue
+                ax[i] += fieldForce.x
+                ay[i] += fieldForce.y
+                if (field.plastic && plasticity) plasticity[i] = Math.max(plasticity[i], influence)
+            }
+        }
+        return plasticity
+    }
+
+    /**
+     * Picks how many substeps the next tick needs so that neither the pointer
+     * nor any node travels further than a fraction of a cell per substep.
+     */
+    function substepCount(pointers: readonly ActivePointer[]) {
+        const cell = Math.max(1, Math.min(spacingX, spacingY))
+        const { vx, vy } = nodes
+        let maxSpeedSq = 0
+        for (let i = 0; i < nodes.count; i += 1) {
+            const speedSq = vx[i] * vx[i] + vy[i] * vy[i]
+            if (speedSq > maxSpeedSq) maxSpeedSq = speedSq
+        }
+        const maxSpeed = Math.sqrt(maxSpeedSq)
+        let maxMove = 0
+        for (const pointer of pointers) {
+            maxMove = Math.max(maxMove, Math.hypot(pointer.rawMoveX, pointer.rawMoveY))
+        }
+        const pointerRatio = maxMove / (cell * POINTER_STABLE_FRACTION)
+        const velocityRatio = maxSpeed / (cell * VELOCITY_STABLE_FRACTION)
+        const needed = Math.ceil(Math.max(1, pointerRatio, velocityRatio))
+        return Math.min(MAX_SUBSTEPS, needed)
+    }
+
+    function breakEdge(index: number) {
+        edges[index].broken = true
+        table.broken[index] = 1
+        brokenSinceFacetScan = true
+    }
+
+    /**
+     * Snaps every edge stretched past its breaking strain. Runs before the
+     * constraint pass, which would otherwise hide the overstretch.
+     */
+    function breakOverstretched() {
+        if (breakStrain === Infinity) return
+        for (let e = 0; e < edges.length; e += 1) {
+            const edge = edges[e]
+            if (edge.broken) continue
+            const strain = length(nodes.x[edge.b] - nodes.x[edge.a], nodes.y[edge.b] - nodes.y[edge.a]) / edge.rest - 1
+            if (strain > edge.breakStrain) breakEdge(e)
+        }
+    }
+
+    /**
+     * Cuts every edge whose midpoint lies within reach of a tear stroke's
+     * path over the last tick.
+     */
+    function tearAlong(pointer: ActivePointer) {
+        const reach = Math.max(4, Math.min(spacingX, spacingY) * 0.55)
+        const toX = pointer.fromX + pointer.rawMoveX
+        const toY = pointer.fromY + pointer.rawMoveY
+        for (let e = 0; e < edges.length; e += 1) {
+            const edge = edges[e]
+            if (edge.broken) continue
+            const mx = (nodes.x[edge.a] + nodes.x[edge.b]) * 0.5
+            const my = (nodes.y[edge.a] + nodes.y[edge.b]) * 0.5
+            if (distanceToSegment(mx, my, pointer.fromX, pointer.fromY, toX, toY) < reach) {
+                breakEdge(e)
+            }
+        }
+    }
+
+    function updateFacets() {
+        facetFlips.length = 0
+        if (brokenSinceFacetScan) {
+            for (const facet of facets) {
+                if (!facet.orphaned) facet.orphaned = facet.edges.some((e) => edges[e].broken)
+            }
+            brokenSinceFacetScan = false
+        }
+
+        for (let fIndex = 0; fIndex < facets.length; fIndex += 1) {
+            const facet = facets[fIndex]
+            if (facet.orphaned) {
+                facetGlow[fIndex] = 0
+                facetSignal[fIndex] = 0
+                facetStrain[fIndex] = 0
+                continue
+            }
+            const offset = fIndex * FACET_SHAPE_STRIDE
+            const shear = facetShear(fIndex, offset)
+
+            // The rest perimeter is cached, so only current lengths are summed.
+            let perimeter = 0
+            for (let k = facetStart[fIndex]; k < facetStart[fIndex + 1]; k += 1) perimeter += edgeLength[facetEdges[k]]
+            const strain = (perimeter - facetShape[offset]) / Math.max(1, facetShape[offset])
+
+            const signal = shear + strain * FACET_STRAIN_WEIGHT
+            const prevSignal = facetSignal[fIndex]
+            const delta = signal - prevSignal
+            const signFlip = (signal > 0 && prevSignal < 0) || (signal < 0 && prevSignal > 0)
+            const flipStrength = signFlip ? Math.min(1, Math.abs(delta) * 7.5) : 0
+            if (flipStrength > 0) {
+                const flip = flipPool[facetFlips.length] ?? (flipPool[facetFlips.length] = { facet: 0, strength: 0 })
+                flip.facet = fIndex
+                flip.strength = flipStrength
+                facetFlips.push(flip)
+            }
+            const excitation = Math.max(
+                0,
+                Math.abs(delta) - 0.032
+            )
+
+            facetGlow[fIndex] = Math.min(
+                1,
+                facetGlow[fIndex] * 0.9 + flipStrength * 0.95 + excitation * 1.6
+            )
+            facetSignal[fIndex] = signal
+            facetStrain[fIndex] = strain
+        }
+    }
+
+    /**
+     * Resolves each input pointer against its own previous position. Pointers
+     * that disappear from the input are forgotten, so a finger that lifts and
+     * lands elsewhere never produces a jump.
+     */
+    function resolvePointers(input: StepInput) {
+        const moveLimit = Math.max(0.6, Math.min(spacingX, spacingY) * 0.09)
+        const tool = input.tool ?? DEFAULT_TOOL
+        const nextTracked = spareTracked
+        const active = activePointers
+        nextTracked.clear()
+        active.length = 0
+
+        for (const pointer of input.pointers) {
+            const known = tracked.get(pointer.id)
+            const previous = known ?? pointer
+            const rawMoveX = pointer.x - previous.x
+            const rawMoveY = pointer.y - previous.y
+            const radius = influenceRadius(pointer, width, height)
+            const resolved = activePool[active.length] ?? (activePool[active.length] = blankPointer())
+            resolved.fromX = previous.x
+            resolved.fromY = previous.y
+            resolved.rawMoveX = rawMoveX
+            resolved.rawMoveY = rawMoveY
+            resolved.moveX = Math.max(-moveLimit, Math.min(moveLimit, rawMoveX))
+            resolved.moveY = Math.max(-moveLimit, Math.min(moveLimit, rawMoveY))
+            resolved.pressed = pointer.pressed
+            resolved.tool = tool
+            resolved.radius = radius
+            resolved.plasticRadius = radius * (0.34 / 0.3)
+            active.push(resolved)
+
+            // A known pointer's record moves to the next map instead of being replaced.
+            const position = known ?? { x: 0, y: 0 }
+            position.x = pointer.x
+            position.y = pointer.y
+            nextTracked.set(pointer.id, position)
+        }
+
+        spareTracked = tracked
+        tracked = nextTracked
+        return active
+    }
+
+    function step(input: StepInput) {
+        const pointers = resolvePointers(input)
+        const pressed = pointers.some((pointer) => pointer.pressed)
+        if (pressed && !stroke) beginStroke()
+        if (!pressed && stroke) endStroke()
+        if (morph) advanceMorph(morph)
+
+        nodes.px.set(nodes.x)
+        nodes.py.set(nodes.y)
+
+        const substeps = substepCount(pointers)
+        lastSubsteps = substeps
+        passMs.forces = 0
+        passMs.constraints = 0
+        constraintCorrection = 0
+        const h = 1 / substeps
+        for (let s = 1; s <= substeps; s += 1) {
+            integrate(h, s * h, pointers, s === substeps)
+        }
+
+        for (const pointer of pointers) {
+            if (pointer.pressed && pointer.tool === "tear") tearAlong(pointer)
+        }
+
+        const facetsStarted = performance.now()
+        updateFacets()
+        passMs.facets = performance.now() - facetsStarted
+    }
+
+    function beginStroke() {
+        stroke = {
+            bx: nodes.bx.slice(),
+            by: nodes.by.slice(),
+            driftX: driftX.slice(),
+            driftY: driftY.slice(),
+            pinned: nodes.pinned.slice(),
+            broken: Uint8Array.from(edges, (edge) => (edge.broken ? 1 : 0))
+        }
+    }
+
+    /**
+     * Diffs the lattice against the stroke start and records what changed.
+     * Rest positions are compared after taking out what healing and
+     * `displaceRest` did meanwhile, so only the stroke's own edits count.
+     */
+    function endStroke() {
+        const start = stroke
+        stroke = null
+        if (!start) return
+
+        const moved: number[] = []
+        const pinned: number[] = []
+        for (let i = 0; i < nodes.count; i += 1) {
+            start.bx[i] += driftX[i] - start.driftX[i]
+            start.by[i] += driftY[i] - start.driftY[i]
+            if (nodes.bx[i] !== start.bx[i] || nodes.by[i] !== start.by[i]) moved.push(i)
+            if (nodes.pinned[i] && !start.pinned[i]) pinned.push(i)
+        }
+        const cut: number[] = []
+        edges.forEach((edge, e) => {
+            if (edge.broken && !start.broken[e]) cut.push(e)
+        })
+        if (moved.length + pinned.length + cut.length === 0) return
+
+        const before = new Float64Array(moved.length * 2)
+        const after = new Float64Array(moved.length * 2)
+        moved.forEach((index, k) => {
+            before[k * 2] = start.bx[index]
+            before[k * 2 + 1] = start.by[index]
+            after[k * 2] = nodes.bx[index]
+            after[k * 2 + 1] = nodes.by[index]
+        })
+        history.push({
+            moved: Uint32Array.from(moved),
+            before,
+            after,
+            pinned: Uint32Array.from(pinned),
+            cut: Uint32Array.from(cut),
+            bytes: moved.length * 36 + (pinned.length + cut.length) * 4
+        })
+    }
+
+    /**
+     * Writes one side of a recorded stroke back onto the lattice. A rest
+     * position that has moved since the stroke keeps that movement on top.
+     */
+    function applyStroke(change: StrokeChange, forward: boolean) {
+        const rest = forward ? change.after : change.before
+        const other = forward ? change.before : change.after
+        change.moved.forEach((index, k) => {
+            nodes.bx[index] = rest[k * 2] + (nodes.bx[index] - other[k * 2])
+            nodes.by[index] = rest[k * 2 + 1] + (nodes.by[index] - other[k * 2 + 1])
+        })
+        for (const index of change.pinned) nodes.pinned[index] = forward ? 1 : 0
+        for (const index of change.cut) {
+            edges[index].broken = forward
+            table.broken[index] = forward ? 1 : 0
+        }
+        refreshOrphans()
+    }
+
+    function refreshOrphans() {
+        for (const facet of facets) facet.orphaned = facet.edges.some((e) => edges[e].broken)
+    }
+
+    function undo() {
+        if (stroke) endStroke()
+        const change = history.undo()
+        if (change) applyStroke(change, false)
+        return change !== null
+    }
+
+    function redo() {
+        if (stroke) endStroke()
+        const change = history.redo()
+        if (change) applyStroke(change, true)
+        return change !== null
+    }
+
+    function setHealRate(rate: number) {
+        healRate = Math.max(0, Math.min(0.999, rate))
+    }
+
+    function frame(): SimulationFrame {
+        return {
+            width,
+            height,
+            geometry,
+            cols,
+            rows,
+            spacingX,
+            spacingY,
+            time: drift,
+            substeps: lastSubsteps,
+            nodes,
+            facetSignal,
+            facetStrain,
+            edges,
+            edgeLengths: edgeLength,
+            edgeBroken: table.broken,
+            facets,
+            facetGlow,
+            facetFlips
+        }
+    }
+
+    function stats(): SimulationStats {
+        const { vx, vy } = nodes
+        let energy = 0
+        for (let i = 0; i < nodes.count; i += 1) energy += (vx[i] * vx[i] + vy[i] * vy[i]) * 0.5
+        let maxStrain = 0
+        for (let e = 0; e < edges.length; e += 1) {
+            if (edges[e].broken) continue
+            const strain = Math.abs(edgeLength[e] / edges[e].rest - 1)
+            if (strain > maxStrain) maxStrain = strain
+        }
+        return { energy, maxStrain }
+    }
+
+    function diagnostics(): SimulationDiagnostics {
+        const { stiffness, rest, broken } = table
+        let springEnergy = 0
+        for (let e = 0; e < edges.length; e += 1) {
+            if (broken[e] || stiffness[e] <= 0) continue
+            const extension = edgeLength[e] - rest[e]
+            springEnergy += 0.5 * stiffness[e] * extension * extension
+        }
+        return {
+            passMs: { ...passMs },
+            constraintCorrection,
+            kineticEnergy: stats().energy,
+            springEnergy
+        }
+    }
+
+    function impulse(x: number, y: number, strength: number, radius = Math.min(width, height) * 0.24) {
+        for (let i = 0; i < nodes.count; i += 1) {
+            if (nodes.pinned[i]) continue
+            const dx = nodes.x[i] - x
+            const dy = nodes.y[i] - y
+            const d = Math.hypot(dx, dy)
+            if (d >= radius) continue
+            const influence = (1 - d / radius) ** 2 * strength
+            nodes.vx[i] += d > 0 ? (dx / d) * influence : 0
+            nodes.vy[i] += d > 0 ? (dy / d) * influence : 0
+        }
+    }
+
+    function morphTo(mask: ShapeMask | null, options: ShapeOptions = {}) {
+        const rest = new Float64Array(nodes.count * 2)
+        for (let i = 0; i < nodes.count; i += 1) {
+            rest[i * 2] = nodes.ox[i]
+            rest[i * 2 + 1] = nodes.oy[i]
+        }
+        const target = mask
+            ? shapeTarget(mask, rest, { width, height, reach: Math.max(spacingX, spacingY) * 1.2 }, options)
+            : {
+                  bx: nodes.ox.slice(),
+                  by: nodes.oy.slice(),
+                  anchor: new Float32Array(nodes.count).fill(1)
+              }
+        morph = {
+            fromX: nodes.bx.slice(),
+            fromY: nodes.by.slice(),
+            fromAnchor: anchorScale.slice(),
+            toX: target.bx,
+            toY: target.by,
+            toAnchor: target.anchor,
+            elapsed: 0,
+            duration: Math.max(0, options.duration ?? 2)
+        }
+        if (morph.duration === 0) advanceMorph(morph)
+    }
+
+    /** Eases rest positions one tick further along the running morph. */
+    function advanceMorph(current: Morph) {
+        current.elapsed += 1 / TICKS_PER_SECOND
+        const progress = current.duration > 0 ? Math.min(1, current.elapsed / current.duration) : 1
+        const eased = progress * progress * (3 - 2 * progress)
+        for (let i = 0; i < nodes.count; i += 1) {
+            nodes.bx[i] = current.fromX[i] + (current.toX[i] - current.fromX[i]) * eased
+            nodes.by[i] = current.fromY[i] + (current.toY[i] - current.fromY[i]) * eased
+            anchorScale[i] = current.fromAnchor[i] + (current.toAnchor[i] - current.fromAnchor[i]) * eased
+        }
+        if (progress >= 1) morph = null
+    }
+
+    function setField(name: string, field: ForceField) {
+        fields.set(name, field)
+    }
+
+    function removeField(name: string) {
+        fields.delete(name)
+    }
+
+    function displaceRest(indices: ArrayLike<number>, dx: ArrayLike<number>, dy: ArrayLike<number>) {
+        for (let k = 0; k < indices.length; k += 1) {
+            const i = indices[k]
+            if (i >= nodes.count) continue
+            nodes.bx[i] += dx[k]
+            nodes.by[i] += dy[k]
+            driftX[i] += dx[k]
+            driftY[i] += dy[k]
+        }
+    }
+
+    function setPins(indices: ArrayLike<number>, pinned: boolean) {
+        for (let k = 0; k < indices.length; k += 1) {
+            const i = indices[k]
+            if (i >= nodes.count) continue
+            nodes.pinned[i] = pinned ? 1 : 0
+            if (stroke) stroke.pinned[i] = nodes.pinned[i]
+        }
+    }
+
+    function setCuts(indices: ArrayLike<number>, cut: boolean) {
+        for (let k = 0; k < indices.length; k += 1) {
+            const e = indices[k]
+            if (!edges[e]) continue
+            edges[e].broken = cut
+            table.broken[e] = cut ? 1 : 0
+            if (stroke) stroke.broken[e] = table.broken[e]
+        }
+        refreshOrphans()
+    }
+
+    function reset() {
+        rebuildGrid()
+        tracked.clear()
+    }
+
+    function snapshot(): LatticeSnapshot {
+        const pinned: number[] = []
+        for (let i = 0; i < nodes.count; i += 1) {
+            if (nodes.pinned[i]) pinned.push(i)
+        }
+        const broken: number[] = []
+        edges.forEach((edge, e) => {
+            if (edge.broken) broken.push(e)
+        })
+        return {
+            version: SNAPSHOT_VERSION,
+            seed,
+            geometry,
+            width,
+            height,
+            cols,
+            rows,
+            spacingX,
+            spacingY,
+            time: drift,
+            bx: Array.from(nodes.bx),
+            by: Array.from(nodes.by),
+            x: Array.from(nodes.x),
+            y: Array.from(nodes.y),
+            vx: Array.from(nodes.vx),
+            vy: Array.from(nodes.vy),
+            pinned,
+            broken,
+            facetGlow: Array.from(facetGlow)
+        }
+    }
+
+    function replayState(): ReplayState {
+        return {
+            physics: { ...physics },
+            healRate,
+            fields: Array.from(fields, ([name, field]) => [name, { ...field }]),
+            seconds,
+            anchorScale: Array.from(anchorScale),
+            morph: morph && {
+                fromX: Array.from(morph.fromX),
+                fromY: Array.from(morph.fromY),
+                fromAnchor: Array.from(morph.fromAnchor),
+                toX: Array.from(morph.toX),
+                toY: Array.from(morph.toY),
+                toAnchor: Array.from(morph.toAnchor),
+                elapsed: morph.elapsed,
+                duration: morph.duration
+            },
+            pointers: Array.from(tracked, ([id, pointer]) => [id, pointer.x, pointer.y])
+        }
+    }
+
+    function restore(state: LatticeSnapshot, replay?: ReplayState) {
+        // Checked against a fresh layout first, so a mismatch leaves the live lattice as it was.
+        const layout = buildLattice(state.geometry, Math.max(1, state.width), Math.max(1, state.height))
+        const count = layout.positions.length / 2
+        if (state.bx.length !== count || state.facetGlow.length !== layout.facets.length) {
+            throw new Error("Snapshot does not match the rebuilt lattice")
+        }
+        if (replay && replay.anchorScale.length !== count) throw new Error("Replay state does not match the lattice")
+        geometry = state.geometry
+        width = Math.max(1, state.width)
+        height = Math.max(1, state.height)
+        // Edges are tuned from the physics while the mesh is rebuilt.
+        if (replay) physics = { ...DEFAULT_PHYSICS, ...replay.physics }
+        rebuildGrid(layout)
+
+        nodes.bx.set(state.bx)
+        nodes.by.set(state.by)
+        nodes.x.set(state.x)
+        nodes.y.set(state.y)
+        nodes.px.set(state.x)
+        nodes.py.set(state.y)
+        nodes.vx.set(state.vx)
+        nodes.vy.set(state.vy)
+        for (const index of state.pinned) {
+            if (index < nodes.count) nodes.pinned[index] = 1
+        }
+        for (const index of state.broken) {
+            if (edges[index]) breakEdge(index)
+        }
+        drift = state.time
+        tracked.clear()
+        measureEdges()
+        updateFacets()
+        facetGlow.set(state.facetGlow)
+        if (replay) resume(replay)
+    }
+
+    function resume(replay: ReplayState) {
+        if (replay.anchorScale.length !== nodes.count) throw new Error("Replay state does not match the lattice")
+        setHealRate(replay.healRate)
+        fields.clear()
+        for (const [name, field] of replay.fields) fields.set(name, field)
+        seconds = replay.seconds
+        anchorScale.set(replay.anchorScale)
+        morph = replay.morph && {
+            fromX: Float64Array.from(replay.morph.fromX),
+            fromY: Float64Array.from(replay.morph.fromY),
+            fromAnchor: Float32Array.from(replay.morph.fromAnchor),
+            toX: Float64Array.from(replay.morph.toX),
+            toY: Float64Array.from(replay.morph.toY),
+            toAnchor: Float32Array.from(replay.morph.toAnchor),
+            elapsed: replay.morph.elapsed,
+            duration: replay.morph.duration
+        }
+        tracked = new Map(replay.pointers.map(([id, x, y]) => [id, { x, y }]))
+    }
+
+    resize(options.width, options.height)
+    setHealRate(options.healRate ?? 0)
+
+    return {
+        seed,
+        resize,
+        setGeometry,
+        step,
+        frame,
+        stats,
+        diagnostics,
+        impulse,
+        reset,
+        setField,
+        removeField,
+        morphTo,
+        snapshot,
+        replayState,
+        restore,
+        displaceRest,
+        setPins,
+        setCuts,
+        restDrift: () => ({ x: driftX, y: driftY }),
+        undo,
+        redo,
+        setHealRate,
+        configure,
+        physics: () => ({ ...physics })
+    }
+}
@@ -0,0 +1,107 @@
+import { createSimulation, type StepInput } from "@/lib/simulation"
+import {
+    AUTOSAVE_KEY,
+    decodeShareable,
+    encodeShareable,
+    MAX_SNAPSHOT_SIDE,
+    parseSnapshot,
+    readAutosave,
+    serializeSnapshot,
+    writeAutosave
+} from "@/lib/snapshot"
+import { describe, expect, test } from "vitest"
+
+function sculpted() {
+    const simulation = createSimulation({ width: 480, height: 320, seed: 11 })
+    for (let i = 0; i < 60; i += 1) {
+        const input: StepInput = {
+            pointers: [{ id: 1, x: i * 3 - 90, y: 20, pressed: true, touch: false }],
+            tool: i < 50 ? "pull" : "tear"
+        }
+        simulation.step(input)
+    }
+    return simulation
+}
+
+/** A share link carrying only `header`, the way `encodeShareable` frames it. */
+async function linkWithHeader(header: object) {
+    const json = new TextEncoder().encode(JSON.stringify(header))
+    const body = new Uint8Array(4 + json.length)
+    new DataView(body.buffer).setUint32(0, json.length, true)
+    body.set(json, 4)
+    const stream = new Response(body).body!.pipeThrough(new CompressionStream("deflate-raw"))
+    const bytes = new Uint8Array(await new Response(stream).arrayBuffer())
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+describe("lattice snapshots", () => {
+    test("round-trips the full lattice state through versioned JSON", () => {
+        const source = sculpted()
+        const restored = createSimulation({ width: 100, height: 100, seed: 11 })
+
+        restored.restore(parseSnapshot(serializeSnapshot(source.snapshot())))
+
+        expect(restored.snapshot()).toEqual(source.snapshot())
+    })
+
+    test("leaves the live lattice untouched when a snapshot does not match its geometry", () => {
+        const live = sculpted()
+        const before = live.snapshot()
+        const other = createSimulation({ width: 640, height: 400, seed: 2 }).snapshot()
+
+        expect(() => live.restore({ ...other, bx: other.bx.slice(1), by: other.by.slice(1) })).toThrow(/does not match/)
+        expect(live.snapshot()).toEqual(before)
+    })
+
+    test("rejects documents from another version or with missing node data", () => {
+        const snapshot = sculpted().snapshot()
+
+        expect(() => parseSnapshot({ ...snapshot, version: 2 })).toThrow(/version/)
+        expect(() => parseSnapshot({ ...snapshot, vx: snapshot.vx.slice(1) })).toThrow(/vx/)
+        expect(() => parseSnapshot("{")).toThrow()
+    })
+
+    test("rejects unknown geometries, oversized hosts and stray indices before rebuilding", async () => {
+        const snapshot = sculpted().snapshot()
+
+        expect(() => parseSnapshot({ ...snapshot, geometry: "spiral" })).toThrow(/geometry/)
+        expect(() => parseSnapshot({ ...snapshot, width: MAX_SNAPSHOT_SIDE + 1 })).toThrow(/width/)
+        expect(() => parseSnapshot({ ...snapshot, pinned: [1.5] })).toThrow(/pinned/)
+
+        const header = { version: 1, seed: 1, geometry: "rectangular", width: 480, height: 320, nodes: 0 }
+        const decode = async (overrides: object) =>
+            decodeShareable(await linkWithHeader({ ...header, pinned: 0, broken: 0, ...overrides }))
+        await expect(decode({ geometry: "spiral" })).rejects.toThrow(/geometry/)
+        await expect(decode({ height: 1e7 })).rejects.toThrow(/height/)
+        await expect(decode({ nodes: 1e9 })).rejects.toThrow(/nodes/)
+        await expect(decode({ nodes: 10 })).rejects.toThrow(/truncated/)
+    })
+
+    test("shares the sculpted rest shape through a compact link", async () => {
+        const snapshot = sculpted().snapshot()
+        const code = await encodeShareable(snapshot)
+        const shared = await decodeShareable(code)
+
+        expect(code).toMatch(/^[A-Za-z0-9_-]+$/)
+        expect(code.length).toBeLessThan(serializeSnapshot(snapshot).length / 20)
+        expect(shared.broken).toEqual(snapshot.broken)
+        shared.bx.forEach((bx, i) => expect(Math.abs(bx - snapshot.bx[i])).toBeLessThanOrEqual(0.05))
+    })
+
+    test("autosaves to storage and drops unreadable entries", () => {
+        const entries = new Map<string, string>()
+        const storage = {
+            getItem: (key: string) => entries.get(key) ?? null,
+            setItem: (key: string, value: string) => void entries.set(key, value),
+            removeItem: (key: string) => void entries.delete(key)
+        } as Storage
+        const snapshot = sculpted().snapshot()
+
+        writeAutosave(storage, snapshot)
+        expect(readAutosave(storage)).toEqual(snapshot)
+
+        entries.set(AUTOSAVE_KEY, "not json")
+        expect(readAutosave(storage)).toBeNull()
+        expect(entries.has(AUTOSAVE_KEY)).toBe(false)
+    })
+})
@@ -0,0 +1,263 @@
+import { buildLattice, LATTICE_GEOMETRIES, type LatticeGeometry } from "@/lib/lattices"
+
+export const SNAPSHOT_VERSION = 1
+
+/**
+ * Versioned, JSON-safe copy of the full lattice state. Per-node values are
+ * stored as parallel arrays in node order.
+ */
+export type LatticeSnapshot = {
+    version: typeof SNAPSHOT_VERSION
+    seed: number
+    geometry: LatticeGeometry
+    width: number
+    height: number
+    cols: number
+    rows: number
+    spacingX: number
+    spacingY: number
+    time: number
+    bx: number[]
+    by: number[]
+    x: number[]
+    y: number[]
+    vx: number[]
+    vy: number[]
+    /** Indices of pinned nodes. */
+    pinned: number[]
+    /** Indices of broken edges. */
+    broken: number[]
+    facetGlow: number[]
+}
+
+export const AUTOSAVE_KEY = "grid-research:snapshot"
+export const SHARE_HASH_PREFIX = "#lattice="
+
+const NODE_FIELDS = ["bx", "by", "x", "y", "vx", "vy"] as const
+/** Rest displacement is shared at 0.1 px resolution. */
+const SHARE_QUANTUM = 10
+/** Largest host side a snapshot may rebuild; every geometry stays under `MAX_SNAPSHOT_NODES` there. */
+export const MAX_SNAPSHOT_SIDE = 8192
+export const MAX_SNAPSHOT_NODES = 500_000
+/** Lattices have at most a handful of edges per node. */
+const MAX_SNAPSHOT_EDGES = MAX_SNAPSHOT_NODES * 4
+
+function isNumberArray(value: unknown): value is number[] {
+    return Array.isArray(value) && value.every((item) => typeof item === "number" && Number.isFinite(item))
+}
+
+function isIndexList(value: unknown, limit: number): value is number[] {
+    return Array.isArray(value) && value.length <= limit && value.every((item) => Number.isInteger(item) && item >= 0)
+}
+
+/**
+ * Rejects geometries and host sizes that would not rebuild into a bounded
+ * lattice. `source` names the document in the error.
+ */
+export function checkExtent(geometry: unknown, width: unknown, height: unknown, source = "Snapshot") {
+    if (!LATTICE_GEOMETRIES.some((definition) => definition.id === geometry)) {
+        throw new Error(`Unknown lattice geometry: ${String(geometry)}`)
+    }
+    for (const [key, side] of [["width", width], ["height", height]] as const) {
+        if (typeof side !== "number" || !Number.isFinite(side) || side < 1 || side > MAX_SNAPSHOT_SIDE) {
+            throw new Error(`${source} ${key} must be between 1 and ${MAX_SNAPSHOT_SIDE}`)
+        }
+    }
+}
+
+/** Validates untrusted input (a file, storage entry or link) as a snapshot. */
+export function parseSnapshot(input: unknown): LatticeSnapshot {
+    const data = typeof input === "string" ? (JSON.parse(input) as unknown) : input
+    if (!data || typeof data !== "object") throw new Error("Snapshot must be a JSON object")
+    const snapshot = data as Record<string, unknown>
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version: ${String(snapshot.version)}`)
+    }
+    checkExtent(snapshot.geometry, snapshot.width, snapshot.height)
+    for (const key of ["seed", "width", "height", "cols", "rows", "spacingX", "spacingY", "time"]) {
+        if (typeof snapshot[key] !== "number" || !Number.isFinite(snapshot[key])) {
+            throw new Error(`Snapshot field "${key}" must be a number`)
+        }
+    }
+    const count = (snapshot.bx as unknown[] | undefined)?.length ?? -1
+    if (count > MAX_SNAPSHOT_NODES) throw new Error(`Snapshot has more than ${MAX_SNAPSHOT_NODES} nodes`)
+    for (const key of NODE_FIELDS) {
+        const values = snapshot[key]
+        if (!isNumberArray(values) || values.length !== count) {
+            throw new Error(`Snapshot field "${key}" must list one number per node`)
+        }
+    }
+    if (!isIndexList(snapshot.pinned, count)) throw new Error('Snapshot field "pinned" must list node indices')
+    if (!isIndexList(snapshot.broken, MAX_SNAPSHOT_EDGES)) {
+        throw new Error('Snapshot field "broken" must list edge indices')
+    }
+    if (!isNumberArray(snapshot.facetGlow) || snapshot.facetGlow.length > MAX_SNAPSHOT_EDGES) {
+        throw new Error('Snapshot field "facetGlow" must be a number list')
+    }
+    return snapshot as LatticeSnapshot
+}
+
+export function serializeSnapshot(snapshot: LatticeSnapshot) {
+    return JSON.stringify(snapshot)
+}
+
+function toBase64Url(bytes: Uint8Array) {
+    let binary = ""
+    for (let i = 0; i < bytes.length; i += 1) binary += String.fromCharCode(bytes[i])
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(text: string) {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i)
+    return bytes
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) {
+    const input = new Response(bytes).body
+    if (!input) throw new Error("Streams are not supported here")
+    return new Uint8Array(await new Response(input.pipeThrough(stream)).arrayBuffer())
+}
+
+/**
+ * Packs the sculpted shape into a compact, URL-safe string: a small JSON
+ * header followed by the quantised rest displacement, pins and cuts, all
+ * deflated. Positions and velocities are dropped, so a shared sheet loads
+ * at rest in its folded shape.
+ */
+export async function encodeShareable(snapshot: LatticeSnapshot) {
+    const origin = buildLattice(snapshot.geometry, snapshot.width, snapshot.height).positions
+    const header = new TextEncoder().encode(
+        JSON.stringify({
+            version: snapshot.version,
+            seed: snapshot.seed,
+            geometry: snapshot.geometry,
+            width: snapshot.width,
+            height: snapshot.height,
+            nodes: snapshot.bx.length,
+            pinned: snapshot.pinned.length,
+            broken: snapshot.broken.length
+        })
+    )
+    const count = snapshot.bx.length
+    const indexCount = snapshot.pinned.length + snapshot.broken.length
+    const body = new ArrayBuffer(4 + header.length + count * 4 + indexCount * 4)
+    const view = new DataView(body)
+    view.setUint32(0, header.length, true)
+    new Uint8Array(body, 4, header.length).set(header)
+    let offset = 4 + header.length
+    for (let i = 0; i < count; i += 1) {
+        const dx = Math.round((snapshot.bx[i] - origin[i * 2]) * SHARE_QUANTUM)
+        const dy = Math.round((snapshot.by[i] - origin[i * 2 + 1]) * SHARE_QUANTUM)
+        view.setInt16(offset, Math.max(-32768, Math.min(32767, dx)), true)
+        view.setInt16(offset + 2, Math.max(-32768, Math.min(32767, dy)), true)
+        offset += 4
+    }
+    for (const index of [...snapshot.pinned, ...snapshot.broken]) {
+        view.setUint32(offset, index, true)
+        offset += 4
+    }
+    return toBase64Url(await transform(new Uint8Array(body), new CompressionStream("deflate-raw")))
+}
+
+/**
+ * Unpacks a link made by `encodeShareable`. The header is checked before the
+ * lattice is rebuilt, so a hostile link cannot ask for an unbounded mesh.
+ */
+export async function decodeShareable(text: string): Promise<LatticeSnapshot> {
+    const bytes = await transform(fromBase64Url(text), new DecompressionStream("deflate-raw"))
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    if (bytes.length < 4) throw new Error("Shared lattice is truncated")
+    const headerLength = view.getUint32(0, true)
+    const header = JSON.parse(new TextDecoder().decode(bytes.subarray(4, 4 + headerLength))) as {
+        version: number
+        seed: number
+        geometry: LatticeGeometry
+        width: number
+        height: number
+        nodes: number
+        pinned: number
+        broken: number
+    }
+    if (!header || typeof header !== "object") throw new Error("Shared lattice header must be a JSON object")
+    if (header.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version: ${String(header.version)}`)
+    }
+    checkExtent(header.geometry, header.width, header.height)
+    if (typeof header.seed !== "number" || !Number.isFinite(header.seed)) {
+        throw new Error('Shared lattice field "seed" must be a number')
+    }
+    const limits = { nodes: MAX_SNAPSHOT_NODES, pinned: MAX_SNAPSHOT_NODES, broken: MAX_SNAPSHOT_EDGES }
+    for (const key of ["nodes", "pinned", "broken"] as const) {
+        if (!Number.isInteger(header[key]) || header[key] < 0 || header[key] > limits[key]) {
+            throw new Error(`Shared lattice field "${key}" must be a count up to ${limits[key]}`)
+        }
+    }
+    if (bytes.length < 4 + headerLength + (header.nodes + header.pinned + header.broken) * 4) {
+        throw new Error("Shared lattice is truncated")
+    }
+    const layout = buildLattice(header.geometry, header.width, header.height)
+    if (layout.positions.length !== header.nodes * 2) {
+        throw new Error("Shared lattice does not match its geometry")
+    }
+    let offset = 4 + headerLength
+    const bx: number[] = []
+    const by: number[] = []
+    for (let i = 0; i < header.nodes; i += 1) {
+        bx.push(layout.positions[i * 2] + view.getInt16(offset, true) / SHARE_QUANTUM)
+        by.push(layout.positions[i * 2 + 1] + view.getInt16(offset + 2, true) / SHARE_QUANTUM)
+        offset += 4
+    }
+    const readIndices = (length: number) => {
+        const indices: number[] = []
+        for (let i = 0; i < length; i += 1) {
+            indices.push(view.getUint32(offset, true))
+            offset += 4
+        }
+        return indices
+    }
+    const pinned = readIndices(header.pinned)
+    const broken = readIndices(header.broken)
+    return parseSnapshot({
+        version: SNAPSHOT_VERSION,
+        seed: header.seed,
+        geometry: header.geometry,
+        width: header.width,
+        height: header.height,
+        cols: layout.cols,
+        rows: layout.rows,
+        spacingX: layout.spacingX,
+        spacingY: layout.spacingY,
+        time: 0,
+        bx,
+        by,
+        x: bx.slice(),
+        y: by.slice(),
+        vx: bx.map(() => 0),
+        vy: by.map(() => 0),
+        pinned,
+        broken,
+        facetGlow: layout.facets.map(() => 0)
+    })
+}
+
+export function readAutosave(storage: Storage): LatticeSnapshot | null {
+    const stored = storage.getItem(AUTOSAVE_KEY)
+    if (!stored) return null
+    try {
+        return parseSnapshot(stored)
+    } catch (error) {
+        console.error(error)
+        storage.removeItem(AUTOSAVE_KEY)
+        return null
+    }
+}
+
+export function writeAutosave(storage: Storage, snapshot: LatticeSnapshot) {
+    try {
+        storage.setItem(AUTOSAVE_KEY, serializeSnapshot(snapshot))
+    } catch (error) {
+        console.error(error)
+    }
+}
@@ -0,0 +1,16 @@
+import { resolveTheme, THEME_CHOICES, THEMES } from "@/lib/themes"
+import { describe, expect, test } from "vitest"
+
+describe("themes", () => {
+    test("offers light and high-contrast variants next to Helios", () => {
+        expect(THEMES.map((theme) => theme.id)).toEqual(["helios", "daylight", "contrast"])
+        expect(THEMES.some((theme) => theme.scheme === "light")).toBe(true)
+        expect(THEME_CHOICES[0]).toBe("auto")
+    })
+
+    test("follows the system colour scheme on auto", () => {
+        expect(resolveTheme("auto", false).id).toBe("helios")
+        expect(resolveTheme("auto", true).id).toBe("daylight")
+        expect(resolveTheme("contrast", true).id).toBe("contrast")
+    })
+})
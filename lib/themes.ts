@@ -0,0 +1,70 @@
+import { HELIOS_PALETTE, type GridPalette } from "@/lib/palette"
+
+export type ThemeId = "helios" | "daylight" | "contrast"
+/** A theme id, or "auto" to follow the system colour scheme. */
+export type ThemeChoice = ThemeId | "auto"
+
+export type ThemeDefinition = {
+    id: ThemeId
+    label: string
+    scheme: "dark" | "light"
+    palette: GridPalette
+}
+
+export const THEMES: readonly ThemeDefinition[] = [
+    { id: "helios", label: "Helios", scheme: "dark", palette: HELIOS_PALETTE },
+    {
+        id: "daylight",
+        label: "Daylight",
+        scheme: "light",
+        palette: {
+            background: [244, 240, 230],
+            line: [46, 52, 74],
+            bodyWarm: [196, 96, 40],
+            bodyCool: [36, 104, 168],
+            pin: [206, 84, 32],
+            signalRamp: [
+                [214, 72, 28],
+                [236, 140, 64],
+                [214, 206, 188],
+                [64, 148, 214],
+                [28, 88, 186]
+            ],
+            glowPeak: [255, 214, 120]
+        }
+    },
+    {
+        id: "contrast",
+        label: "Contrast",
+        scheme: "dark",
+        palette: {
+            background: [0, 0, 0],
+            line: [255, 255, 255],
+            bodyWarm: [255, 255, 255],
+            bodyCool: [255, 255, 255],
+            pin: [255, 221, 0],
+            signalRamp: [
+                [255, 40, 0],
+                [255, 221, 0],
+                [255, 255, 255],
+                [0, 229, 255],
+                [40, 96, 255]
+            ],
+            glowPeak: [255, 255, 255]
+        }
+    }
+]
+
+export const THEME_CHOICES: readonly ThemeChoice[] = ["auto", ...THEMES.map((theme) => theme.id)]
+
+/** Theme used for each system colour scheme while the choice is "auto". */
+const AUTO_THEMES: Record<"dark" | "light", ThemeId> = { dark: "helios", light: "daylight" }
+
+export function themeById(id: ThemeId): ThemeDefinition {
+    return THEMES.find((theme) => theme.id === id) ?? THEMES[0]
+}
+
+export function resolveTheme(choice: ThemeChoice, prefersLight: boolean): ThemeDefinition {
+    if (choice !== "auto") return themeById(choice)
+    return themeById(AUTO_THEMES[prefersLight ? "light" : "dark"])
+}
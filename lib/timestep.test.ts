@@ -0,0 +1,32 @@
+import { createFixedTimestep } from "@/lib/timestep"
+import { describe, expect, test } from "vitest"
+
+describe("fixed timestep accumulator", () => {
+    test("runs the same number of ticks regardless of display refresh rate", () => {
+        const at60 = createFixedTimestep()
+        const at120 = createFixedTimestep()
+        let ticks60 = 0
+        let ticks120 = 0
+
+        for (let i = 0; i < 60; i += 1) at60.advance(1000 / 60, () => (ticks60 += 1))
+        for (let i = 0; i < 120; i += 1) at120.advance(1000 / 120, () => (ticks120 += 1))
+
+        expect(Math.abs(ticks60 - ticks120)).toBeLessThanOrEqual(1)
+        expect(ticks60).toBeGreaterThanOrEqual(59)
+    })
+
+    test("returns the leftover step fraction for interpolation", () => {
+        const timestep = createFixedTimestep({ stepMs: 10 })
+
+        expect(timestep.advance(25, () => undefined)).toBeCloseTo(0.5)
+    })
+
+    test("caps catch-up ticks after a long stall", () => {
+        const timestep = createFixedTimestep({ stepMs: 10, maxSteps: 3 })
+        let ticks = 0
+
+        timestep.advance(5000, () => (ticks += 1))
+
+        expect(ticks).toBe(3)
+    })
+})
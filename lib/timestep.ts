@@ -0,0 +1,38 @@
+export const FIXED_STEP_MS = 1000 / 60
+
+export type FixedTimestepOptions = {
+    stepMs?: number
+    /** Upper bound on ticks per frame so a stalled tab cannot spiral. */
+    maxSteps?: number
+}
+
+export type FixedTimestep = {
+    /**
+     * Feeds elapsed wall time, runs `tick` once per whole fixed step and
+     * returns the leftover fraction of a step for render interpolation.
+     */
+    advance: (elapsedMs: number, tick: () => void) => number
+    reset: () => void
+}
+
+export function createFixedTimestep(options: FixedTimestepOptions = {}): FixedTimestep {
+    const stepMs = options.stepMs ?? FIXED_STEP_MS
+    const maxSteps = options.maxSteps ?? 5
+    let accumulator = 0
+
+    function advance(elapsedMs: number, tick: () => void) {
+        const elapsed = Number.isFinite(elapsedMs) ? Math.max(0, elapsedMs) : 0
+        accumulator = Math.min(accumulator + elapsed, stepMs * maxSteps)
+        while (accumulator >= stepMs) {
+            tick()
+            accumulator -= stepMs
+        }
+        return accumulator / stepMs
+    }
+
+    function reset() {
+        accumulator = 0
+    }
+
+    return { advance, reset }
+}
@@ -0,0 +1,22 @@
+export type Tool = "pull" | "push" | "pin" | "smooth" | "tear"
+
+export type ToolDefinition = {
+    id: Tool
+    label: string
+    shortcut: string
+    hint: string
+}
+
+export const TOOLS: readonly ToolDefinition[] = [
+    { id: "pull", label: "Pull", shortcut: "1", hint: "Drag nodes toward the pointer" },
+    { id: "push", label: "Push", shortcut: "2", hint: "Repel nodes away from the pointer" },
+    { id: "pin", label: "Pin", shortcut: "3", hint: "Freeze nodes so they ignore forces" },
+    { id: "smooth", label: "Smooth", shortcut: "4", hint: "Relax folds back toward the lattice" },
+    { id: "tear", label: "Tear", shortcut: "5", hint: "Cut springs along the stroke" }
+]
+
+export const DEFAULT_TOOL: Tool = "pull"
+
+export function toolForShortcut(key: string): Tool | null {
+    return TOOLS.find((tool) => tool.shortcut === key)?.id ?? null
+}
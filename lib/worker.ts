@@ -0,0 +1,87 @@
+import type { WorkerReply, WorkerRequest } from "@/lib/remote"
+import { createCanvasRenderer, type SceneRenderer } from "@/lib/renderers"
+import { createGridRuntime, type GridRuntime } from "@/lib/runtime"
+
+/** The parts of a worker's global scope the server uses. */
+export type WorkerScope = {
+    postMessage: (message: WorkerReply) => void
+    addEventListener: (type: "message", listener: (event: MessageEvent<WorkerRequest>) => void) => void
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Answers `connectWorker` messages: steps a runtime on each frame request
+ * and paints it onto the transferred OffscreenCanvas with the batched
+ * Canvas2D renderer. Every frame gets a reply; one that cannot be painted,
+ * because init failed or the canvas has no 2D context, gets a `frameError`
+ * so the host can fall back to drawing in its own thread.
+ */
+export function serveRuntime(scope: WorkerScope) {
+    let runtime: GridRuntime | null = null
+    let canvas: OffscreenCanvas | null = null
+    let renderer: SceneRenderer | null = null
+    let failure = "The grid runtime has not started"
+
+    scope.addEventListener("message", async (event) => {
+        const request = event.data
+        switch (request.type) {
+            case "init": {
+                try {
+                    canvas = request.canvas
+                    canvas.width = Math.max(1, Math.round(request.options.width))
+                    canvas.height = Math.max(1, Math.round(request.options.height))
+                    const context = canvas.getContext("2d")
+                    if (!context) throw new Error("The worker canvas has no 2D context")
+                    renderer = createCanvasRenderer(context)
+                    runtime = createGridRuntime(request.options)
+                } catch (error) {
+                    runtime = null
+                    renderer = null
+                    failure = errorMessage(error)
+                    scope.postMessage({ type: "frameError", error: failure })
+                }
+                return
+            }
+            case "resize": {
+                if (canvas) {
+                    canvas.width = Math.max(1, Math.round(request.width))
+                    canvas.height = Math.max(1, Math.round(request.height))
+                }
+                runtime?.resize(request.width, request.height)
+                return
+            }
+            case "frame": {
+                // Always answer, or the host would wait for this frame forever.
+                if (!runtime || !renderer) {
+                    scope.postMessage({ type: "frameError", error: failure })
+                    return
+                }
+                try {
+                    const frame = runtime.tick(request.deltaMs, request.input, request.report)
+                    renderer.draw(frame.scene, request.camera)
+                    const { stats, flips, diagnostics } = frame
+                    scope.postMessage({ type: "frame", stats, flips, diagnostics })
+                } catch (error) {
+                    scope.postMessage({ type: "frameError", error: errorMessage(error) })
+                }
+                return
+            }
+            case "call": {
+                if (!runtime) {
+                    scope.postMessage({ type: "result", id: request.id, error: failure })
+                    return
+                }
+                try {
+                    const call = runtime[request.method] as (...args: unknown[]) => unknown
+                    const value = await call(...request.args)
+                    scope.postMessage({ type: "result", id: request.id, value })
+                } catch (error) {
+                    scope.postMessage({ type: "result", id: request.id, error: errorMessage(error) })
+                }
+            }
+        }
+    })
+}
+
+if ("WorkerGlobalScope" in globalThis) serveRuntime(globalThis as unknown as WorkerScope)
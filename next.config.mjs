@@ -1,14 +1,23 @@
 const isGithubActions = process.env.GITHUB_ACTIONS === "true"
 const repo = "grid-research"
+// The gallery needs a server for its API routes, so it replaces the static export.
+const gallery = process.env.NEXT_PUBLIC_GALLERY === "true"
+const basePath = isGithubActions ? `/${repo}` : ""
 
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  output: "export",
+  output: gallery ? undefined : "export",
+  // Gallery routes are `*.gallery.ts(x)` files, which only count as routes with the gallery on.
+  pageExtensions: gallery ? ["gallery.tsx", "gallery.ts", "tsx", "ts", "jsx", "js"] : ["tsx", "ts", "jsx", "js"],
   trailingSlash: true,
   images: {
     unoptimized: true,
   },
-  basePath: isGithubActions ? `/${repo}` : "",
+  basePath,
+  // Plain links and fetches are not rewritten by Next, so the client prefixes them itself.
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath,
+  },
   assetPrefix: isGithubActions ? `/${repo}/` : "",
 }
 
@@ -0,0 +1,60 @@
+import type { GalleryStore, Sculpture } from "@/lib/gallery"
+import { createSimulation } from "@/lib/simulation"
+import { createGalleryHandlers } from "@/server/gallery"
+import { describe, expect, test } from "vitest"
+
+/** Keeps sculptures in memory, in place of the Prisma store. */
+function memoryStore(): GalleryStore {
+    const sculptures = new Map<string, Sculpture>()
+    let next = 0
+    return {
+        list: async () =>
+            [...sculptures.values()].reverse().map(({ snapshot: _snapshot, ...summary }) => summary),
+        create: async (input) => {
+            next += 1
+            const sculpture = { ...input, id: `s${next}`, createdAt: new Date(next * 1000).toISOString() }
+            sculptures.set(sculpture.id, sculpture)
+            return sculpture
+        },
+        fetch: async (id) => sculptures.get(id) ?? null,
+        remove: async (id) => sculptures.delete(id)
+    }
+}
+
+const post = (body: unknown) =>
+    new Request("http://localhost/api/gallery/", { method: "POST", body: JSON.stringify(body) })
+
+describe("gallery API", () => {
+    test("creates, lists, fetches and deletes sculptures", async () => {
+        const store = memoryStore()
+        const handlers = createGalleryHandlers(() => store)
+        const snapshot = createSimulation({ width: 200, height: 120, seed: 5 }).snapshot()
+        const body = { name: "Ridge", theme: "auto", physics: {}, snapshot, thumbnail: "data:image/png;base64,AA" }
+
+        const created = await handlers.create(post(body))
+        expect(created.status).toBe(201)
+        const { id } = (await created.json()) as Sculpture
+        await handlers.create(post({ ...body, name: "Valley" }))
+
+        const listed = (await (await handlers.list()).json()) as Sculpture[]
+        expect(listed.map((entry) => entry.name)).toEqual(["Valley", "Ridge"])
+        expect(listed[0]).not.toHaveProperty("snapshot")
+
+        const fetched = (await (await handlers.fetch(id)).json()) as Sculpture
+        expect(fetched.snapshot.bx).toEqual(snapshot.bx)
+
+        expect((await handlers.remove(id)).status).toBe(200)
+        expect((await handlers.remove(id)).status).toBe(404)
+        expect((await handlers.fetch(id)).status).toBe(404)
+    })
+
+    test("rejects malformed sculptures with the reason", async () => {
+        const handlers = createGalleryHandlers(memoryStore)
+        const response = await handlers.create(post({ name: "", theme: "auto" }))
+
+        expect(response.status).toBe(400)
+        expect(await response.json()).toEqual({ error: "Sculpture needs a name" })
+        const broken = new Request("http://localhost/api/gallery/", { method: "POST", body: "{" })
+        expect((await handlers.create(broken)).status).toBe(400)
+    })
+})
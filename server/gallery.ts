@@ -0,0 +1,102 @@
+import { PrismaClient, type Prisma, type Sculpture as SculptureRow } from "@prisma/client"
+import { parseSculptureInput, type GalleryStore, type Sculpture, type SculptureSummary } from "@/lib/gallery"
+import { parseSnapshot } from "@/lib/snapshot"
+import type { ThemeChoice } from "@/lib/themes"
+
+const SUMMARY_COLUMNS = {
+    id: true,
+    name: true,
+    createdAt: true,
+    theme: true,
+    physics: true,
+    thumbnail: true
+} satisfies Prisma.SculptureSelect
+
+/** A `Sculpture` row without its snapshot, as the list query selects it. */
+type SummaryRow = Prisma.SculptureGetPayload<{ select: typeof SUMMARY_COLUMNS }>
+
+function toSummary(row: SummaryRow): SculptureSummary {
+    return {
+        id: row.id,
+        name: row.name,
+        createdAt: row.createdAt.toISOString(),
+        theme: row.theme as ThemeChoice,
+        physics: JSON.parse(row.physics) as SculptureSummary["physics"],
+        thumbnail: row.thumbnail
+    }
+}
+
+function toSculpture(row: SculptureRow): Sculpture {
+    return { ...toSummary(row), snapshot: parseSnapshot(row.snapshot) }
+}
+
+/** Stores sculptures through Prisma; JSON fields are kept as text, which SQLite handles everywhere. */
+export function createPrismaGalleryStore(prisma: PrismaClient): GalleryStore {
+    return {
+        list: async () => {
+            const rows = await prisma.sculpture.findMany({
+                select: SUMMARY_COLUMNS,
+                orderBy: { createdAt: "desc" }
+            })
+            return rows.map(toSummary)
+        },
+        create: async (input) => {
+            const row = await prisma.sculpture.create({
+                data: {
+                    name: input.name,
+                    theme: input.theme,
+                    physics: JSON.stringify(input.physics),
+                    snapshot: JSON.stringify(input.snapshot),
+                    thumbnail: input.thumbnail
+                }
+            })
+            return toSculpture(row)
+        },
+        fetch: async (id) => {
+            const row = await prisma.sculpture.findUnique({ where: { id } })
+            return row && toSculpture(row)
+        },
+        remove: async (id) => {
+            const { count } = await prisma.sculpture.deleteMany({ where: { id } })
+            return count > 0
+        }
+    }
+}
+
+// One client per process; Next's dev server re-evaluates modules on every edit.
+const shared = globalThis as typeof globalThis & { galleryStore?: GalleryStore }
+
+export function galleryStore() {
+    shared.galleryStore ??= createPrismaGalleryStore(new PrismaClient())
+    return shared.galleryStore
+}
+
+const json = (body: unknown, status = 200) => Response.json(body, { status })
+
+/**
+ * Route handlers for the gallery API over any store: `GET` and `POST` on
+ * the collection, `GET` and `DELETE` on one sculpture. Errors come back as
+ * `{ error }` with a 4xx status.
+ */
+export function createGalleryHandlers(store: () => GalleryStore) {
+    return {
+        list: async () => json(await store().list()),
+        create: async (request: Request) => {
+            let input
+            try {
+                input = parseSculptureInput(await request.json())
+            } catch (error) {
+                return json({ error: error instanceof Error ? error.message : String(error) }, 400)
+            }
+            return json(await store().create(input), 201)
+        },
+        fetch: async (id: string) => {
+            const sculpture = await store().fetch(id)
+            return sculpture ? json(sculpture) : json({ error: "No such sculpture" }, 404)
+        },
+        remove: async (id: string) =>
+            (await store().remove(id)) ? json({ deleted: true }) : json({ error: "No such sculpture" }, 404)
+    }
+}
+
+export const galleryHandlers = createGalleryHandlers(galleryStore)
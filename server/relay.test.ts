@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { randomBytes } from "node:crypto"
+import { connect, type Socket } from "node:net"
+import { createSimulation } from "@/lib/simulation"
+import { decodeFrames, encodeFrame, isAllowedOrigin, MAX_MESSAGE_BYTES, startRelayServer } from "@/server/relay"
+import { describe, expect, test } from "vitest"
+
+/** Encodes a client frame, which must be masked. */
+function clientFrame(text: string, opcode = 0x1, fin = true) {
+    const payload = Buffer.from(text)
+    const frame = encodeFrame(opcode, payload)
+    if (!fin) frame[0] &= 0x7f
+    const headerLength = frame.length - payload.length
+    const mask = randomBytes(4)
+    const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]))
+    frame[1] |= 0x80
+    return Buffer.concat([frame.subarray(0, headerLength), mask, masked])
+}
+
+/** Sends an upgrade request from a page at `origin` and resolves with the status line. */
+function upgradeStatus(port: number, origin: string) {
+    const socket = connect(port, "127.0.0.1")
+    return new Promise<string>((resolve, reject) => {
+        socket.once("error", reject)
+        socket.once("data", (chunk: Buffer) => {
+            resolve(chunk.toString().split("\r\n")[0])
+            socket.destroy()
+        })
+        socket.write(
+            `GET / HTTP/1.1\r\nHost: localhost\r\nOrigin: ${origin}\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n` +
+                `Sec-WebSocket-Key: ${randomBytes(16).toString("base64")}\r\nSec-WebSocket-Version: 13\r\n\r\n`
+        )
+    })
+}
+
+/** Opens a raw WebSocket and collects the text messages the server sends. */
+async function open(port: number) {
+    const socket: Socket = connect(port, "127.0.0.1")
+    const messages: string[] = []
+    let pending = Buffer.alloc(0)
+    let upgraded = false
+    await new Promise<void>((resolve, reject) => {
+        socket.once("error", reject)
+        socket.on("data", (chunk: Buffer) => {
+            pending = Buffer.concat([pending, chunk])
+            if (!upgraded) {
+                const end = pending.indexOf("\r\n\r\n")
+                if (end < 0) return
+                expect(pending.subarray(0, end).toString()).toMatch(/^HTTP\/1\.1 101/)
+                upgraded = true
+                pending = pending.subarray(end + 4)
+                resolve()
+            }
+            const { frames, rest } = decodeFrames(pending)
+            pending = Buffer.from(rest)
+            for (const frame of frames) messages.push(frame.payload.toString())
+        })
+        socket.write(
+            "GET / HTTP/1.1\r\nHost: localhost\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+                `Sec-WebSocket-Key: ${randomBytes(16).toString("base64")}\r\nSec-WebSocket-Version: 13\r\n\r\n`
+        )
+    })
+    return { socket, messages }
+}
+
+const waitFor = async (check: () => boolean) => {
+    for (let attempt = 0; attempt < 200 && !check(); attempt += 1) {
+        await new Promise((resolve) => setTimeout(resolve, 5))
+    }
+    expect(check()).toBe(true)
+}
+
+describe("relay server", () => {
+    test("round-trips frames of every length encoding, split across reads", () => {
+        const texts = ["hi", "x".repeat(300), "y".repeat(70000)]
+        const wire = Buffer.concat(texts.map((text) => clientFrame(text)))
+        const head = decodeFrames(wire.subarray(0, 100))
+        const tail = decodeFrames(Buffer.concat([head.rest, wire.subarray(100)]))
+
+        expect([...head.frames, ...tail.frames].map((frame) => frame.payload.toString())).toEqual(texts)
+        expect(tail.rest).toHaveLength(0)
+        expect(decodeFrames(encodeFrame(0x1, Buffer.from("plain"))).frames[0].payload.toString()).toBe("plain")
+    })
+
+    test("joins WebSocket clients to one shared lattice", async () => {
+        const server = await startRelayServer({ port: 0, host: "127.0.0.1" })
+        try {
+            const snapshot = createSimulation({ width: 200, height: 120, seed: 2 }).snapshot()
+            const first = await open(server.port)
+            const second = await open(server.port)
+            first.socket.write(clientFrame(JSON.stringify({ type: "join", snapshot })))
+            await waitFor(() => first.messages.length === 1)
+            // A fragmented join from the second client.
+            const join = JSON.stringify({ type: "join", snapshot: { ...snapshot, seed: 99 } })
+            second.socket.write(clientFrame(join.slice(0, 40), 0x1, false))
+            second.socket.write(clientFrame(join.slice(40), 0x0))
+            await waitFor(() => second.messages.length === 1)
+
+            const welcome = JSON.parse(second.messages[0])
+            expect(welcome).toMatchObject({ type: "welcome", peer: 2, snapshot: { seed: 2 } })
+            expect(welcome.peers).toHaveLength(1)
+            await waitFor(() => first.messages.length === 2)
+            expect(JSON.parse(first.messages[1])).toMatchObject({ type: "peer", peer: 2 })
+            expect(server.relay.peers()).toBe(2)
+
+            second.socket.write(clientFrame("", 0x8))
+            await waitFor(() => first.messages.length === 3)
+            expect(JSON.parse(first.messages[2])).toEqual({ type: "leave", peer: 2 })
+            first.socket.destroy()
+        } finally {
+            await server.close()
+        }
+    })
+
+    test("only lets in loopback and listed page origins", async () => {
+        expect(isAllowedOrigin(undefined)).toBe(true)
+        expect(isAllowedOrigin("http://localhost:3000")).toBe(true)
+        expect(isAllowedOrigin("http://[::1]:3000")).toBe(true)
+        expect(isAllowedOrigin("https://example.com")).toBe(false)
+        expect(isAllowedOrigin("null")).toBe(false)
+
+        const server = await startRelayServer({ port: 0, origins: ["http://192.168.1.20:3000"] })
+        try {
+            expect(await upgradeStatus(server.port, "http://127.0.0.1:3000")).toMatch(/ 101 /)
+            expect(await upgradeStatus(server.port, "http://192.168.1.20:3000")).toMatch(/ 101 /)
+            expect(await upgradeStatus(server.port, "https://example.com")).toMatch(/ 403 /)
+        } finally {
+            await server.close()
+        }
+    })
+
+    test("drops clients whose frames or fragmented messages pass the size cap", async () => {
+        const oversized = Buffer.alloc(10)
+        oversized[0] = 0x81
+        oversized[1] = 0x80 | 127
+        oversized.writeBigUInt64BE(BigInt(MAX_MESSAGE_BYTES + 1), 2)
+        expect(() => decodeFrames(oversized)).toThrow(/too large/)
+
+        const server = await startRelayServer({ port: 0 })
+        try {
+            const client = await open(server.port)
+            const closed = new Promise((resolve) => client.socket.once("close", resolve))
+            const half = "x".repeat(MAX_MESSAGE_BYTES / 2 + 1)
+            client.socket.write(clientFrame(half, 0x1, false))
+            client.socket.write(clientFrame(half, 0x0, false))
+            await closed
+            expect(client.socket.destroyed).toBe(true)
+        } finally {
+            await server.close()
+        }
+    })
+})
@@ -0,0 +1,230 @@
+import { createHash } from "node:crypto"
+import { createServer, type IncomingMessage, type Server } from "node:http"
+import type { AddressInfo, Socket } from "node:net"
+import { createRelay, type Relay } from "@/lib/relay"
+
+export const DEFAULT_RELAY_PORT = 8787
+/** Loopback only, so a relay is not reachable from the network unless asked to be. */
+export const DEFAULT_RELAY_HOST = "127.0.0.1"
+
+/** Appended to a client's key to prove the server speaks WebSocket (RFC 6455). */
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+/** Largest message accepted, enough for a join carrying a 4K lattice of any geometry (under 6 MB). */
+export const MAX_MESSAGE_BYTES = 8 * 1024 * 1024
+/** Longest frame header: two bytes, an 8-byte length and a 4-byte mask. */
+const MAX_HEADER_BYTES = 14
+/** Page origins always let in: the relay's own machine, on any port. */
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"])
+
+const OPCODE_CONTINUATION = 0x0
+const OPCODE_TEXT = 0x1
+const OPCODE_CLOSE = 0x8
+const OPCODE_PING = 0x9
+const OPCODE_PONG = 0xa
+
+export type RelayServerOptions = {
+    port?: number
+    host?: string
+    /**
+     * Page origins, such as `http://192.168.1.20:3000`, allowed to connect
+     * besides loopback ones. Clients that send no Origin, which browsers
+     * always do, are let in.
+     */
+    origins?: readonly string[]
+    /** Relay to serve; a fresh one by default. */
+    relay?: Relay
+}
+
+export type RelayServer = {
+    relay: Relay
+    /** Port actually bound, which differs from the option when it was 0. */
+    port: number
+    close: () => Promise<void>
+}
+
+/** Encodes one unmasked, unfragmented server frame. */
+export function encodeFrame(opcode: number, payload: Buffer) {
+    const length = payload.length
+    const header = Buffer.alloc(length < 126 ? 2 : length <= 0xffff ? 4 : 10)
+    header[0] = 0x80 | opcode
+    if (length < 126) {
+        header[1] = length
+    } else if (length <= 0xffff) {
+        header[1] = 126
+        header.writeUInt16BE(length, 2)
+    } else {
+        header[1] = 127
+        header.writeBigUInt64BE(BigInt(length), 2)
+    }
+    return Buffer.concat([header, payload])
+}
+
+export type Frame = {
+    fin: boolean
+    opcode: number
+    payload: Buffer
+}
+
+/**
+ * Splits as many whole frames as `buffer` holds, unmasking client payloads,
+ * and returns them with the bytes left over for the next read.
+ */
+export function decodeFrames(buffer: Buffer): { frames: Frame[]; rest: Buffer } {
+    const frames: Frame[] = []
+    let offset = 0
+    while (buffer.length - offset >= 2) {
+        const fin = (buffer[offset] & 0x80) !== 0
+        const opcode = buffer[offset] & 0x0f
+        const masked = (buffer[offset + 1] & 0x80) !== 0
+        let length = buffer[offset + 1] & 0x7f
+        let cursor = offset + 2
+        if (length === 126) {
+            if (buffer.length < cursor + 2) break
+            length = buffer.readUInt16BE(cursor)
+            cursor += 2
+        } else if (length === 127) {
+            if (buffer.length < cursor + 8) break
+            length = Number(buffer.readBigUInt64BE(cursor))
+            cursor += 8
+        }
+        if (length > MAX_MESSAGE_BYTES) throw new Error(`Frame of ${length} bytes is too large`)
+        const maskStart = cursor
+        if (masked) cursor += 4
+        if (buffer.length < cursor + length) break
+        const payload = Buffer.from(buffer.subarray(cursor, cursor + length))
+        if (masked) {
+            for (let i = 0; i < payload.length; i += 1) payload[i] ^= buffer[maskStart + (i % 4)]
+        }
+        frames.push({ fin, opcode, payload })
+        offset = cursor + length
+    }
+    return { frames, rest: buffer.subarray(offset) }
+}
+
+/** True when a page at `origin` may connect: no Origin, a loopback one or one listed in `allowed`. */
+export function isAllowedOrigin(origin: string | undefined, allowed: readonly string[] = []) {
+    if (origin === undefined || allowed.includes(origin)) return true
+    try {
+        return LOOPBACK_HOSTS.has(new URL(origin).hostname)
+    } catch {
+        return false
+    }
+}
+
+/** Answers an upgrade request and wires the socket to the relay. */
+function accept(relay: Relay, origins: readonly string[], request: IncomingMessage, socket: Socket) {
+    const key = request.headers["sec-websocket-key"]
+    if (request.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+        socket.end("HTTP/1.1 400 Bad Request\r\n\r\n")
+        return
+    }
+    if (!isAllowedOrigin(request.headers.origin, origins)) {
+        socket.end("HTTP/1.1 403 Forbidden\r\n\r\n")
+        return
+    }
+    const acceptKey = createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64")
+    socket.write(
+        "HTTP/1.1 101 Switching Protocols\r\n" +
+            "Upgrade: websocket\r\n" +
+            "Connection: Upgrade\r\n" +
+            `Sec-WebSocket-Accept: ${acceptKey}\r\n\r\n`
+    )
+    socket.setNoDelay(true)
+
+    let pending = Buffer.alloc(0)
+    let fragments: Buffer[] = []
+    let fragmentBytes = 0
+    let open = true
+    const connection = relay.connect({
+        send: (data) => {
+            if (open) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(data)))
+        }
+    })
+    const close = () => {
+        if (!open) return
+        open = false
+        connection.close()
+    }
+    const drop = () => {
+        close()
+        socket.destroy()
+    }
+
+    socket.on("data", (chunk: Buffer) => {
+        let decoded: ReturnType<typeof decodeFrames>
+        try {
+            decoded = decodeFrames(Buffer.concat([pending, chunk]))
+        } catch {
+            drop()
+            return
+        }
+        pending = Buffer.from(decoded.rest)
+        // At most one capped frame is ever left waiting for the rest of its bytes.
+        if (pending.length > MAX_MESSAGE_BYTES + MAX_HEADER_BYTES) {
+            drop()
+            return
+        }
+        for (const frame of decoded.frames) {
+            switch (frame.opcode) {
+                case OPCODE_TEXT:
+                case OPCODE_CONTINUATION: {
+                    fragmentBytes += frame.payload.length
+                    if (fragmentBytes > MAX_MESSAGE_BYTES) {
+                        drop()
+                        return
+                    }
+                    fragments.push(frame.payload)
+                    if (!frame.fin) break
+                    const message = Buffer.concat(fragments).toString("utf8")
+                    fragments = []
+                    fragmentBytes = 0
+                    connection.receive(message)
+                    break
+                }
+                case OPCODE_PING:
+                    socket.write(encodeFrame(OPCODE_PONG, frame.payload))
+                    break
+                case OPCODE_CLOSE:
+                    close()
+                    socket.end(encodeFrame(OPCODE_CLOSE, frame.payload.subarray(0, 2)))
+                    return
+            }
+        }
+    })
+    socket.on("close", close)
+    socket.on("error", close)
+}
+
+/**
+ * Serves a relay over WebSocket from Node, with no dependencies beyond the
+ * standard library. Only text messages are used; binary frames are ignored.
+ */
+export function startRelayServer(options: RelayServerOptions = {}): Promise<RelayServer> {
+    const relay = options.relay ?? createRelay()
+    const origins = options.origins ?? []
+    const sockets = new Set<Socket>()
+    const server: Server = createServer((_request, response) => {
+        response.writeHead(426, { "Content-Type": "text/plain" })
+        response.end("Lattice relay: connect with a WebSocket\n")
+    })
+    server.on("upgrade", (request: IncomingMessage, socket: Socket) => {
+        sockets.add(socket)
+        socket.on("close", () => sockets.delete(socket))
+        accept(relay, origins, request, socket)
+    })
+
+    return new Promise((resolve, reject) => {
+        server.once("error", reject)
+        server.listen(options.port ?? DEFAULT_RELAY_PORT, options.host ?? DEFAULT_RELAY_HOST, () => {
+            resolve({
+                relay,
+                port: (server.address() as AddressInfo).port,
+                close: () =>
+                    new Promise((done) => {
+                        for (const socket of sockets) socket.destroy()
+                        server.close(() => done())
+                    })
+            })
+        })
+    })
+}
@@ -0,0 +1,17 @@
+import { DEFAULT_RELAY_HOST, DEFAULT_RELAY_PORT, startRelayServer } from "@/server/relay"
+
+const port = Number(process.env.PORT ?? DEFAULT_RELAY_PORT)
+const host = process.env.HOST ?? DEFAULT_RELAY_HOST
+/** Comma-separated page origins allowed besides loopback ones, e.g. `http://192.168.1.20:3000`. */
+const origins = (process.env.ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+
+startRelayServer({ port, host, origins }).then(
+    (server) => console.log(`Lattice relay listening on ws://${host}:${server.port}`),
+    (error) => {
+        console.error(error)
+        process.exitCode = 1
+    }
+)